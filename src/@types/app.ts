@@ -14,6 +14,68 @@ export interface NDEFRecordInitCustom {
 export interface NFCStatus {
   writing: boolean;
   reading: boolean;
+  locking: boolean; // makeReadOnly in progress
+  verifying: boolean; // Written tag is being read back; `writing` stays true until this ends
+}
+
+// How an NDEF message is stored on a tag: Type 2/5 tags wrap it in an NDEF Message TLV,
+// Type 4 tags keep it in an NDEF file prefixed by a 2-byte length (NLEN).
+export type TagStorage = "tlv" | "nlen";
+
+// A tag model the user can target. `ndefBytes` is the memory available to NDEF data
+// (user memory minus the Capability Container where the CC lives in user memory).
+export interface TagProfile {
+  id: string;
+  name: string;
+  nfcForumType: 2 | 4 | 5;
+  storage: TagStorage;
+  ndefBytes: number;
+}
+
+// What to do when the encoded message does not fit the selected tag profile.
+export type OverCapacityPolicy = "block" | "confirm";
+
+// Options for a single write request (maps onto NDEFWriteOptions plus a client-side timeout).
+export interface WriteRequestOptions {
+  overwrite?: boolean; // false = refuse tags that already hold an NDEF message
+  timeoutMs?: number; // abort the pending write after this many ms; 0/undefined = wait forever
+  tagProfile?: TagProfile; // Target tag; undefined skips the capacity check
+  overCapacity?: OverCapacityPolicy; // Defaults to "block"
+}
+
+// How a write request ended, so the UI can tell the user what happened.
+// "invalid": the message has lint errors (see ndefLint.ts) and was not written.
+export type WriteOutcome = "written" | "cancelled" | "timeout" | "refused" | "too-large" | "invalid" | "failed" | "skipped";
+
+// Record properties compared when a written tag is read back.
+export type VerifyField = "recordType" | "mediaType" | "id" | "lang" | "encoding" | "payload";
+
+export interface VerifyMismatch {
+  field: VerifyField;
+  expected: string; // Display form, e.g. `"en"` or `12 bytes: 68 65 6c 6c 6f …`
+  actual: string;
+  offset?: number; // First differing payload byte
+}
+
+// Comparison of one written record with the record at the same position on the tag.
+export interface RecordVerifyResult {
+  index: number;
+  expectedType: string; // "" for an extra record found on the tag
+  actualType: string; // "" for a record missing from the tag
+  passed: boolean;
+  mismatches: VerifyMismatch[];
+}
+
+// "cancelled" and "timeout" mean the tag was written but never read back.
+// "unverified": the tag read back could not be matched to the written one, because the write's
+// reading did not report a serial number; its records were compared but prove nothing.
+export type WriteVerifyStatus = "passed" | "failed" | "unverified" | "cancelled" | "timeout";
+
+export interface WriteVerifyReport {
+  status: WriteVerifyStatus;
+  uid: string; // Serial number of the verified tag; "" if the tag was not read back
+  time: number;
+  records: RecordVerifyResult[]; // Empty unless the tag was read back
 }
 
 export interface ScannedTag {
@@ -21,6 +83,300 @@ export interface ScannedTag {
   records: NDEFRecord[]; // Using the global NDEFRecord type
 }
 
+// Plain, structured-clone-safe copy of an NDEFRecord. Used wherever records leave memory
+// (IndexedDB library, import/export) so DataView payloads and smart-poster data survive.
+export interface StoredRecord {
+  recordType: string;
+  mediaType?: string;
+  id?: string;
+  encoding?: string;
+  lang?: string;
+  payload: ArrayBuffer | null; // Copy of the record's DataView window, null when the record has no data
+  smartPosterData?: NDEFMessageInit; // Nested message of a smart poster (_smartPosterData or decoded payload)
+}
+
+export type ScanHistoryEntryKind = "reading" | "error";
+
+// One event of the current scanning session: an accepted reading or a reading error.
+export interface ScanHistoryEntry {
+  id: number;
+  kind: ScanHistoryEntryKind;
+  time: number;
+  uid: string; // "" for reading errors, which carry no serial number
+  records: StoredRecord[];
+  error?: string;
+}
+
+export type BatchRowStatus = "pending" | "written" | "skipped" | "failed";
+
+// One data row of a batch provisioning CSV.
+export interface BatchRow {
+  index: number; // Position among the data rows, header excluded
+  values: Record<string, string>; // Field values keyed by lower-cased column name
+  status: BatchRowStatus;
+  uid: string; // Tag the row was written to; "" if not written or the UID was not reported
+  message: string; // Why the row failed or was skipped
+  finishedAt?: number;
+}
+
+// A batch provisioning run: one message per CSV row, built from a record template with placeholders.
+export interface BatchJob {
+  fileName: string;
+  columns: string[]; // Header row as in the file
+  template: NDEFRecordInit[]; // Snapshot of the editor records when the CSV was loaded
+  counterStart: number; // {{counter}} of the first data row
+  rows: BatchRow[];
+  current: number; // Row the next tap writes; rows.length once every row is done
+  running: boolean;
+}
+
+// One tag written in clone mode.
+export interface CloneCopy {
+  uid: string;
+  time: number;
+  outcome: WriteOutcome; // "written", or why the copy failed
+}
+
+// Clone mode: the message of a source tag is kept as the master and written to every other tag tapped.
+export interface CloneSession {
+  sourceUid: string; // "" until the source tag has been read
+  master: StoredRecord[]; // Snapshot of the source tag's records
+  copies: CloneCopy[]; // Oldest first
+  running: boolean;
+}
+
+export type LibraryEntryKind = "scan" | "draft";
+
+// An entry of the local tag library (IndexedDB "entries" store).
+export interface LibraryEntry {
+  id?: number; // Auto-incremented key, absent until saved
+  kind: LibraryEntryKind;
+  name: string;
+  uid: string; // Tag UID for scans, empty for drafts that were never on a tag
+  records: StoredRecord[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Free-form note attached to a tag UID, shown whenever that UID is scanned again.
+export interface TagNote {
+  uid: string;
+  note: string;
+  updatedAt: number;
+}
+
+export type NotificationSeverity = "success" | "info" | "warning" | "error";
+
+// A message shown to the user: toasts dismiss themselves, persistent notifications stay as banners.
+export interface AppNotification {
+  id: number;
+  severity: NotificationSeverity;
+  title?: string;
+  message: string;
+  persistent: boolean;
+  createdAt: number;
+}
+
+// Web NFC failures grouped by the DOMException name they are reported with.
+export type NfcErrorCategory =
+  | "permission-denied" // NotAllowedError
+  | "not-supported" // NotSupportedError
+  | "not-readable" // NotReadableError
+  | "io-failure" // NetworkError
+  | "aborted" // AbortError
+  | "invalid-state" // InvalidStateError
+  | "unknown";
+
+export type NfcOperation = "scan" | "write" | "lock";
+
+// The reading event the services receive, whichever backend produced it.
+export interface NfcReadingEvent {
+  serialNumber: string;
+  message: { records: ReadonlyArray<NDEFRecord> };
+}
+
+// The part of NDEFReader the services use. Implemented by Web NFC and by the simulator.
+export interface NfcReader {
+  onreading: ((event: NfcReadingEvent) => void) | null;
+  onreadingerror: ((event: Event) => void) | null;
+  scan(options?: NDEFScanOptions): Promise<void>;
+  write(message: NDEFMessageSource, options?: NDEFWriteOptions): Promise<void>;
+  makeReadOnly(options?: NDEFMakeReadOnlyOptions): Promise<void>;
+}
+
+export type NfcBackendId = "web-nfc" | "simulator";
+
+export interface NfcBackend {
+  id: NfcBackendId;
+  name: string;
+  isAvailable(): boolean;
+  createReader(): NfcReader; // Throws a NotSupportedError DOMException if the backend is unavailable
+}
+
+// A tag held by the NFC simulator. `message` holds the raw NDEF bytes stored on it (empty = blank tag).
+export interface VirtualTag {
+  uid: string; // Colon-separated lowercase hex, the format Web NFC reports serial numbers in
+  name: string;
+  profileId: string; // TagProfile that sets the capacity
+  readOnly: boolean;
+  message: ArrayBuffer;
+}
+
+export type SimulatorEventKind = "tap" | "read" | "write" | "lock" | "error";
+
+export interface SimulatorEvent {
+  id: number;
+  time: number;
+  kind: SimulatorEventKind;
+  uid?: string;
+  message: string;
+}
+
+// WSC (Wi-Fi Simple Configuration) authentication and encryption types, see wifiCredential.ts.
+export type WifiAuthType = "open" | "wpa-personal" | "shared" | "wpa-enterprise" | "wpa2-enterprise" | "wpa2-personal" | "wpa-wpa2-personal";
+export type WifiEncryptionType = "none" | "wep" | "tkip" | "aes" | "aes-tkip";
+
+// Network settings carried by a Wi-Fi credential record.
+export interface WifiCredential {
+  ssid: string;
+  authType: WifiAuthType;
+  encryptionType: WifiEncryptionType;
+  networkKey: string; // Passphrase, or the key in hex
+  hidden: boolean; // The network does not broadcast its SSID
+  macAddress?: string; // "ff:ff:ff:ff:ff:ff" (any access point) unless the credential names one
+}
+
+// vCard versions the contact form writes, see vcard.ts.
+export type VCardVersion = "3.0" | "4.0";
+
+// A phone number or email address with its TYPE parameter ("cell", "work", ... or "" for none).
+export interface ContactEntry {
+  type: string;
+  value: string;
+}
+
+export interface ContactAddress {
+  street: string;
+  city: string;
+  region: string;
+  postalCode: string;
+  country: string;
+}
+
+// Contact fields edited by AddRecordForm and shown by NDEFRecord.vue for text/vcard records.
+export interface Contact {
+  version: VCardVersion;
+  formattedName: string; // FN, the name as displayed
+  givenName: string;
+  familyName: string;
+  organization: string;
+  phones: ContactEntry[];
+  emails: ContactEntry[];
+  url: string;
+  address: ContactAddress;
+  note: string;
+}
+
+// One content line of a parsed vCard. Parameter names are upper case and parameter values
+// are split on commas; structured values (N, ADR, ORG) keep their unescaped ';' separators
+// in components.
+export interface VCardProperty {
+  group: string; // "item1" in "item1.TEL", "" if none
+  name: string; // Upper case, e.g. "TEL"
+  params: Record<string, string[]>;
+  value: string; // Unescaped value, components joined with ";"
+  components: string[]; // The value split on unescaped ";", each component unescaped
+}
+
+// Bluetooth out-of-band pairing records, see bluetoothOob.ts.
+export type BluetoothTransport = "br-edr" | "le"; // application/vnd.bluetooth.ep.oob or .le.oob
+export type BluetoothLeRole = "peripheral" | "central" | "peripheral-preferred" | "central-preferred";
+
+// Pairing data edited by AddRecordForm. Fields that do not apply to the transport are ignored.
+export interface BluetoothPairing {
+  transport: BluetoothTransport;
+  address: string; // "00:11:22:33:44:55", most significant byte first
+  addressType: "public" | "random"; // LE only
+  localName: string;
+  classOfDevice: string; // 6 hex digits, "" for none (BR/EDR only)
+  leRole: BluetoothLeRole; // LE only
+}
+
+// One decoded EIR (BR/EDR) or AD (LE) structure of a pairing record, ready for display.
+export interface BluetoothOobField {
+  type: number; // EIR/AD type code, -1 for the BR/EDR device address that precedes the EIR data
+  name: string;
+  value: string;
+}
+
+// Smart poster contents, see smartPoster.ts.
+export type SmartPosterAction = "" | "do" | "save" | "open"; // "" writes no action record
+
+export interface SmartPosterTitle {
+  lang: string; // BCP 47 language tag; a poster has at most one title per language
+  text: string;
+}
+
+export interface SmartPosterIcon {
+  mediaType: string; // image/* or video/*
+  data: ArrayBuffer;
+}
+
+// Fields of a smart poster, one per sub-record type.
+export interface SmartPoster {
+  url: string;
+  titles: SmartPosterTitle[];
+  action: SmartPosterAction;
+  size: number | null; // Size in bytes of the linked content, null for none
+  type: string; // MIME type of the linked content, "" for none
+  icon: SmartPosterIcon | null;
+}
+
+// Text forms of payload bytes in the byte editor, see byteFormat.ts.
+export type ByteFormat = "hex" | "base64" | "escaped";
+
+// Findings of the NDEF message linter, see ndefLint.ts. Errors block writing.
+export type LintSeverity = "error" | "warning";
+export type LintRule = "language-tag" | "external-type" | "local-type" | "media-type" | "url" | "empty-url" | "duplicate-id" | "text-encoding";
+
+export interface LintFinding {
+  severity: LintSeverity;
+  rule: LintRule;
+  message: string;
+}
+
+// QR code error-correction levels, see qrCode.ts.
+export type QrErrorCorrection = "L" | "M" | "Q" | "H";
+
+// What the QR panel can show for one record, see qrContent.ts.
+export interface QrRecordContent {
+  index: number; // Position of the record in the message
+  label: string; // e.g. "URL: https://example.com"
+  text: string | null; // What the QR code encodes, null if the record has no QR equivalent
+  warning: string; // Why there is no code, or what the code leaves out; empty if nothing
+}
+
+// Record type choices offered by AddRecordForm ("external" covers all "domain:type" records).
+export type RecordFormType = "text" | "url" | "mime" | "absolute-url" | "smart-poster" | "empty" | "unknown" | "external" | "wifi" | "contact" | "android-app" | "bluetooth";
+
+// Field values of AddRecordForm, used to prefill it when editing an existing record.
+export interface RecordFormState {
+  recordType: RecordFormType;
+  externalTypeString: string;
+  smartPoster: SmartPoster; // Fields of a smart poster and its nested records
+  mediaType: string;
+  id: string;
+  encoding: string;
+  lang: string;
+  textData: string;
+  fileArrayBuffer: ArrayBuffer | null; // Binary payload kept as-is unless a new file is chosen
+  wifi: WifiCredential; // Fields of a Wi-Fi (application/vnd.wfa.wsc) record
+  contact: Contact; // Fields of a contact (text/vcard) record
+  androidPackage: string; // Package name of an Android Application Record (android.com:pkg)
+  bluetooth: BluetoothPairing; // Fields of a Bluetooth pairing (vnd.bluetooth.*.oob) record
+  notice: string; // Explains anything the form cannot represent, empty if nothing is lost
+}
+
 // NDEFMessageInit is part of the WebNFC API (global)
 // interface NDEFMessageInit {
 //   records: NDEFRecordInit[];
@@ -0,0 +1,16 @@
+// Type definitions for the Compression Streams API, which TypeScript 4.6's DOM library lacks.
+// https://compression.spec.whatwg.org/
+
+declare type CompressionFormat = "deflate" | "deflate-raw" | "gzip";
+
+declare class CompressionStream {
+  constructor(format: CompressionFormat);
+  readonly readable: ReadableStream<Uint8Array>;
+  readonly writable: WritableStream<BufferSource>;
+}
+
+declare class DecompressionStream {
+  constructor(format: CompressionFormat);
+  readonly readable: ReadableStream<Uint8Array>;
+  readonly writable: WritableStream<BufferSource>;
+}
@@ -0,0 +1,231 @@
+// src/services/batchService.ts
+/*global NDEFRecord, NDEFRecordInit, AbortController*/ // WebNFC global types
+import type { Ref } from 'vue';
+import type { BatchJob, BatchRow, NFCStatus, WriteOutcome, WriteRequestOptions } from '../@types/app';
+import { parseCsv, formatCsv } from '../utils/csv';
+import { findPlaceholders, fillTemplate, COUNTER_PLACEHOLDER } from '../utils/batchTemplate';
+import { snapshotRecord, snapshotToRecordInit } from '../utils/recordSnapshot';
+import { lintRecordInits, lintErrors } from '../utils/ndefLint';
+import { writeRecordInits, cancelWrite } from './nfcService';
+import { watchTags } from './tagWatch';
+import type { TagWatch } from './tagWatch';
+import { notifySuccess, notifyWarning } from './notificationService';
+
+// CSV-driven batch provisioning. A job pairs a record template (see batchTemplate.ts) with the
+// data rows of a CSV file; while it runs, every tap writes the current row's message and moves on.
+
+// How long to wait after a write for the reading event that carries the tag's UID.
+// Web NFC does not report the UID from write() itself.
+export const UID_WAIT_MS = 1000;
+
+// Row messages for write outcomes that fail the row.
+const OUTCOME_MESSAGES: Partial<Record<WriteOutcome, string>> = {
+  refused: "The tag already holds data and \"Never overwrite\" is on.",
+  "too-large": "The message does not fit the target tag.",
+  skipped: "The message could not be encoded.",
+  failed: "The write failed.",
+};
+
+function templateInits(records: readonly NDEFRecord[]): NDEFRecordInit[] {
+  return records.map((record) => snapshotToRecordInit(snapshotRecord(record)) as NDEFRecordInit);
+}
+
+// Placeholders used by the editor records, for showing which CSV columns a template needs.
+export function templatePlaceholders(records: readonly NDEFRecord[]): string[] {
+  return findPlaceholders(templateInits(records));
+}
+
+// Parses the CSV and snapshots the template. Throws if the file cannot drive the template;
+// rows with the wrong number of fields are kept as "skipped" so they show up in the results.
+export function createBatchJob(fileName: string, csvText: string, template: readonly NDEFRecord[], counterStart = 1): BatchJob {
+  if (!template.length) throw new Error("The template is empty. Add the records to write, with {{placeholders}} for the per-tag values.");
+  const [header, ...dataRows] = parseCsv(csvText);
+  if (!header) throw new Error("The CSV file is empty.");
+  const columns = header.map((column) => column.trim());
+  const keys = columns.map((column) => column.toLowerCase());
+  if (keys.some((key) => !key)) throw new Error("Every column needs a name in the header row.");
+  const duplicate = keys.find((key, i) => keys.indexOf(key) !== i);
+  if (duplicate) throw new Error(`Column "${duplicate}" appears more than once.`);
+  if (!dataRows.length) throw new Error("The CSV file has a header row but no data rows.");
+
+  const inits = templateInits(template);
+  const missing = findPlaceholders(inits).filter((name) => name !== COUNTER_PLACEHOLDER && !keys.includes(name));
+  if (missing.length) {
+    throw new Error(`The template uses placeholders with no CSV column: ${missing.map((name) => `{{${name}}}`).join(", ")}.`);
+  }
+
+  const rows: BatchRow[] = dataRows.map((fields, index) => {
+    const values: Record<string, string> = {};
+    keys.forEach((key, i) => (values[key] = fields[i] ?? ""));
+    const row: BatchRow = { index, values, status: "pending", uid: "", message: "" };
+    if (fields.length !== columns.length) {
+      row.status = "skipped";
+      row.message = `Expected ${columns.length} fields, found ${fields.length}.`;
+    }
+    return row;
+  });
+  return { fileName, columns, template: inits, counterStart, rows, current: 0, running: false };
+}
+
+// The message for one row. Throws if a placeholder cannot be filled.
+export function buildRowMessage(job: BatchJob, row: BatchRow): NDEFRecordInit[] {
+  return fillTemplate(job.template, row.values, job.counterStart + row.index);
+}
+
+export function batchProgress(job: BatchJob): Record<BatchRow["status"], number> {
+  const counts = { pending: 0, written: 0, skipped: 0, failed: 0 };
+  for (const row of job.rows) counts[row.status]++;
+  return counts;
+}
+
+// Moves `current` to the next row that still needs writing (pending, or a failed row to retry).
+function advanceToWritableRow(job: BatchJob): void {
+  while (job.current < job.rows.length && (job.rows[job.current].status === "written" || job.rows[job.current].status === "skipped")) {
+    job.current++;
+  }
+}
+
+// The UID of the tag a write just went to, or "" if no reading arrived in time.
+async function writtenUid(tagWatch: TagWatch): Promise<string> {
+  const reading = tagWatch.lastReading() ?? (await tagWatch.nextReading(UID_WAIT_MS));
+  return reading?.serialNumber ?? "";
+}
+
+// Waits until a tag that was not written in this run is read, so that a tag left on the reader
+// does not take the next row as well. Returns false if the batch is stopped meanwhile.
+async function waitForNewTag(tagWatch: TagWatch, writtenUids: Map<string, BatchRow>, writeAbortController: Ref<AbortController | null>): Promise<boolean> {
+  const controller = new AbortController();
+  writeAbortController.value = controller; // Lets stopBatch() end the wait
+  try {
+    for (;;) {
+      const reading = await tagWatch.nextReading(0, controller.signal);
+      if (!reading) return false;
+      if (!writtenUids.has(reading.serialNumber)) return true;
+    }
+  } finally {
+    if (writeAbortController.value === controller) writeAbortController.value = null;
+  }
+}
+
+// Writes rows from `current` on, one tap each. Stops when every row is done, when a write is
+// cancelled or times out (the row stays pending), or when a tag refuses or fails the write
+// (the row is marked failed and stays current, so resuming retries it on another tap).
+// Rows whose message cannot be built, has lint errors or does not fit are failed and the run moves on.
+// A tag that stays on the reader and takes the next row too gets its own row written back, and
+// the next row waits for a tag that was not written in this run.
+export async function runBatch(
+  jobRef: Ref<BatchJob | null>,
+  status: Ref<NFCStatus>,
+  writeAbortController: Ref<AbortController | null>,
+  options: WriteRequestOptions = {}
+): Promise<void> {
+  const job = jobRef.value;
+  if (!job || job.running) return;
+  if (status.value.writing || status.value.locking) {
+    console.log("Batch not started: another write or lock is in progress.");
+    return;
+  }
+  job.running = true;
+  const tagWatch = watchTags("Batch"); // Records the UID of each written tag
+  const writtenUids = new Map<string, BatchRow>(); // Tags written in this run and the row each holds
+  try {
+    while (job.running) {
+      advanceToWritableRow(job);
+      if (job.current >= job.rows.length) {
+        const counts = batchProgress(job);
+        notifySuccess(`Batch complete: ${counts.written} written, ${counts.skipped} skipped, ${counts.failed} failed.`, { title: job.fileName });
+        break;
+      }
+      const row = job.rows[job.current];
+      let message: NDEFRecordInit[];
+      try {
+        message = buildRowMessage(job, row);
+      } catch (err) {
+        Object.assign(row, { status: "failed", message: (err as Error).message, finishedAt: Date.now() });
+        job.current++;
+        continue;
+      }
+
+      tagWatch.reset();
+      const outcome = await writeRecordInits(message, status, writeAbortController, options);
+      if (outcome === "written") {
+        const uid = await writtenUid(tagWatch);
+        const earlier = uid ? writtenUids.get(uid) : undefined;
+        if (earlier) {
+          notifyWarning(`Tag ${uid.toUpperCase()} was still on the reader and took row ${row.index + 1}. Keep it there while row ${earlier.index + 1} is written back, then tap the next tag.`, { title: "Same tag" });
+          tagWatch.reset();
+          const restored = await writeRecordInits(buildRowMessage(job, earlier), status, writeAbortController, options);
+          if (restored !== "written" || (await writtenUid(tagWatch)) !== uid) {
+            // The tag keeps this row's message
+            Object.assign(earlier, { status: "failed", uid: "", message: `Tag ${uid.toUpperCase()} was overwritten with row ${row.index + 1}. Select this row to write it again.`, finishedAt: Date.now() });
+            Object.assign(row, { status: "written", uid, message: "", finishedAt: Date.now() });
+            writtenUids.set(uid, row);
+            job.current++;
+          }
+          if (restored === "cancelled" || !(await waitForNewTag(tagWatch, writtenUids, writeAbortController))) break;
+          continue;
+        }
+        if (uid) writtenUids.set(uid, row);
+        Object.assign(row, { status: "written", uid, message: "", finishedAt: Date.now() });
+        job.current++;
+      } else if (outcome === "cancelled" || outcome === "timeout") {
+        console.log(`Batch paused at row ${row.index + 1}: write ${outcome}.`);
+        break;
+      } else if (outcome === "invalid") {
+        // The filled values made the message fail the linter, e.g. a {{url}} that is not a URL
+        Object.assign(row, { status: "failed", message: lintErrors(lintRecordInits(message)).join(" "), finishedAt: Date.now() });
+        job.current++;
+      } else {
+        Object.assign(row, { status: "failed", message: OUTCOME_MESSAGES[outcome] ?? outcome, finishedAt: Date.now() });
+        if (outcome === "too-large" || outcome === "skipped") {
+          job.current++;
+        } else {
+          break;
+        }
+      }
+    }
+  } finally {
+    job.running = false;
+    tagWatch.stop();
+  }
+}
+
+// Pauses the run; the pending write is cancelled and its row stays current.
+export function stopBatch(job: BatchJob | null, writeAbortController: Ref<AbortController | null>): void {
+  if (!job?.running) return;
+  job.running = false;
+  cancelWrite(writeAbortController);
+}
+
+export function skipBatchRow(job: BatchJob, reason = "Skipped by user."): void {
+  advanceToWritableRow(job);
+  const row = job.rows[job.current];
+  if (!row) return;
+  Object.assign(row, { status: "skipped", message: reason, finishedAt: Date.now() });
+  job.current++;
+}
+
+// Makes a row the next one to write, e.g. to redo a tag that was damaged after writing.
+export function selectBatchRow(job: BatchJob, index: number): void {
+  const row = job.rows[index];
+  if (!row || job.running) return;
+  Object.assign(row, { status: "pending", uid: "", message: "", finishedAt: undefined });
+  job.current = index;
+}
+
+// The original CSV with the outcome of every row appended. The original values are kept as
+// they are (a "+45…" phone number must load as the same value in a new batch); only the outcome
+// columns are guarded against spreadsheet formulas.
+export function batchResultsToCsv(job: BatchJob): string {
+  const keys = job.columns.map((column) => column.toLowerCase());
+  return formatCsv([
+    [...job.columns, "batch_status", "batch_uid", "batch_message", "batch_finished_at"],
+    ...job.rows.map((row) => [
+      ...keys.map((key) => row.values[key]),
+      row.status,
+      row.uid,
+      row.message,
+      row.finishedAt ? new Date(row.finishedAt).toISOString() : "",
+    ]),
+  ], job.columns.length);
+}
@@ -0,0 +1,116 @@
+// src/services/cloneService.ts
+/*global NDEFRecord, AbortController*/ // WebNFC global types
+import type { Ref } from 'vue';
+import type { CloneSession, NfcReader, NfcReadingEvent, NFCStatus, WriteRequestOptions } from '../@types/app';
+import { snapshotRecord, snapshotToRecordInit } from '../utils/recordSnapshot';
+import { writeRecordInits, cancelWrite } from './nfcService';
+import { getNfcBackend } from './nfcBackend';
+import { notifyInfo, notifyWarning, reportNfcError } from './notificationService';
+
+// Clone mode: one scan stays open for the whole session. The first tag read becomes the source
+// and its records the master; every other tag tapped afterwards gets the master written to it
+// while it is still in the field, so each copy takes a single tap.
+
+let activeScan: AbortController | null = null; // Scan of the running session, aborted by stopClone()
+
+// A session that reads its source on the first tap, or that starts from a tag already read
+// (e.g. the one in the editor). The records are snapshotted, so later edits do not change the master.
+export function createCloneSession(sourceUid = "", records: readonly NDEFRecord[] = []): CloneSession {
+  return { sourceUid, master: records.map(snapshotRecord), copies: [], running: false };
+}
+
+export function cloneCount(session: CloneSession): number {
+  return session.copies.filter((copy) => copy.outcome === "written").length;
+}
+
+function captureSource(session: CloneSession, event: NfcReadingEvent): void {
+  if (!event.message.records.length) {
+    notifyWarning("The source tag holds no records. Tap the tag you want to copy.", { title: "Empty source tag" });
+    return;
+  }
+  session.sourceUid = event.serialNumber;
+  session.master = event.message.records.map(snapshotRecord);
+  notifyInfo(`Master message with ${session.master.length} record(s) taken from ${event.serialNumber.toUpperCase()}. Tap the tags to copy it onto.`, { title: "Source tag read" });
+}
+
+async function copyTo(
+  session: CloneSession,
+  uid: string,
+  status: Ref<NFCStatus>,
+  writeAbortController: Ref<AbortController | null>,
+  options: WriteRequestOptions
+): Promise<void> {
+  // Smart posters are rebuilt from the snapshot's nested message, whether or not the
+  // source records carried _smartPosterData.
+  const records = session.master.map(snapshotToRecordInit);
+  const outcome = await writeRecordInits(records, status, writeAbortController, options);
+  session.copies.push({ uid, time: Date.now(), outcome });
+  console.log(`Clone: ${outcome} on ${uid} (${cloneCount(session)} copies so far).`);
+}
+
+// Runs until stopClone() is called. Taps of the source tag, of tags already copied in this
+// session and taps during a write are ignored.
+export async function runClone(
+  sessionRef: Ref<CloneSession | null>,
+  status: Ref<NFCStatus>,
+  writeAbortController: Ref<AbortController | null>,
+  options: WriteRequestOptions = {}
+): Promise<void> {
+  const session = sessionRef.value;
+  if (!session || session.running) return;
+  if (status.value.writing || status.value.locking) {
+    console.log("Clone mode not started: another write or lock is in progress.");
+    return;
+  }
+
+  let reader: NfcReader;
+  try {
+    reader = getNfcBackend().createReader();
+  } catch (err) {
+    reportNfcError(err, "scan");
+    return;
+  }
+  const controller = new AbortController();
+  activeScan = controller;
+  session.running = true;
+
+  await new Promise<void>((resolve) => {
+    controller.signal.addEventListener("abort", () => {
+      reader.onreading = null;
+      reader.onreadingerror = null;
+      resolve();
+    }, { once: true });
+
+    reader.onreading = (event) => {
+      if (!session.sourceUid) {
+        captureSource(session, event);
+      } else if (status.value.writing) {
+        console.log(`Clone: write in progress, ignoring ${event.serialNumber}.`);
+      } else if (event.serialNumber === session.sourceUid) {
+        notifyWarning("This is the source tag. Tap a different tag to copy the master onto.", { title: "Source tag" });
+      } else if (session.copies.some((copy) => copy.uid === event.serialNumber && copy.outcome === "written")) {
+        notifyInfo(`${event.serialNumber.toUpperCase()} already has a copy.`, { title: "Already copied" });
+      } else {
+        void copyTo(session, event.serialNumber, status, writeAbortController, options);
+      }
+    };
+    reader.onreadingerror = () => {
+      notifyWarning("The tag could not be read. Hold it still and tap it again.", { title: "Read failed" });
+    };
+
+    reader.scan({ signal: controller.signal }).catch((err) => {
+      if ((err as DOMException).name !== "AbortError") reportNfcError(err, "scan");
+      controller.abort();
+    });
+  });
+
+  session.running = false;
+  if (activeScan === controller) activeScan = null;
+}
+
+// Ends the session's scan and cancels a write that has not reached a tag yet.
+export function stopClone(session: CloneSession | null, writeAbortController: Ref<AbortController | null>): void {
+  if (!session?.running) return;
+  activeScan?.abort();
+  cancelWrite(writeAbortController);
+}
@@ -0,0 +1,159 @@
+// src/services/libraryService.ts
+/*global NDEFRecord, indexedDB, IDBDatabase, IDBObjectStore, IDBRequest, IDBTransactionMode*/
+import type { LibraryEntry, LibraryEntryKind, TagNote } from '../@types/app';
+import { snapshotRecord } from '../utils/recordSnapshot';
+
+// Local tag library persisted in IndexedDB:
+// - "entries": saved scans and named drafts (LibraryEntry), keyed by an auto-incremented id
+// - "notes": per-UID notes (TagNote), keyed by UID
+
+export const LIBRARY_DB_NAME = "nfc-tag-library";
+const LIBRARY_DB_VERSION = 1;
+const ENTRIES_STORE = "entries";
+const NOTES_STORE = "notes";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openLibraryDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+    const request = indexedDB.open(LIBRARY_DB_NAME, LIBRARY_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+        const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: "id", autoIncrement: true });
+        entries.createIndex("uid", "uid", { unique: false });
+        entries.createIndex("kind", "kind", { unique: false });
+      }
+      if (!db.objectStoreNames.contains(NOTES_STORE)) {
+        db.createObjectStore(NOTES_STORE, { keyPath: "uid" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a retry after a failed open (e.g. private browsing).
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+// Closes the cached connection. Used by tests to start from a fresh database.
+export async function closeLibraryDb(): Promise<void> {
+  if (!dbPromise) return;
+  const db = await dbPromise.catch(() => null);
+  db?.close();
+  dbPromise = null;
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openLibraryDb();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  // Awaited together so that a transaction abort after a failed request is not left unhandled
+  const [result] = await Promise.all([requestToPromise(run(tx.objectStore(storeName))), done]);
+  return result;
+}
+
+async function addEntry(kind: LibraryEntryKind, name: string, uid: string, records: NDEFRecord[]): Promise<LibraryEntry> {
+  const now = Date.now();
+  const entry: LibraryEntry = {
+    kind,
+    name,
+    uid,
+    records: records.map(snapshotRecord),
+    createdAt: now,
+    updatedAt: now,
+  };
+  const id = await withStore(ENTRIES_STORE, "readwrite", (store) => store.add(entry));
+  return { ...entry, id: id as number };
+}
+
+// Saves a scanned tag. The default name is the UID plus the scan time.
+export function saveScan(uid: string, records: NDEFRecord[], scannedAt: Date = new Date()): Promise<LibraryEntry> {
+  const name = `${uid ? uid.toUpperCase() : "Unknown tag"} @ ${scannedAt.toLocaleString()}`;
+  return addEntry("scan", name, uid, records);
+}
+
+// Saves the current record list as a named draft.
+export function saveDraft(name: string, records: NDEFRecord[], uid = ""): Promise<LibraryEntry> {
+  if (!name.trim()) return Promise.reject(new Error("A draft needs a name."));
+  return addEntry("draft", name.trim(), uid, records);
+}
+
+// Lists all entries, newest first.
+export async function listEntries(): Promise<LibraryEntry[]> {
+  const entries = await withStore<LibraryEntry[]>(ENTRIES_STORE, "readonly", (store) => store.getAll());
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+// Filters entries by a case-insensitive query over name, UID and record types/text payloads.
+export function filterEntries(entries: LibraryEntry[], query: string, kind?: LibraryEntryKind): LibraryEntry[] {
+  const q = query.trim().toLowerCase();
+  const decoder = new TextDecoder("utf-8");
+  return entries.filter((entry) => {
+    if (kind && entry.kind !== kind) return false;
+    if (!q) return true;
+    if (entry.name.toLowerCase().includes(q) || entry.uid.toLowerCase().includes(q)) return true;
+    return entry.records.some((record) => {
+      if (record.recordType.toLowerCase().includes(q) || record.mediaType?.toLowerCase().includes(q)) return true;
+      if (!record.payload || record.payload.byteLength > 4096) return false;
+      return decoder.decode(record.payload).toLowerCase().includes(q);
+    });
+  });
+}
+
+export async function searchEntries(query: string, kind?: LibraryEntryKind): Promise<LibraryEntry[]> {
+  return filterEntries(await listEntries(), query, kind);
+}
+
+export async function renameEntry(id: number, name: string): Promise<LibraryEntry> {
+  if (!name.trim()) throw new Error("Name cannot be empty.");
+  const entry = await withStore<LibraryEntry | undefined>(ENTRIES_STORE, "readonly", (store) => store.get(id));
+  if (!entry) throw new Error(`Library entry ${id} not found.`);
+  const updated: LibraryEntry = { ...entry, name: name.trim(), updatedAt: Date.now() };
+  await withStore(ENTRIES_STORE, "readwrite", (store) => store.put(updated));
+  return updated;
+}
+
+export async function deleteEntry(id: number): Promise<void> {
+  await withStore(ENTRIES_STORE, "readwrite", (store) => store.delete(id));
+}
+
+export async function getNote(uid: string): Promise<TagNote | null> {
+  if (!uid) return null;
+  const note = await withStore<TagNote | undefined>(NOTES_STORE, "readonly", (store) => store.get(uid.toLowerCase()));
+  return note ?? null;
+}
+
+// Saves a note for a UID; an empty note removes it.
+export async function setNote(uid: string, note: string): Promise<TagNote | null> {
+  const key = uid.toLowerCase();
+  if (!note.trim()) {
+    await withStore(NOTES_STORE, "readwrite", (store) => store.delete(key));
+    return null;
+  }
+  const tagNote: TagNote = { uid: key, note, updatedAt: Date.now() };
+  await withStore(NOTES_STORE, "readwrite", (store) => store.put(tagNote));
+  return tagNote;
+}
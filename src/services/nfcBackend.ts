@@ -0,0 +1,31 @@
+// src/services/nfcBackend.ts
+/*global NDEFReader, DOMException*/ // WebNFC global
+import type { NfcBackend, NfcReader } from '../@types/app';
+
+// The services never construct NDEFReader themselves: they ask the selected backend for a reader.
+// This keeps the app usable without NFC hardware (see nfcSimulator.ts) and in tests.
+
+export const webNfcBackend: NfcBackend = {
+  id: "web-nfc",
+  name: "Web NFC",
+  isAvailable: () => typeof NDEFReader !== "undefined",
+  createReader(): NfcReader {
+    if (typeof NDEFReader === "undefined") {
+      throw new DOMException("NDEFReader is not available in this browser.", "NotSupportedError");
+    }
+    return new NDEFReader() as unknown as NfcReader;
+  },
+};
+
+let currentBackend: NfcBackend = webNfcBackend;
+
+export function getNfcBackend(): NfcBackend {
+  return currentBackend;
+}
+
+// Readers created before the switch keep talking to the old backend until they finish.
+export function setNfcBackend(backend: NfcBackend): void {
+  if (backend === currentBackend) return;
+  console.log(`NFC backend: ${backend.name}`);
+  currentBackend = backend;
+}
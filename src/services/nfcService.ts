@@ -1,24 +1,40 @@
 // src/services/nfcService.ts
-/*global NDEFReader, NDEFRecord, NDEFMessageInit*/ // NDEFRecord is for type hint, NDEFMessageInit for smart poster
+/*global NDEFRecord, NDEFRecordInit, NDEFWriteOptions*/ // NDEFRecord is for type hint, NDEFRecordInit for writing
 import type { Ref } from 'vue';
-import type { NFCStatus, ScannedTag } from '../@types/app'; // NDEFRecordInitCustom is not directly used here
-import { estimateNdefMessageSize } from '../utils/nfcUtils';
+import type { NfcReader, NFCStatus, ScannedTag, WriteOutcome, WriteRequestOptions, WriteVerifyReport } from '../@types/app'; // NDEFRecordInitCustom is not directly used here
+import { getNfcBackend } from './nfcBackend';
+import { recordToInit } from '../utils/nfcUtils';
+import { encodeNdefMessage } from '../utils/ndefCodec';
+import { checkCapacity } from '../utils/tagProfiles';
+import { notifyError, notifySuccess, notifyWarning, reportNfcError } from './notificationService';
+import { addScanReading, addScanError } from './scanHistoryService';
+import { watchTags } from './tagWatch';
+import type { TagWatch } from './tagWatch';
+import { compareWrittenRecords } from '../utils/writeVerify';
+import { lintRecordInits, lintErrors } from '../utils/ndefLint';
 
-// Assume alert is globally available or handled by a global notification system.
-declare function alert(message?: any): void;
+// Blocking confirmation is only used where the user must decide before the write continues.
+declare function confirm(message?: string): boolean;
 
 export async function readNFC(
   status: Ref<NFCStatus>,
   scannedTag: Ref<ScannedTag>,
   continuousScan: Ref<boolean>,
-  scanAbortController: Ref<AbortController | null>
+  scanAbortController: Ref<AbortController | null>,
+  onTagRead?: (tag: ScannedTag) => void // Called after each accepted reading, e.g. to save it to the library
 ): Promise<void> {
   if (status.value.reading) {
     console.log("Scan already in progress.");
     return;
   }
 
-  const ndef = new NDEFReader(); // global NDEFReader
+  let ndef: NfcReader;
+  try {
+    ndef = getNfcBackend().createReader();
+  } catch (error) {
+    reportNfcError(error, "scan");
+    return;
+  }
   scanAbortController.value = new AbortController();
 
   scanAbortController.value.signal.onabort = () => {
@@ -38,10 +54,16 @@ export async function readNFC(
         console.log("Write operation in progress, ignoring read event.");
         return;
       }
+      if (status.value.locking) {
+        console.log("Lock operation in progress, ignoring read event.");
+        return;
+      }
       console.log("NFC tag read:", event);
       scannedTag.value.uuid = event.serialNumber;
       scannedTag.value.records = []; // Clear previous records
       scannedTag.value.records.push(...event.message.records); // event.message is NDEFMessage
+      addScanReading(event.serialNumber, scannedTag.value.records);
+      onTagRead?.(scannedTag.value);
 
       if (!continuousScan.value) {
         console.log("Single scan complete, stopping reader.");
@@ -55,11 +77,12 @@ export async function readNFC(
     };
 
     ndef.onreadingerror = (event: any) => { // `event` is an Event, but often has a message
-      console.warn("NDEF reading error observed:", event);
       if (scanAbortController.value?.signal.aborted) {
         console.log("Reading error due to scan abortion.");
       } else {
-        console.error("NDEF reading error:", event);
+        // Web NFC gives no detail here: the tag was unreadable, not NDEF formatted or moved away.
+        notifyWarning("The tag could not be read. It may be blank, not NDEF formatted, or was moved away too early. Hold it still and scan again.", { title: "Read failed" });
+        addScanError("The tag could not be read.");
       }
       if (status.value.reading) { // Check if it was reading to avoid setting false if already stopped.
         status.value.reading = false;
@@ -73,14 +96,7 @@ export async function readNFC(
     console.log("NDEFReader scan() method resolved. Listening for tags...");
 
   } catch (error) {
-    console.error("NFC Read Operation Error:", error);
-    if ((error as DOMException).name === 'AbortError') {
-      console.log("Scan aborted by user or timeout.");
-    } else if ((error as DOMException).name === 'NotSupportedError') {
-        alert("WebNFC is not supported on this device/browser.");
-    } else {
-      alert(`Error initiating scan: ${(error as Error).message}`);
-    }
+    reportNfcError(error, "scan");
     status.value.reading = false; 
     // Ensure listeners are cleaned up on error too
     ndef.onreading = () => {};
@@ -90,78 +106,235 @@ export async function readNFC(
 
 export async function writeNFC(
   records: NDEFRecord[], // Array of actual NDEFRecord instances
-  status: Ref<NFCStatus>
-): Promise<void> {
+  status: Ref<NFCStatus>,
+  writeAbortController?: Ref<AbortController | null>,
+  options: WriteRequestOptions = {},
+  verifyReport?: Ref<WriteVerifyReport | null> // When given, the tag is read back after a successful write
+): Promise<WriteOutcome> {
   if (!records.length) {
     console.log("No records to write.");
-    return;
+    return "skipped";
   }
-  const ndef = new NDEFReader();
-
   // Convert NDEFRecord instances to NDEFRecordInit for writing
-  const recsToWrite: NDEFRecordInit[] = records.map((rec: NDEFRecord) => {
-    const obj: NDEFRecordInit = { recordType: rec.recordType };
-
-    if (rec.id) obj.id = rec.id;
-    if (rec.mediaType) obj.mediaType = rec.mediaType;
-    if (rec.encoding) obj.encoding = rec.encoding;
-    if (rec.lang) obj.lang = rec.lang;
-
-    if (rec.recordType === "smart-poster") {
-      // For smart posters, data for NDEFRecordInit should be NDEFMessageInit
-      // This custom _smartPosterData property was attached in handleAddRecord
-      obj.data = (rec as any)._smartPosterData as NDEFMessageInit; 
-      // Encoding/lang are not top-level for smart-poster NDEFRecordInit itself
-      delete obj.encoding;
-      delete obj.lang;
-    } else if (rec.recordType === "empty") {
-      delete obj.mediaType;
-      delete obj.encoding;
-      delete obj.lang;
-      obj.data = undefined; // Explicitly undefined for empty
-    } else if (rec.data) { // rec.data is DataView
-      // For 'text', 'url', 'absolute-url', NDEFRecordInit expects string data.
-      // For 'mime', 'unknown', 'external', it can be string or ArrayBuffer.
-      // The NDEFRecord constructor handles string to ArrayBuffer conversion.
-      // Here, we need to decide if we pass string or ArrayBuffer based on original intent.
-      if (rec.encoding && (rec.recordType === 'text' || rec.mediaType?.startsWith('text/'))) {
-        const decoder = new TextDecoder(rec.encoding || "utf-8");
-        obj.data = decoder.decode(rec.data); // Convert DataView back to string
-      } else if (rec.recordType === 'url' || rec.recordType === 'absolute-url') {
-        const decoder = new TextDecoder("utf-8"); // URLs are typically UTF-8
-        obj.data = decoder.decode(rec.data);
-      } else {
-        // For 'mime', 'unknown', 'external' that are not text-based, pass ArrayBuffer
-        obj.data = rec.data.buffer.slice(rec.data.byteOffset, rec.data.byteOffset + rec.data.byteLength);
+  return writeRecordInits(records.map(recordToInit), status, writeAbortController, options, verifyReport);
+}
+
+// Writes a message given as record inits, e.g. a filled batch template. Same checks and
+// outcomes as writeNFC().
+export async function writeRecordInits(
+  recsToWrite: NDEFRecordInit[],
+  status: Ref<NFCStatus>,
+  writeAbortController?: Ref<AbortController | null>,
+  options: WriteRequestOptions = {},
+  verifyReport?: Ref<WriteVerifyReport | null> // When given, the tag is read back after a successful write
+): Promise<WriteOutcome> {
+  const lintProblems = lintErrors(lintRecordInits(recsToWrite));
+  if (lintProblems.length) {
+    notifyError(`${lintProblems.join(" ")} Fix them before writing.`, { title: "Message has errors" });
+    return "invalid";
+  }
+
+  let ndef: NfcReader;
+  try {
+    ndef = getNfcBackend().createReader();
+  } catch (err) {
+    reportNfcError(err, "write");
+    return "failed";
+  }
+
+  let messageSize: number;
+  try {
+    messageSize = encodeNdefMessage(recsToWrite).byteLength;
+  } catch (err) {
+    notifyError(`Error encoding records: ${(err as Error).message}`, { title: "Write not started" });
+    return "skipped";
+  }
+  console.log(`NDEF message size: ${messageSize} bytes`);
+
+  if (options.tagProfile) {
+    const capacity = checkCapacity(options.tagProfile, messageSize);
+    if (!capacity.fits) {
+      const problem = `The message needs ${capacity.usedBytes} bytes but ${options.tagProfile.name} only has ${capacity.availableBytes} bytes for NDEF data.`;
+      if ((options.overCapacity ?? "block") === "block") {
+        notifyError(`${problem} Remove records or choose a larger tag profile.`, { title: "Message too large" });
+        return "too-large";
+      }
+      if (!confirm(`${problem} The write will fail unless the tag is larger than the selected profile. Write anyway?`)) {
+        console.log(`Write not confirmed: ${problem}`);
+        return "too-large";
       }
-    } else {
-      obj.data = undefined; // No data payload
     }
-    return obj;
-  });
-
-  const estimatedSize = estimateNdefMessageSize(recsToWrite);
-  const SMALL_TAG_CAPACITY = 140; // Example NTAG213 capacity
-  const MEDIUM_TAG_CAPACITY = 500; // Example NTAG215/NTAG216 might be around here or more
+  }
 
-  console.log(`Estimated NDEF message size: ${estimatedSize} bytes`);
+  const controller = new AbortController();
+  if (writeAbortController) writeAbortController.value = controller;
 
-  if (estimatedSize > MEDIUM_TAG_CAPACITY) {
-    alert(`Warning: The data size (~${estimatedSize} bytes) is large and may not fit on smaller NFC tags. It might only work on tags with >500 bytes capacity.`);
-  } else if (estimatedSize > SMALL_TAG_CAPACITY) {
-    alert(`Warning: The data size (~${estimatedSize} bytes) may not fit on very small NFC tags (like NTAG213, ~144 bytes). Ensure your tag has enough capacity.`);
+  // A timeout aborts through the same signal as the Cancel button; the flag tells them apart.
+  let timedOut = false;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  if (options.timeoutMs && options.timeoutMs > 0) {
+    timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, options.timeoutMs);
   }
 
-  console.log("Records to write (NDEFRecordInit format):", recsToWrite);
+  const writeOptions: NDEFWriteOptions = {
+    overwrite: options.overwrite ?? true,
+    signal: controller.signal,
+  };
+
+  // Started before the write so the tap that writes the tag also reveals its serial number.
+  const tagWatch = verifyReport ? watchTags("Verify after write") : null;
+  if (verifyReport) verifyReport.value = null;
+
+  console.log("Records to write (NDEFRecordInit format):", recsToWrite, writeOptions);
   status.value.writing = true;
+  let outcome: WriteOutcome;
   try {
-    await ndef.write({ records: recsToWrite }); // NDEFMessageInit takes 'records'
+    await ndef.write({ records: recsToWrite }, writeOptions); // NDEFMessageInit takes 'records'
     console.log("NFC tag written successfully.");
+    outcome = "written";
   } catch (err) {
-    console.error("Error writing NDEF message:", err);
-    alert(`Error writing tag: ${(err as Error).message}`);
+    const name = (err as DOMException).name;
+    if (name === 'AbortError') {
+      outcome = timedOut ? "timeout" : "cancelled";
+      console.log(timedOut ? `Write timed out after ${options.timeoutMs} ms.` : "Write cancelled by user.");
+    } else if (name === 'NotAllowedError' && writeOptions.overwrite === false && !(await nfcPermissionDenied())) {
+      // With overwrite: false the browser rejects tags that already contain an NDEF message.
+      outcome = "refused";
+      console.log("Write refused: tag already holds data and overwrite is disabled.");
+    } else {
+      outcome = "failed";
+      reportNfcError(err, "write");
+    }
   }
+  if (timeoutId !== undefined) clearTimeout(timeoutId);
+  if (verifyReport && tagWatch) {
+    if (outcome === "written") {
+      verifyReport.value = await verifyWrittenTag(recsToWrite, tagWatch, status, writeAbortController, options.timeoutMs);
+    }
+    tagWatch.stop();
+  }
+  if (writeAbortController) writeAbortController.value = null;
   status.value.writing = false;
+  return outcome;
+}
+
+// Web NFC rejects a write with NotAllowedError both when the NFC permission is denied and when
+// overwrite is false and the tag already holds a message; only the permission state tells them apart.
+async function nfcPermissionDenied(): Promise<boolean> {
+  if (getNfcBackend().id !== "web-nfc" || typeof navigator === "undefined" || !navigator.permissions) return false;
+  try {
+    const permission = await navigator.permissions.query({ name: "nfc" as PermissionName });
+    return permission.state === "denied";
+  } catch (err) {
+    console.warn("Could not query the NFC permission:", err);
+    return false;
+  }
+}
+
+// Waits for the written tag to be tapped again and compares its records with the ones sent.
+// Readings of other tags are ignored. Uses the write timeout and can be cancelled like the write.
+async function verifyWrittenTag(
+  sent: NDEFRecordInit[],
+  tagWatch: TagWatch,
+  status: Ref<NFCStatus>,
+  writeAbortController: Ref<AbortController | null> | undefined,
+  timeoutMs = 0
+): Promise<WriteVerifyReport> {
+  // The reading seen during the write may show the content from before it, so only its serial number is used.
+  const uid = tagWatch.lastReading()?.serialNumber ?? "";
+  const controller = new AbortController();
+  if (writeAbortController) writeAbortController.value = controller;
+  let timedOut = false;
+  const timeoutId = timeoutMs > 0 ? setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs) : undefined;
+
+  status.value.verifying = true;
+  console.log(`Verifying the write: waiting for tag ${uid || "(serial number unknown)"} to be tapped again.`);
+  let report: WriteVerifyReport;
+  try {
+    for (;;) {
+      const reading = await tagWatch.nextReading(0, controller.signal);
+      if (!reading) {
+        report = { status: timedOut ? "timeout" : "cancelled", uid, time: Date.now(), records: [] };
+        break;
+      }
+      if (uid && reading.serialNumber !== uid) {
+        notifyWarning(`Tag ${reading.serialNumber.toUpperCase()} is not the tag that was written. Tap tag ${uid.toUpperCase()} to verify it.`, { title: "Different tag" });
+        continue;
+      }
+      const records = compareWrittenRecords(sent, reading.message.records);
+      // Without the written tag's serial number the first tag tapped is read, whichever it is
+      const verdict = !uid ? "unverified" : records.every((r) => r.passed) ? "passed" : "failed";
+      report = { status: verdict, uid: reading.serialNumber, time: Date.now(), records };
+      break;
+    }
+  } finally {
+    if (timeoutId !== undefined) clearTimeout(timeoutId);
+    status.value.verifying = false;
+  }
+
+  if (report.status === "passed") {
+    notifySuccess(`All ${report.records.length} record(s) read back match what was written.`, { title: "Write verified" });
+  } else if (report.status === "failed") {
+    const failed = report.records.filter((r) => !r.passed).length;
+    notifyError(`${failed} of ${report.records.length} record(s) on the tag differ from what was written. See the verification report.`, { title: "Verification failed" });
+  } else if (report.status === "unverified") {
+    notifyWarning(`The serial number of the written tag is unknown, so tag ${report.uid.toUpperCase()} could not be matched to it. See the verification report.`, { title: "Write not verified" });
+  } else {
+    console.log(`Verification ${report.status}: the tag was written but not read back.`);
+  }
+  return report;
+}
+
+export function cancelWrite(writeAbortController: Ref<AbortController | null>): void {
+  if (writeAbortController.value && !writeAbortController.value.signal.aborted) {
+    writeAbortController.value.abort();
+    console.log("Write manually cancelled.");
+  }
+}
+
+// Permanently locks the next tapped tag. This cannot be undone, so callers must confirm with the user first.
+export async function makeReadOnly(
+  status: Ref<NFCStatus>,
+  lockAbortController: Ref<AbortController | null>
+): Promise<boolean> {
+  if (status.value.locking) {
+    console.log("Lock already in progress.");
+    return false;
+  }
+  let ndef: NfcReader;
+  try {
+    ndef = getNfcBackend().createReader();
+  } catch (err) {
+    reportNfcError(err, "lock");
+    return false;
+  }
+  lockAbortController.value = new AbortController();
+
+  status.value.locking = true;
+  try {
+    await ndef.makeReadOnly({ signal: lockAbortController.value.signal });
+    notifySuccess("Tag locked. It is now permanently read-only.");
+    return true;
+  } catch (err) {
+    reportNfcError(err, "lock");
+    return false;
+  } finally {
+    status.value.locking = false;
+    lockAbortController.value = null;
+  }
+}
+
+export function cancelLock(lockAbortController: Ref<AbortController | null>): void {
+  if (lockAbortController.value && !lockAbortController.value.signal.aborted) {
+    lockAbortController.value.abort();
+    console.log("Lock manually cancelled.");
+  }
 }
 
 export function cancelScan(scanAbortController: Ref<AbortController | null>): void {
@@ -0,0 +1,380 @@
+// src/services/nfcSimulator.ts
+/*global NDEFRecord, NDEFRecordInit, NDEFMessageInit, NDEFMessageSource, NDEFWriteOptions, NDEFScanOptions, NDEFMakeReadOnlyOptions, DOMException, AbortSignal*/
+import { ref, readonly } from 'vue';
+import type { NfcBackend, NfcReader, NfcReadingEvent, SimulatorEvent, SimulatorEventKind, VirtualTag } from '../@types/app';
+import { encodeNdefMessage, decodeNdefMessage, encodeTextPayload } from '../utils/ndefCodec';
+import { checkCapacity, findTagProfile, DEFAULT_TAG_PROFILE_ID } from '../utils/tagProfiles';
+import type { CapacityCheck } from '../utils/tagProfiles';
+
+// In-memory NFC backend for development and demos without NFC hardware.
+// Virtual tags keep their content as raw NDEF bytes. Readers behave like NDEFReader: scan()
+// listens until its signal aborts, write() and makeReadOnly() wait for the next tap. The dev
+// panel (NfcSimulatorPanel.vue) taps tags with tapVirtualTag() and watches simulatorEvents.
+
+const textEncoder = new TextEncoder();
+const MAX_EVENTS = 100;
+
+function isMessageInit(data: unknown): data is NDEFMessageInit {
+  return !!data && typeof data === "object" && "records" in (data as object);
+}
+
+function toBytes(data: string | BufferSource | undefined): Uint8Array {
+  if (data === undefined || data === null) return new Uint8Array(0);
+  if (typeof data === "string") return textEncoder.encode(data);
+  if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  return new Uint8Array(data);
+}
+
+function abortError(): DOMException {
+  return new DOMException("The NFC operation was cancelled.", "AbortError");
+}
+
+// Stand-in for NDEFRecord with the Web NFC rules for `data`: text and URLs as their bytes
+// (text without the status byte and language code), nested messages such as smart posters
+// as the encoded message, which toRecords() returns as records.
+export class SimulatedNDEFRecord {
+  readonly recordType: string;
+  readonly mediaType?: string;
+  readonly id?: string;
+  readonly data?: DataView;
+  readonly encoding?: string;
+  readonly lang?: string;
+  private readonly nested: NDEFMessageInit | null = null;
+
+  constructor(init: NDEFRecordInit) {
+    if (!init || typeof init.recordType !== "string" || !init.recordType) {
+      throw new TypeError("NDEFRecordInit needs a recordType.");
+    }
+    this.recordType = init.recordType;
+    if (init.id) this.id = init.id;
+
+    let bytes: Uint8Array | null = null;
+    if (init.recordType === "text") {
+      const payload = encodeTextPayload(init);
+      bytes = payload.subarray(1 + (payload[0] & 0x3f));
+      this.encoding = (init.encoding || "utf-8").toLowerCase();
+      this.lang = init.lang || "en";
+    } else if (init.recordType === "url" || init.recordType === "absolute-url") {
+      if (typeof init.data !== "string") throw new TypeError(`${init.recordType} records need a string.`);
+      bytes = textEncoder.encode(init.data);
+    } else if (init.recordType === "smart-poster" && !isMessageInit(init.data)) {
+      throw new TypeError("smart-poster records need an NDEFMessageInit.");
+    } else if (isMessageInit(init.data)) {
+      this.nested = init.data;
+      bytes = encodeNdefMessage(init.data.records);
+    } else if (init.recordType !== "empty") {
+      bytes = toBytes(init.data as string | BufferSource | undefined);
+    }
+    if (init.recordType === "mime") this.mediaType = init.mediaType || "application/octet-stream";
+    if (bytes) this.data = new DataView(bytes.slice().buffer);
+  }
+
+  // As in Web NFC: smart posters, external and local types parse their payload as a message
+  // (NotSupportedError if it is not one); other records have no nested records.
+  toRecords(): SimulatedNDEFRecord[] | null {
+    if (this.recordType !== "smart-poster" && !this.recordType.includes(":")) return null;
+    let records = this.nested?.records;
+    if (!records) {
+      try {
+        records = decodeNdefMessage(this.data ?? new Uint8Array(0));
+      } catch (err) {
+        throw new DOMException(`The payload is not an NDEF message: ${(err as Error).message}`, "NotSupportedError");
+      }
+    }
+    return records.map((record) => new SimulatedNDEFRecord(record));
+  }
+}
+
+// Lets records be created in browsers without Web NFC. Never replaces a real NDEFRecord.
+export function installNdefRecordPolyfill(): boolean {
+  const scope = globalThis as unknown as { NDEFRecord?: unknown };
+  if (scope.NDEFRecord !== undefined) return false;
+  scope.NDEFRecord = SimulatedNDEFRecord;
+  return true;
+}
+
+const tags = ref<VirtualTag[]>([]);
+const events = ref<SimulatorEvent[]>([]);
+let nextEventId = 1;
+
+export const virtualTags = readonly(tags);
+export const simulatorEvents = readonly(events); // Newest first
+
+function logEvent(kind: SimulatorEventKind, message: string, uid?: string): void {
+  events.value.unshift({ id: nextEventId++, time: Date.now(), kind, uid, message });
+  if (events.value.length > MAX_EVENTS) events.value.length = MAX_EVENTS;
+}
+
+export function clearSimulatorEvents(): void {
+  events.value = [];
+}
+
+function findTag(uid: string): VirtualTag {
+  const tag = tags.value.find((candidate) => candidate.uid === uid);
+  if (!tag) throw new Error(`No virtual tag with UID ${uid}.`);
+  return tag;
+}
+
+function randomUid(): string {
+  const bytes = [0x04]; // NXP manufacturer code, like most NTAG/Ultralight tags
+  for (let i = 0; i < 6; i++) bytes.push(Math.floor(Math.random() * 256));
+  return bytes.map((byte) => byte.toString(16).padStart(2, "0")).join(":");
+}
+
+export interface VirtualTagOptions {
+  uid?: string;
+  name?: string;
+  profileId?: string;
+  readOnly?: boolean;
+  records?: NDEFRecordInit[];
+}
+
+export function addVirtualTag(options: VirtualTagOptions = {}): VirtualTag {
+  const profileId = options.profileId ?? DEFAULT_TAG_PROFILE_ID;
+  const profile = findTagProfile(profileId);
+  if (!profile) throw new Error(`Unknown tag profile "${profileId}".`);
+  const uid = (options.uid ?? randomUid()).toLowerCase();
+  if (tags.value.some((tag) => tag.uid === uid)) throw new Error(`A virtual tag with UID ${uid} already exists.`);
+
+  const bytes = options.records?.length ? encodeNdefMessage(options.records) : new Uint8Array(0);
+  const tag: VirtualTag = {
+    uid,
+    name: options.name?.trim() || `${profile.name} ${uid.toUpperCase()}`,
+    profileId,
+    readOnly: options.readOnly ?? false,
+    message: bytes.slice().buffer,
+  };
+  tags.value.push(tag);
+  return findTag(uid);
+}
+
+export function removeVirtualTag(uid: string): void {
+  tags.value = tags.value.filter((tag) => tag.uid !== uid);
+}
+
+// Flips the read-only flag directly, e.g. to test writes against locked tags.
+// Real tags cannot be unlocked; this is a simulator-only shortcut.
+export function setVirtualTagReadOnly(uid: string, readOnly: boolean): void {
+  findTag(uid).readOnly = readOnly;
+}
+
+// Leaves the tag blank (formatted, no NDEF message).
+export function eraseVirtualTag(uid: string): void {
+  const tag = findTag(uid);
+  if (tag.readOnly) throw new Error(`${tag.name} is read-only.`);
+  tag.message = new ArrayBuffer(0);
+}
+
+// Records stored on a virtual tag, in the shape the NDEF decoder reports them.
+export function readVirtualTag(uid: string): NDEFRecordInit[] {
+  const tag = findTag(uid);
+  return tag.message.byteLength ? decodeNdefMessage(tag.message) : [];
+}
+
+export function virtualTagUsage(uid: string): CapacityCheck {
+  const tag = findTag(uid);
+  const profile = findTagProfile(tag.profileId);
+  if (!profile) throw new Error(`Unknown tag profile "${tag.profileId}".`);
+  return checkCapacity(profile, tag.message.byteLength);
+}
+
+function toMessageInit(source: NDEFMessageSource): NDEFMessageInit {
+  if (typeof source === "string") return { records: [{ recordType: "text", data: source }] };
+  if (source instanceof ArrayBuffer || ArrayBuffer.isView(source)) {
+    return { records: [{ recordType: "mime", mediaType: "application/octet-stream", data: source }] };
+  }
+  return source as NDEFMessageInit;
+}
+
+function writeToTag(tag: VirtualTag, bytes: Uint8Array, overwrite: boolean): void {
+  if (!overwrite && tag.message.byteLength) {
+    throw new DOMException("NDEF message already exists on the tag and overwrite is false.", "NotAllowedError");
+  }
+  if (tag.readOnly) throw new DOMException("The tag is read-only.", "NotSupportedError");
+  const profile = findTagProfile(tag.profileId);
+  if (profile) {
+    const capacity = checkCapacity(profile, bytes.byteLength);
+    if (!capacity.fits) {
+      throw new DOMException(
+        `The message needs ${capacity.usedBytes} bytes but the tag only has ${capacity.availableBytes}.`,
+        "NotSupportedError"
+      );
+    }
+  }
+  tag.message = bytes.slice().buffer;
+}
+
+interface PendingOperation {
+  kind: "write" | "lock";
+  bytes?: Uint8Array;
+  overwrite?: boolean;
+  resolve: () => void;
+  reject: (reason: unknown) => void;
+}
+
+// Readers with an active scan or a pending write/lock; a tap reaches only these.
+const activeReaders = new Set<SimulatedReader>();
+
+class SimulatedReader implements NfcReader {
+  onreading: ((event: NfcReadingEvent) => void) | null = null;
+  onreadingerror: ((event: Event) => void) | null = null;
+  private scanning = false;
+  private pending: PendingOperation[] = [];
+
+  scan(options?: NDEFScanOptions): Promise<void> {
+    const signal = options?.signal;
+    if (signal?.aborted) return Promise.reject(abortError());
+    if (this.scanning) return Promise.reject(new DOMException("A scan is already in progress.", "InvalidStateError"));
+    this.scanning = true;
+    activeReaders.add(this);
+    signal?.addEventListener("abort", () => {
+      this.scanning = false;
+      this.release();
+    }, { once: true });
+    return Promise.resolve();
+  }
+
+  write(message: NDEFMessageSource, options: NDEFWriteOptions = {}): Promise<void> {
+    if (options.signal?.aborted) return Promise.reject(abortError());
+    let bytes: Uint8Array;
+    try {
+      bytes = encodeNdefMessage(toMessageInit(message).records);
+    } catch (err) {
+      return Promise.reject(new TypeError((err as Error).message));
+    }
+    return this.enqueue({ kind: "write", bytes, overwrite: options.overwrite ?? true }, options.signal);
+  }
+
+  makeReadOnly(options: NDEFMakeReadOnlyOptions = {}): Promise<void> {
+    if (options.signal?.aborted) return Promise.reject(abortError());
+    return this.enqueue({ kind: "lock" }, options.signal);
+  }
+
+  private enqueue(operation: Omit<PendingOperation, "resolve" | "reject">, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const entry: PendingOperation = { ...operation, resolve, reject };
+      this.pending.push(entry);
+      activeReaders.add(this);
+      signal?.addEventListener("abort", () => {
+        const index = this.pending.indexOf(entry);
+        if (index === -1) return; // Already completed by a tap
+        this.pending.splice(index, 1);
+        this.release();
+        reject(abortError());
+      }, { once: true });
+    });
+  }
+
+  private release(): void {
+    if (!this.scanning && !this.pending.length) activeReaders.delete(this);
+  }
+
+  // Runs pending writes and locks against the tapped tag. Returns false if there were none.
+  completePending(tag: VirtualTag): boolean {
+    const operations = this.pending.splice(0);
+    this.release();
+    for (const operation of operations) {
+      try {
+        if (operation.kind === "write") {
+          writeToTag(tag, operation.bytes as Uint8Array, operation.overwrite ?? true);
+          logEvent("write", `Wrote ${operation.bytes?.byteLength} bytes.`, tag.uid);
+        } else {
+          tag.readOnly = true;
+          logEvent("lock", "Tag made read-only.", tag.uid);
+        }
+        operation.resolve();
+      } catch (err) {
+        logEvent("error", `${operation.kind === "write" ? "Write" : "Lock"} failed: ${(err as Error).message}`, tag.uid);
+        operation.reject(err);
+      }
+    }
+    return operations.length > 0;
+  }
+
+  deliverReading(tag: VirtualTag): boolean {
+    if (!this.scanning || !this.onreading) return false;
+    const records = tag.message.byteLength ? decodeNdefMessage(tag.message) : [];
+    this.onreading({
+      serialNumber: tag.uid,
+      message: { records: records.map((init) => new SimulatedNDEFRecord(init) as unknown as NDEFRecord) },
+    });
+    logEvent("read", `Delivered ${records.length} record${records.length === 1 ? "" : "s"}.`, tag.uid);
+    return true;
+  }
+
+  deliverReadingError(): boolean {
+    if (!this.scanning || !this.onreadingerror) return false;
+    this.onreadingerror(new Event("readingerror"));
+    return true;
+  }
+}
+
+// Brings a virtual tag into the field. Pending writes and locks run first, as they do in
+// Chrome; scanning readers then receive the tag's content, including anything just written.
+// The tag stays in the field while readings are handled, so a write or lock requested from a
+// reading handler goes to this tag, like a write() issued while a tag is in proximity.
+export function tapVirtualTag(uid: string): void {
+  const tag = findTag(uid);
+  logEvent("tap", `Tapped ${tag.name}.`, uid);
+  const readers = [...activeReaders];
+  let handled = false;
+  for (const reader of readers) {
+    if (reader.completePending(tag)) handled = true;
+  }
+  for (const reader of readers) {
+    try {
+      if (reader.deliverReading(tag)) handled = true;
+    } catch (err) {
+      logEvent("error", `Reading failed: ${(err as Error).message}`, uid);
+      reader.deliverReadingError();
+    }
+  }
+  for (const reader of [...activeReaders]) reader.completePending(tag);
+  if (!handled) logEvent("tap", "No scan, write or lock is waiting; the tap was ignored.", uid);
+}
+
+// Simulates an unreadable tag (moved away too early, not NDEF formatted...).
+export function fireReadingError(): void {
+  let delivered = false;
+  for (const reader of activeReaders) {
+    if (reader.deliverReadingError()) delivered = true;
+  }
+  logEvent("error", delivered ? "Fired a reading error." : "Nobody is scanning; no reading error fired.");
+}
+
+function addDefaultTags(): void {
+  addVirtualTag({
+    uid: "04:a1:b2:c3:d4:e5:f6",
+    name: "Demo poster (NTAG213)",
+    profileId: "ntag213",
+    records: [
+      { recordType: "url", data: "https://example.com/" },
+      { recordType: "text", data: "Hello from the NFC simulator", lang: "en" },
+    ],
+  });
+  addVirtualTag({ uid: "04:11:22:33:44:55:66", name: "Blank NTAG215", profileId: "ntag215" });
+  addVirtualTag({
+    uid: "04:de:ad:be:ef:00:01",
+    name: "Locked sticker (NTAG210)",
+    profileId: "ntag210",
+    readOnly: true,
+    records: [{ recordType: "text", data: "Read-only", lang: "en" }],
+  });
+}
+
+// Drops all readers and restores the default tags. Used on startup and by tests.
+export function resetSimulator(): void {
+  activeReaders.clear();
+  tags.value = [];
+  events.value = [];
+  addDefaultTags();
+}
+
+resetSimulator();
+
+export const simulatorBackend: NfcBackend = {
+  id: "simulator",
+  name: "NFC simulator",
+  isAvailable: () => true,
+  createReader: () => new SimulatedReader(),
+};
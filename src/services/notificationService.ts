@@ -0,0 +1,101 @@
+// src/services/notificationService.ts
+import { ref, readonly } from 'vue';
+import type { AppNotification, NotificationSeverity, NfcOperation } from '../@types/app';
+import { toNfcError, NfcError } from '../utils/nfcErrors';
+
+// Application-wide notifications. Components render `notifications`; everything else reports
+// through notify() and its helpers instead of alert(), so messages never block the UI.
+
+export interface NotifyOptions {
+  title?: string;
+  persistent?: boolean; // Defaults to true for errors, false otherwise
+  durationMs?: number; // Toast lifetime, overrides the per-severity default
+}
+
+export const TOAST_DURATIONS: Record<NotificationSeverity, number> = {
+  success: 4000,
+  info: 4000,
+  warning: 8000,
+  error: 10000, // Only used for errors that were explicitly made non-persistent
+};
+
+const MAX_NOTIFICATIONS = 20;
+
+const items = ref<AppNotification[]>([]);
+const timers = new Map<number, ReturnType<typeof setTimeout>>();
+let nextId = 1;
+
+export const notifications = readonly(items);
+
+const LOGGERS: Record<NotificationSeverity, (...args: unknown[]) => void> = {
+  success: (...args) => console.log(...args),
+  info: (...args) => console.log(...args),
+  warning: (...args) => console.warn(...args),
+  error: (...args) => console.error(...args),
+};
+
+export function notify(severity: NotificationSeverity, message: string, options: NotifyOptions = {}): number {
+  const persistent = options.persistent ?? severity === "error";
+  const notification: AppNotification = {
+    id: nextId++,
+    severity,
+    message,
+    persistent,
+    createdAt: Date.now(),
+  };
+  if (options.title) notification.title = options.title;
+
+  LOGGERS[severity](`[${severity}]${options.title ? ` ${options.title}:` : ""} ${message}`);
+  items.value.push(notification);
+  // Drop the oldest entries so a flood of errors (e.g. continuous scanning) can't grow without bound
+  while (items.value.length > MAX_NOTIFICATIONS) dismissNotification(items.value[0].id);
+
+  if (!persistent) {
+    timers.set(notification.id, setTimeout(() => dismissNotification(notification.id), options.durationMs ?? TOAST_DURATIONS[severity]));
+  }
+  return notification.id;
+}
+
+export function notifySuccess(message: string, options?: NotifyOptions): number {
+  return notify("success", message, options);
+}
+
+export function notifyInfo(message: string, options?: NotifyOptions): number {
+  return notify("info", message, options);
+}
+
+export function notifyWarning(message: string, options?: NotifyOptions): number {
+  return notify("warning", message, options);
+}
+
+export function notifyError(message: string, options?: NotifyOptions): number {
+  return notify("error", message, options);
+}
+
+// Reports a Web NFC failure with its actionable message. Cancellations are expected and only
+// logged. Returns the categorised error so callers can branch on `category`.
+export function reportNfcError(err: unknown, operation: NfcOperation): NfcError {
+  const nfcError = toNfcError(err, operation);
+  if (nfcError.category === "aborted") {
+    console.log(nfcError.message);
+  } else {
+    console.error(`${operation} error (${nfcError.originalName}):`, err);
+    notifyError(nfcError.message, { title: nfcError.title });
+  }
+  return nfcError;
+}
+
+export function dismissNotification(id: number): void {
+  const timer = timers.get(id);
+  if (timer !== undefined) {
+    clearTimeout(timer);
+    timers.delete(id);
+  }
+  items.value = items.value.filter((notification) => notification.id !== id);
+}
+
+export function clearNotifications(): void {
+  timers.forEach((timer) => clearTimeout(timer));
+  timers.clear();
+  items.value = [];
+}
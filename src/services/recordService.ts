@@ -1,18 +1,13 @@
 // src/services/recordService.ts
 /*global NDEFRecord*/ // For the NDEFRecord constructor
 import type { Ref } from 'vue';
-import type { NDEFRecordInitCustom, ScannedTag } from '../@types/app';
-
-// Assume alert is globally available or handled by a global notification system.
-declare function alert(message?: any): void;
-
-export function handleAddRecord(
-  recordInit: NDEFRecordInitCustom,
-  scannedTag: Ref<ScannedTag>,
-  showAddForm: Ref<boolean>
-): void {
-  console.log("Record init received from form:", recordInit);
+import type { NDEFRecordInitCustom, ScannedTag, StoredRecord } from '../@types/app';
+import { snapshotRecord, snapshotToRecordInit } from '../utils/recordSnapshot';
+import { notifyError } from './notificationService';
 
+// Builds an NDEFRecord instance from form/import data. Throws if the NDEFRecord constructor rejects it.
+// This is the single path used for adding, importing and restoring records.
+export function createRecord(recordInit: NDEFRecordInitCustom): NDEFRecord {
   // The NDEFRecord constructor expects NDEFRecordInit, which is similar to NDEFRecordInitCustom
   // but NDEFRecordInitCustom allows for more flexible data types initially from the form.
   // The prepareRecordPayload function in AddRecordForm.vue already does most of the specific
@@ -42,28 +37,103 @@ export function handleAddRecord(
 
   console.log("Payload for NDEFRecord constructor:", payload);
 
+  const newRecord = new NDEFRecord(payload); // Use the global NDEFRecord
+
+  // Special handling for smart poster: _smartPosterData was a temporary holding field
+  // on NDEFRecordInitCustom. The actual NDEFRecord for 'smart-poster' has data=null.
+  // The service previously attached this to the created NDEFRecord instance for later use in writeNFC.
+  if (newRecord.recordType === "smart-poster" && payload.data) {
+    // Attach the original NDEFMessageInit (which was in payload.data) to the instance
+    // This is a non-standard property used internally by this app.
+    (newRecord as any)._smartPosterData = payload.data;
+  }
+  return newRecord;
+}
+
+export function handleAddRecord(
+  recordInit: NDEFRecordInitCustom,
+  scannedTag: Ref<ScannedTag>,
+  showAddForm: Ref<boolean>
+): void {
+  console.log("Record init received from form:", recordInit);
+
   try {
-    const newRecord = new NDEFRecord(payload); // Use the global NDEFRecord
-
-    // Special handling for smart poster: _smartPosterData was a temporary holding field
-    // on NDEFRecordInitCustom. The actual NDEFRecord for 'smart-poster' has data=null.
-    // The service previously attached this to the created NDEFRecord instance for later use in writeNFC.
-    if (newRecord.recordType === "smart-poster" && payload.data) {
-      // Attach the original NDEFMessageInit (which was in payload.data) to the instance
-      // This is a non-standard property used internally by this app.
-      (newRecord as any)._smartPosterData = payload.data;
-    }
-    
+    const newRecord = createRecord(recordInit);
     scannedTag.value.records.push(newRecord);
     console.log("Record added. New records list:", scannedTag.value.records);
   } catch (error) {
-    console.error("Error creating NDEFRecord:", error, payload);
-    alert(`Error adding record: ${(error as Error).message}`);
+    console.error("Error creating NDEFRecord:", error, recordInit);
+    notifyError(`Error adding record: ${(error as Error).message}`);
   }
 
   showAddForm.value = false; // Hide form after adding
 }
 
+// Replaces the record at `index` with one built from `recordInit`, keeping its position.
+// Returns false (and keeps the original) if the index is invalid or the record cannot be built.
+export function handleReplaceRecord(index: number, recordInit: NDEFRecordInitCustom, scannedTag: Ref<ScannedTag>): boolean {
+  if (index < 0 || index >= scannedTag.value.records.length) {
+    console.warn(`Attempted to update record at invalid index: ${index}`);
+    return false;
+  }
+
+  try {
+    const updatedRecord = createRecord(recordInit);
+    scannedTag.value.records.splice(index, 1, updatedRecord);
+    console.log(`Record at index ${index} updated.`);
+    return true;
+  } catch (error) {
+    console.error("Error updating NDEFRecord:", error, recordInit);
+    notifyError(`Error updating record: ${(error as Error).message}`);
+    return false;
+  }
+}
+
+// Replaces the record at `index` with one built from the edited form data, keeping its position.
+export function handleUpdateRecord(
+  index: number,
+  recordInit: NDEFRecordInitCustom,
+  scannedTag: Ref<ScannedTag>,
+  showAddForm: Ref<boolean>
+): void {
+  handleReplaceRecord(index, recordInit, scannedTag);
+  showAddForm.value = false; // Hide form after saving
+}
+
+// Rebuilds NDEFRecord instances from stored snapshots (library, import). Entries that the
+// NDEFRecord constructor rejects are reported by index instead of aborting the whole restore.
+export function restoreRecords(stored: StoredRecord[]): { records: NDEFRecord[]; failed: { index: number; reason: string }[] } {
+  const records: NDEFRecord[] = [];
+  const failed: { index: number; reason: string }[] = [];
+  stored.forEach((snapshot, index) => {
+    try {
+      records.push(createRecord(snapshotToRecordInit(snapshot)));
+    } catch (error) {
+      console.error(`Error restoring record ${index}:`, error, snapshot);
+      failed.push({ index, reason: (error as Error).message });
+    }
+  });
+  return { records, failed };
+}
+
+// Creates records for imported entries through createRecord(), reporting constructor failures
+// with the entry's original index so they can be shown next to validation rejections.
+export function createRecords(
+  entries: { index: number; init: NDEFRecordInitCustom }[]
+): { records: NDEFRecord[]; failed: { index: number; reason: string }[] } {
+  const records: NDEFRecord[] = [];
+  const failed: { index: number; reason: string }[] = [];
+  for (const { index, init } of entries) {
+    try {
+      records.push(createRecord(init));
+    } catch (error) {
+      console.error(`Error creating imported record ${index}:`, error, init);
+      failed.push({ index, reason: (error as Error).message });
+    }
+  }
+  return { records, failed };
+}
+
 export function handleDeleteRecord(index: number, scannedTag: Ref<ScannedTag>): void {
   if (index >= 0 && index < scannedTag.value.records.length) {
     scannedTag.value.records.splice(index, 1);
@@ -72,3 +142,32 @@ export function handleDeleteRecord(index: number, scannedTag: Ref<ScannedTag>):
     console.warn(`Attempted to delete record at invalid index: ${index}`);
   }
 }
+
+// Moves the record at `from` to position `to`, shifting the records in between.
+export function handleMoveRecord(from: number, to: number, scannedTag: Ref<ScannedTag>): void {
+  const records = scannedTag.value.records;
+  if (from < 0 || from >= records.length || to < 0 || to >= records.length) {
+    console.warn(`Attempted to move record from ${from} to invalid position ${to}`);
+    return;
+  }
+  if (from === to) return;
+  const [moved] = records.splice(from, 1);
+  records.splice(to, 0, moved);
+  console.log(`Record moved from index ${from} to ${to}.`);
+}
+
+// Inserts an independent copy of the record at `index` directly after it.
+export function handleDuplicateRecord(index: number, scannedTag: Ref<ScannedTag>): void {
+  if (index < 0 || index >= scannedTag.value.records.length) {
+    console.warn(`Attempted to duplicate record at invalid index: ${index}`);
+    return;
+  }
+  try {
+    const copy = createRecord(snapshotToRecordInit(snapshotRecord(scannedTag.value.records[index])));
+    scannedTag.value.records.splice(index + 1, 0, copy);
+    console.log(`Record at index ${index} duplicated.`);
+  } catch (error) {
+    console.error("Error duplicating NDEFRecord:", error);
+    notifyError(`Error duplicating record: ${(error as Error).message}`);
+  }
+}
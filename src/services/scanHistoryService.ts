@@ -0,0 +1,35 @@
+// src/services/scanHistoryService.ts
+/*global NDEFRecord*/ // WebNFC global type
+import { ref, computed } from 'vue';
+import type { ScanHistoryEntry } from '../@types/app';
+import { snapshotRecord } from '../utils/recordSnapshot';
+
+// Every reading and reading error of the current session, oldest first. Unlike scannedTag,
+// which only holds the latest tag, this keeps all reads of a continuous scan. It lives in
+// memory only; the tag library is the persistent store.
+
+export const MAX_HISTORY_ENTRIES = 500; // The oldest entries are dropped beyond this
+
+const entries = ref<ScanHistoryEntry[]>([]);
+let nextId = 1;
+
+export const scanHistory = computed(() => entries.value);
+
+function addEntry(entry: Omit<ScanHistoryEntry, "id">): ScanHistoryEntry {
+  const added: ScanHistoryEntry = { id: nextId++, ...entry };
+  entries.value.push(added);
+  if (entries.value.length > MAX_HISTORY_ENTRIES) entries.value.splice(0, entries.value.length - MAX_HISTORY_ENTRIES);
+  return added;
+}
+
+export function addScanReading(uid: string, records: readonly NDEFRecord[], time: Date = new Date()): ScanHistoryEntry {
+  return addEntry({ kind: "reading", time: time.getTime(), uid, records: records.map(snapshotRecord) });
+}
+
+export function addScanError(error: string, time: Date = new Date()): ScanHistoryEntry {
+  return addEntry({ kind: "error", time: time.getTime(), uid: "", records: [], error });
+}
+
+export function clearScanHistory(): void {
+  entries.value = [];
+}
@@ -0,0 +1,60 @@
+// src/services/tagWatch.ts
+/*global AbortController, AbortSignal*/ // WebNFC global types
+import type { NfcReader, NfcReadingEvent } from '../@types/app';
+import { getNfcBackend } from './nfcBackend';
+
+// Background scan that runs alongside a write. Web NFC's write() does not report which tag it
+// wrote to, but a scan started beforehand sees the tap; later readings let a written tag be read back.
+
+export interface TagWatch {
+  lastReading(): NfcReadingEvent | null; // Most recent reading since the watch started or was reset
+  reset(): void;
+  // The next reading after this call, or null on timeout (0 = none) or when the signal aborts.
+  nextReading(timeoutMs: number, signal?: AbortSignal): Promise<NfcReadingEvent | null>;
+  stop(): void;
+}
+
+// Failing to scan (e.g. no permission) is only logged: the watch then never sees a reading.
+export function watchTags(purpose: string): TagWatch {
+  const controller = new AbortController();
+  let last: NfcReadingEvent | null = null;
+  let waiter: ((event: NfcReadingEvent | null) => void) | null = null;
+
+  try {
+    const reader: NfcReader = getNfcBackend().createReader();
+    reader.onreading = (event) => {
+      last = event;
+      waiter?.(event);
+    };
+    reader.scan({ signal: controller.signal }).catch((err) => console.warn(`${purpose}: cannot scan for tags:`, err));
+  } catch (err) {
+    console.warn(`${purpose}: cannot scan for tags:`, err);
+  }
+
+  return {
+    lastReading: () => last,
+    reset() {
+      last = null;
+    },
+    nextReading(timeoutMs, signal) {
+      return new Promise((resolve) => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const finish = (event: NfcReadingEvent | null) => {
+          if (timer !== undefined) clearTimeout(timer);
+          signal?.removeEventListener("abort", onAbort);
+          waiter = null;
+          resolve(event);
+        };
+        const onAbort = () => finish(null);
+        if (signal?.aborted) return finish(null);
+        signal?.addEventListener("abort", onAbort);
+        if (timeoutMs > 0) timer = setTimeout(() => finish(null), timeoutMs);
+        waiter = finish;
+      });
+    },
+    stop() {
+      waiter?.(null);
+      controller.abort();
+    },
+  };
+}
@@ -14,7 +14,6 @@ function prepareRecordPayload(
   currentLang: string,
   currentTextData: string,
   currentFileDataBuffer: ArrayBuffer | null,
-  currentSmartPosterUrl: string,
   isMimeTextBased: boolean, 
   hexToBufferUtil: (hex: string) => ArrayBuffer
 ): NDEFRecordInitCustom {
@@ -40,14 +39,6 @@ function prepareRecordPayload(
          record.encoding = currentEncoding;
       }
     }
-  } else if (currentRecordType === "smart-poster") {
-    const nestedRecords: NDEFRecordInit[] = [ 
-      { recordType: "url", data: currentSmartPosterUrl } 
-    ];
-    if (currentTextData) { 
-      nestedRecords.push({ recordType: "text", data: currentTextData, lang: currentLang || "en", encoding: currentEncoding || "utf-8" });
-    }
-    record.data = { records: nestedRecords } as NDEFMessageInit; 
   } else if (currentRecordType === "external") {
     if (currentFileDataBuffer) {
       record.data = currentFileDataBuffer;
@@ -83,14 +74,13 @@ describe('prepareRecordPayload', () => {
     currentLang: 'en',       // Default in form
     currentTextData: '',
     currentFileDataBuffer: null,
-    currentSmartPosterUrl: '',
     isMimeTextBased: false,
     hexToBufferUtil: realHexStringToArrayBuffer, // Use the real utility
   });
 
   it('should prepare a "text" record correctly', () => {
     const args = { ...getDefaultArgs(), currentTextData: 'Hello', currentLang: 'fr', currentEncoding: 'utf-16', currentId: 'id1' };
-    const result = prepareRecordPayload('text', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.currentSmartPosterUrl, args.isMimeTextBased, args.hexToBufferUtil);
+    const result = prepareRecordPayload('text', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.isMimeTextBased, args.hexToBufferUtil);
     expect(result).toEqual({
       recordType: 'text',
       data: 'Hello',
@@ -102,7 +92,7 @@ describe('prepareRecordPayload', () => {
   
   it('should prepare a "text" record with default encoding and lang when inputs are empty', () => {
     const args = { ...getDefaultArgs(), currentTextData: 'Default', currentEncoding: '', currentLang: '' };
-    const result = prepareRecordPayload('text', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.currentSmartPosterUrl, args.isMimeTextBased, args.hexToBufferUtil);
+    const result = prepareRecordPayload('text', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.isMimeTextBased, args.hexToBufferUtil);
     expect(result).toEqual({
       recordType: 'text',
       data: 'Default',
@@ -113,7 +103,7 @@ describe('prepareRecordPayload', () => {
 
   it('should prepare a "url" record correctly', () => {
     const args = { ...getDefaultArgs(), currentTextData: 'example.com', currentId: 'id-url' };
-    const result = prepareRecordPayload('url', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.currentSmartPosterUrl, args.isMimeTextBased, args.hexToBufferUtil);
+    const result = prepareRecordPayload('url', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.isMimeTextBased, args.hexToBufferUtil);
     expect(result).toEqual({
       recordType: 'url',
       data: 'example.com',
@@ -123,7 +113,7 @@ describe('prepareRecordPayload', () => {
 
   it('should prepare an "absolute-url" record correctly', () => {
     const args = { ...getDefaultArgs(), currentTextData: 'https://absolute.com' };
-    const result = prepareRecordPayload('absolute-url', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.currentSmartPosterUrl, args.isMimeTextBased, args.hexToBufferUtil);
+    const result = prepareRecordPayload('absolute-url', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.isMimeTextBased, args.hexToBufferUtil);
     expect(result).toEqual({
       recordType: 'absolute-url',
       data: 'https://absolute.com',
@@ -134,7 +124,7 @@ describe('prepareRecordPayload', () => {
     const fileBuffer = new ArrayBuffer(8);
     it('with fileDataBuffer', () => {
       const args = { ...getDefaultArgs(), currentMediaType: 'image/png', currentFileDataBuffer: fileBuffer, currentId: 'mime1' };
-      const result = prepareRecordPayload('mime', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.currentSmartPosterUrl, args.isMimeTextBased, args.hexToBufferUtil);
+      const result = prepareRecordPayload('mime', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.isMimeTextBased, args.hexToBufferUtil);
       expect(result).toEqual({
         recordType: 'mime',
         mediaType: 'image/png',
@@ -145,7 +135,7 @@ describe('prepareRecordPayload', () => {
 
     it('with textData (text-based mime with encoding)', () => {
       const args = { ...getDefaultArgs(), currentMediaType: 'application/json', currentTextData: '{"key":"value"}', isMimeTextBased: true, currentEncoding: 'utf-16' };
-      const result = prepareRecordPayload('mime', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.currentSmartPosterUrl, args.isMimeTextBased, args.hexToBufferUtil);
+      const result = prepareRecordPayload('mime', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.isMimeTextBased, args.hexToBufferUtil);
       expect(result).toEqual({
         recordType: 'mime',
         mediaType: 'application/json',
@@ -156,7 +146,7 @@ describe('prepareRecordPayload', () => {
     
     it('with textData (non-text-based mime, encoding should be ignored)', () => {
       const args = { ...getDefaultArgs(), currentMediaType: 'application/octet-stream', currentTextData: 'binary as text', isMimeTextBased: false, currentEncoding: 'utf-16' };
-      const result = prepareRecordPayload('mime', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.currentSmartPosterUrl, args.isMimeTextBased, args.hexToBufferUtil);
+      const result = prepareRecordPayload('mime', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.isMimeTextBased, args.hexToBufferUtil);
       expect(result).toEqual({ 
         recordType: 'mime',
         mediaType: 'application/octet-stream',
@@ -165,39 +155,11 @@ describe('prepareRecordPayload', () => {
     });
   });
 
-  describe('"smart-poster" record preparation', () => {
-    it('with URL and title', () => {
-      const args = { ...getDefaultArgs(), currentSmartPosterUrl: 'https://smart.com', currentTextData: 'Smart Title', currentLang: 'de', currentEncoding: 'utf-8', currentId: 'sp1' };
-      const result = prepareRecordPayload('smart-poster', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.currentSmartPosterUrl, args.isMimeTextBased, args.hexToBufferUtil);
-      expect(result.recordType).toBe('smart-poster');
-      expect(result.id).toBe('sp1');
-      const messageInit = result.data as NDEFMessageInit;
-      expect(messageInit.records.length).toBe(2);
-      expect(messageInit.records[0]).toEqual({ recordType: 'url', data: 'https://smart.com' });
-      expect(messageInit.records[1]).toEqual({ recordType: 'text', data: 'Smart Title', lang: 'de', encoding: 'utf-8' });
-    });
-
-    it('with URL only (no title text)', () => {
-      const args = { ...getDefaultArgs(), currentSmartPosterUrl: 'https://smart.com', currentTextData: '' };
-      const result = prepareRecordPayload('smart-poster', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.currentSmartPosterUrl, args.isMimeTextBased, args.hexToBufferUtil);
-      const messageInit = result.data as NDEFMessageInit;
-      expect(messageInit.records.length).toBe(1);
-      expect(messageInit.records[0]).toEqual({ recordType: 'url', data: 'https://smart.com' });
-    });
-    
-    it('with URL and title, but empty lang/encoding for title (should use defaults for title)', () => {
-      const args = { ...getDefaultArgs(), currentSmartPosterUrl: 'https://smart.com', currentTextData: 'Smart Title', currentLang: '', currentEncoding: '' };
-      const result = prepareRecordPayload('smart-poster', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.currentSmartPosterUrl, args.isMimeTextBased, args.hexToBufferUtil);
-      const messageInit = result.data as NDEFMessageInit;
-      expect(messageInit.records[1]).toEqual({ recordType: 'text', data: 'Smart Title', lang: 'en', encoding: 'utf-8' });
-    });
-  });
-  
   describe('"external" record preparation', () => {
     const fileBuffer = new ArrayBuffer(16);
     it('with fileDataBuffer', () => {
       const args = { ...getDefaultArgs(), currentExternalTypeString: 'my:type', currentFileDataBuffer: fileBuffer, currentId: 'ext1' };
-      const result = prepareRecordPayload('external', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.currentSmartPosterUrl, args.isMimeTextBased, args.hexToBufferUtil);
+      const result = prepareRecordPayload('external', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.isMimeTextBased, args.hexToBufferUtil);
       expect(result).toEqual({
         recordType: 'my:type',
         data: fileBuffer,
@@ -207,7 +169,7 @@ describe('prepareRecordPayload', () => {
 
     it('with textData and encoding', () => {
       const args = { ...getDefaultArgs(), currentExternalTypeString: 'another:type', currentTextData: 'external data', currentEncoding: 'utf-16' };
-      const result = prepareRecordPayload('external', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.currentSmartPosterUrl, args.isMimeTextBased, args.hexToBufferUtil);
+      const result = prepareRecordPayload('external', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.isMimeTextBased, args.hexToBufferUtil);
       expect(result).toEqual({
         recordType: 'another:type',
         data: 'external data',
@@ -220,7 +182,7 @@ describe('prepareRecordPayload', () => {
     const fileBuffer = new ArrayBuffer(4);
     it('with fileDataBuffer', () => {
       const args = { ...getDefaultArgs(), currentFileDataBuffer: fileBuffer, currentId: 'unk1' };
-      const result = prepareRecordPayload('unknown', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.currentSmartPosterUrl, args.isMimeTextBased, args.hexToBufferUtil);
+      const result = prepareRecordPayload('unknown', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.isMimeTextBased, args.hexToBufferUtil);
       expect(result).toEqual({
         recordType: 'unknown',
         data: fileBuffer,
@@ -230,7 +192,7 @@ describe('prepareRecordPayload', () => {
 
     it('with textData (UTF-8 string)', () => {
       const args = { ...getDefaultArgs(), currentTextData: 'plain string data', currentEncoding: 'utf-8' };
-      const result = prepareRecordPayload('unknown', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.currentSmartPosterUrl, args.isMimeTextBased, args.hexToBufferUtil);
+      const result = prepareRecordPayload('unknown', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.isMimeTextBased, args.hexToBufferUtil);
       expect(result).toEqual({
         recordType: 'unknown',
         data: 'plain string data',
@@ -242,7 +204,7 @@ describe('prepareRecordPayload', () => {
       const hexInput = "0x0102AABB";
       const expectedBuffer = realHexStringToArrayBuffer(hexInput); // Use the real utility for expectation
       const args = { ...getDefaultArgs(), currentTextData: hexInput };
-      const result = prepareRecordPayload('unknown', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.currentSmartPosterUrl, args.isMimeTextBased, args.hexToBufferUtil);
+      const result = prepareRecordPayload('unknown', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.isMimeTextBased, args.hexToBufferUtil);
       expect(result.recordType).toBe('unknown');
       expect(result.data).toEqual(expectedBuffer);
       expect((result as any).encoding).toBeUndefined(); 
@@ -251,7 +213,7 @@ describe('prepareRecordPayload', () => {
 
   it('should prepare an "empty" record correctly', () => {
     const args = { ...getDefaultArgs(), currentId: 'empty1' };
-    const result = prepareRecordPayload('empty', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.currentSmartPosterUrl, args.isMimeTextBased, args.hexToBufferUtil);
+    const result = prepareRecordPayload('empty', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.isMimeTextBased, args.hexToBufferUtil);
     expect(result).toEqual({
       recordType: 'empty',
       id: 'empty1',
@@ -264,7 +226,7 @@ describe('prepareRecordPayload', () => {
 
   it('should include ID if provided for any type', () => {
     const args = { ...getDefaultArgs(), currentTextData: 'Test', currentId: 'test-id-123' };
-    const result = prepareRecordPayload('text', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.currentSmartPosterUrl, args.isMimeTextBased, args.hexToBufferUtil);
+    const result = prepareRecordPayload('text', args.currentExternalTypeString, args.currentMediaType, args.currentId, args.currentEncoding, args.currentLang, args.currentTextData, args.currentFileDataBuffer, args.isMimeTextBased, args.hexToBufferUtil);
     expect(result.id).toBe('test-id-123');
   });
 });
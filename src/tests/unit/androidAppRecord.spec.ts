@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AAR_RECORD_TYPE,
+  validatePackageName,
+  androidAppRecordInit,
+  decodePackageName,
+  aarPlacementWarnings,
+  playStoreUrl,
+} from '../../utils/androidAppRecord';
+
+const aar = { recordType: AAR_RECORD_TYPE };
+const url = { recordType: 'url' };
+
+describe('androidAppRecord', () => {
+  it('accepts Android package names and explains invalid ones', () => {
+    expect(validatePackageName('com.example.app')).toBeNull();
+    expect(validatePackageName('org.my_company.App2')).toBeNull();
+    expect(validatePackageName('')).toContain('Enter the package name');
+    expect(validatePackageName('example')).toContain('at least two segments');
+    expect(validatePackageName('com..app')).toContain('empty segment');
+    expect(validatePackageName('com.1example')).toContain('"1example"');
+    expect(validatePackageName('com.example-app')).toContain('"example-app"');
+  });
+
+  it('stores the package name as the payload of an android.com:pkg record', () => {
+    const init = androidAppRecordInit('com.example.app');
+    expect(init.recordType).toBe('android.com:pkg');
+    expect(decodePackageName(init.data as ArrayBuffer)).toBe('com.example.app');
+    expect(decodePackageName(new DataView(new TextEncoder().encode('xxcom.a.b').buffer, 2))).toBe('com.a.b');
+    expect(playStoreUrl('com.example.app')).toBe('https://play.google.com/store/apps/details?id=com.example.app');
+  });
+
+  it('warns about AARs before other records and about several AARs', () => {
+    expect(aarPlacementWarnings([url, aar])).toEqual([]);
+    expect(aarPlacementWarnings([url])).toEqual([]);
+
+    const [early] = aarPlacementWarnings([aar, url]);
+    expect(early).toContain('(#1) is not the last record');
+
+    const warnings = aarPlacementWarnings([url, aar, aar]);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain('2 Android app records (#2, #3)');
+
+    expect(aarPlacementWarnings([aar, url, aar])[1]).toContain('(#1) is not the last record');
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ref } from 'vue';
+import type { BatchJob, NFCStatus } from '../../@types/app';
+import {
+  createBatchJob,
+  runBatch,
+  stopBatch,
+  skipBatchRow,
+  selectBatchRow,
+  batchProgress,
+  batchResultsToCsv,
+} from '../../services/batchService';
+import { SimulatedNDEFRecord, simulatorBackend, addVirtualTag, readVirtualTag, tapVirtualTag, resetSimulator } from '../../services/nfcSimulator';
+import { setNfcBackend, webNfcBackend } from '../../services/nfcBackend';
+import { notifications, clearNotifications } from '../../services/notificationService';
+
+/*global NDEFRecord, NDEFRecordInit, AbortController*/
+
+vi.spyOn(console, 'log').mockImplementation(() => undefined);
+vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+const record = (init: NDEFRecordInit) => new SimulatedNDEFRecord(init) as unknown as NDEFRecord;
+const template = [record({ recordType: 'url', data: 'https://example.com/p/{{sku}}?n={{counter:3}}' })];
+const CSV = 'SKU,name\r\nA-1,First\r\nB-2,Second\r\n';
+
+describe('createBatchJob', () => {
+  it('creates one pending row per data line with lower-cased keys', () => {
+    const job = createBatchJob('items.csv', CSV, template, 5);
+    expect(job.columns).toEqual(['SKU', 'name']);
+    expect(job.rows.map((row) => [row.status, row.values.sku])).toEqual([['pending', 'A-1'], ['pending', 'B-2']]);
+    expect(job.counterStart).toBe(5);
+  });
+
+  it('rejects files that cannot fill the template', () => {
+    expect(() => createBatchJob('a.csv', CSV, [])).toThrow('The template is empty');
+    expect(() => createBatchJob('a.csv', '', template)).toThrow('The CSV file is empty.');
+    expect(() => createBatchJob('a.csv', 'sku\n', template)).toThrow('no data rows');
+    expect(() => createBatchJob('a.csv', 'sku,SKU\n1,2\n', template)).toThrow('Column "sku" appears more than once.');
+    expect(() => createBatchJob('a.csv', 'name\nx\n', template)).toThrow('no CSV column: {{sku}}');
+  });
+
+  it('keeps rows with the wrong number of fields as skipped', () => {
+    const job = createBatchJob('a.csv', 'sku,name\nA-1\n', template);
+    expect(job.rows[0]).toMatchObject({ status: 'skipped', message: 'Expected 2 fields, found 1.' });
+  });
+});
+
+describe('runBatch', () => {
+  const status = ref<NFCStatus>({ reading: false, writing: false, locking: false, verifying: false });
+  const writeAbortController = ref<AbortController | null>(null);
+  const jobRef = ref<BatchJob | null>(null);
+
+  beforeEach(() => {
+    resetSimulator();
+    clearNotifications();
+    setNfcBackend(simulatorBackend);
+    status.value = { reading: false, writing: false, locking: false, verifying: false };
+    jobRef.value = createBatchJob('items.csv', CSV, template);
+  });
+
+  afterEach(() => {
+    setNfcBackend(webNfcBackend);
+  });
+
+  // Taps once the batch is waiting for a tag, then waits until the current row is finished.
+  async function tapWhenWriting(uid: string) {
+    await vi.waitFor(() => expect(status.value.writing).toBe(true));
+    const row = (jobRef.value as BatchJob).rows[(jobRef.value as BatchJob).current];
+    const before = [row.status, row.finishedAt];
+    tapVirtualTag(uid);
+    await vi.waitFor(() => expect([row.status, row.finishedAt]).not.toEqual(before));
+  }
+
+  it('writes one row per tap and records the UID of each tag', async () => {
+    const first = addVirtualTag({ uid: '04:00:00:00:00:00:01' });
+    const second = addVirtualTag({ uid: '04:00:00:00:00:00:02' });
+
+    const run = runBatch(jobRef, status, writeAbortController);
+    await tapWhenWriting(first.uid);
+    await tapWhenWriting(second.uid);
+    await run;
+
+    const job = jobRef.value as BatchJob;
+    expect(job.rows.map((row) => [row.status, row.uid])).toEqual([
+      ['written', first.uid],
+      ['written', second.uid],
+    ]);
+    expect(readVirtualTag(second.uid)).toEqual([{ recordType: 'url', data: 'https://example.com/p/B-2?n=002' }]);
+    expect(job.running).toBe(false);
+    expect(notifications.value[0].message).toBe('Batch complete: 2 written, 0 skipped, 0 failed.');
+  });
+
+  it('writes the earlier row back to a tag that stays on the reader and waits for another tag', async () => {
+    const held = addVirtualTag();
+    const next = addVirtualTag();
+
+    const run = runBatch(jobRef, status, writeAbortController);
+    await tapWhenWriting(held.uid);
+    await vi.waitFor(() => expect(status.value.writing).toBe(true));
+    tapVirtualTag(held.uid); // Still in the field: takes row 2 as well
+    await vi.waitFor(() => expect(notifications.value.map((n) => n.title)).toContain('Same tag'));
+    await vi.waitFor(() => expect(status.value.writing).toBe(true));
+    tapVirtualTag(held.uid); // Row 1 is written back
+    await vi.waitFor(() => expect([status.value.writing, writeAbortController.value]).toEqual([false, expect.anything()]));
+    tapVirtualTag(held.uid); // Ignored: already written in this run
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(status.value.writing).toBe(false);
+    tapVirtualTag(next.uid);
+    await tapWhenWriting(next.uid);
+    await run;
+
+    const job = jobRef.value as BatchJob;
+    expect(job.rows.map((row) => [row.status, row.uid])).toEqual([
+      ['written', held.uid],
+      ['written', next.uid],
+    ]);
+    expect(readVirtualTag(held.uid)).toEqual([{ recordType: 'url', data: 'https://example.com/p/A-1?n=001' }]);
+    expect(readVirtualTag(next.uid)).toEqual([{ recordType: 'url', data: 'https://example.com/p/B-2?n=002' }]);
+  });
+
+  it('pauses on stop and resumes at the same row', async () => {
+    const run = runBatch(jobRef, status, writeAbortController);
+    await vi.waitFor(() => expect(status.value.writing).toBe(true));
+    stopBatch(jobRef.value, writeAbortController);
+    await run;
+
+    const job = jobRef.value as BatchJob;
+    expect(job.current).toBe(0);
+    expect(job.rows[0].status).toBe('pending');
+
+    skipBatchRow(job);
+    expect(job.rows[0]).toMatchObject({ status: 'skipped', message: 'Skipped by user.' });
+    expect(job.current).toBe(1);
+  });
+
+  it('fails the row on a read-only tag and retries it on the next run', async () => {
+    const locked = addVirtualTag({ readOnly: true });
+    const blank = addVirtualTag();
+
+    await Promise.all([runBatch(jobRef, status, writeAbortController), tapWhenWriting(locked.uid)]);
+    const job = jobRef.value as BatchJob;
+    expect(job.rows[0].status).toBe('failed');
+    expect(job.current).toBe(0);
+
+    const run = runBatch(jobRef, status, writeAbortController);
+    await tapWhenWriting(blank.uid);
+    expect(job.rows[0]).toMatchObject({ status: 'written', uid: blank.uid });
+    stopBatch(job, writeAbortController);
+    await run;
+    expect(batchProgress(job)).toEqual({ pending: 1, written: 1, skipped: 0, failed: 0 });
+  });
+
+  it('fails rows whose filled message has lint errors without writing them', async () => {
+    const tag = addVirtualTag();
+    jobRef.value = createBatchJob('links.csv', 'url\r\nnot a url\r\nhttps://ok.example\r\n', [record({ recordType: 'absolute-url', data: '{{url}}' })]);
+
+    const run = runBatch(jobRef, status, writeAbortController);
+    await tapWhenWriting(tag.uid);
+    await run;
+
+    const job = jobRef.value as BatchJob;
+    expect(job.rows[0]).toMatchObject({ status: 'failed', message: 'Record 1: "not a url" is not a valid absolute URL.' });
+    expect(job.rows[1]).toMatchObject({ status: 'written', uid: tag.uid });
+    expect(readVirtualTag(tag.uid)).toEqual([{ recordType: 'absolute-url', data: 'https://ok.example' }]);
+  });
+
+  it('lets a written row be selected to write again', () => {
+    const job = jobRef.value as BatchJob;
+    Object.assign(job.rows[0], { status: 'written', uid: '04:aa', finishedAt: 1 });
+    job.current = 1;
+
+    selectBatchRow(job, 0);
+
+    expect(job.current).toBe(0);
+    expect(job.rows[0]).toMatchObject({ status: 'pending', uid: '' });
+  });
+});
+
+describe('batchResultsToCsv', () => {
+  it('appends the outcome columns to the original columns', () => {
+    const job = createBatchJob('items.csv', CSV, template);
+    Object.assign(job.rows[0], { status: 'written', uid: '04:aa', finishedAt: Date.UTC(2024, 0, 2) });
+    skipBatchRow(job);
+
+    expect(batchResultsToCsv(job)).toBe(
+      'SKU,name,batch_status,batch_uid,batch_message,batch_finished_at\r\n' +
+        'A-1,First,written,04:aa,,2024-01-02T00:00:00.000Z\r\n' +
+        `B-2,Second,skipped,,Skipped by user.,${new Date(job.rows[1].finishedAt as number).toISOString()}\r\n`
+    );
+  });
+
+  it('keeps original values that start like a formula so the result loads as a new batch', () => {
+    const job = createBatchJob('phones.csv', 'sku,phone\r\n-1,+45 1234\r\n', template);
+    skipBatchRow(job, '=not a formula');
+
+    const csv = batchResultsToCsv(job);
+    expect(csv.split('\r\n')[1]).toMatch(/^-1,\+45 1234,skipped,,'=not a formula,/);
+    expect(createBatchJob('result.csv', csv, template).rows[0].values).toMatchObject({ sku: '-1', phone: '+45 1234' });
+  });
+});
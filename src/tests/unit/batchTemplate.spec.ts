@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { findPlaceholders, fillPlaceholders, fillTemplate } from '../../utils/batchTemplate';
+
+/*global NDEFRecordInit*/
+
+const bytes = (text: string) => new TextEncoder().encode(text).buffer;
+
+describe('batchTemplate', () => {
+  it('finds placeholders in data, IDs, UTF-8 payloads and smart posters', () => {
+    const records: NDEFRecordInit[] = [
+      { recordType: 'url', data: 'https://example.com/{{Serial}}?n={{counter:4}}' },
+      { recordType: 'text', id: '{{id}}', data: 'Hello {{name}}' },
+      { recordType: 'mime', mediaType: 'application/json', data: bytes('{"sku":"{{sku}}"}') },
+      { recordType: 'mime', mediaType: 'application/octet-stream', data: new Uint8Array([0xff, 0x7b, 0x7b]).buffer },
+      { recordType: 'smart-poster', data: { records: [{ recordType: 'text', data: '{{title}}' }] } },
+    ];
+    expect(findPlaceholders(records)).toEqual(['serial', 'counter', 'id', 'name', 'sku', 'title']);
+  });
+
+  it('fills column values case-insensitively and pads the counter', () => {
+    expect(fillPlaceholders('{{Name}}-{{counter}}-{{ counter:3 }}', { name: 'Ada' }, 7)).toBe('Ada-7-007');
+  });
+
+  it('prefers a CSV column named counter over the running number', () => {
+    expect(fillPlaceholders('{{counter}}', { counter: 'A1' }, 7)).toBe('A1');
+  });
+
+  it('throws for a placeholder without a value', () => {
+    expect(() => fillPlaceholders('{{missing}}', {}, 1)).toThrow('No value for placeholder {{missing}}.');
+  });
+
+  it('fills a copy of the template, including binary UTF-8 payloads and nested records', () => {
+    const template: NDEFRecordInit[] = [
+      { recordType: 'mime', mediaType: 'text/plain', data: bytes('sku={{sku}}') },
+      { recordType: 'smart-poster', data: { records: [{ recordType: 'url', data: 'https://x.test/{{sku}}' }] } },
+    ];
+    const [mime, poster] = fillTemplate(template, { sku: 'B-12' }, 1);
+
+    expect(new TextDecoder().decode(mime.data as ArrayBuffer)).toBe('sku=B-12');
+    expect((poster.data as { records: NDEFRecordInit[] }).records[0].data).toBe('https://x.test/B-12');
+    expect(new TextDecoder().decode(template[0].data as ArrayBuffer)).toBe('sku={{sku}}');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import type { BluetoothPairing } from '../../@types/app';
+import {
+  BT_EP_OOB_MEDIA_TYPE,
+  BT_LE_OOB_MEDIA_TYPE,
+  defaultBluetoothPairing,
+  validateBluetoothPairing,
+  encodeBluetoothPairing,
+  bluetoothPairingToRecordInit,
+  decodeBluetoothOob,
+  bluetoothPairingFromOob,
+  describeClassOfDevice,
+  buildHandoverSelectMessage,
+  parseHandoverSelect,
+} from '../../utils/bluetoothOob';
+import { decodeNdefMessage } from '../../utils/ndefCodec';
+
+const pairing = (overrides: Partial<BluetoothPairing> = {}): BluetoothPairing => ({
+  ...defaultBluetoothPairing(),
+  address: '00:11:22:33:44:55',
+  localName: 'Box',
+  ...overrides,
+});
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+
+describe('bluetoothOob', () => {
+  it('encodes BR/EDR pairing data with the OOB length, a little-endian address and EIR data', () => {
+    expect(hex(encodeBluetoothPairing(pairing({ classOfDevice: '240414' })))).toBe(
+      '1200' + // OOB data length 18
+      '554433221100' + // Address, little-endian
+      '0409426f78' + // Complete local name "Box"
+      '040d140424' // Class of device 0x240414
+    );
+  });
+
+  it('encodes LE pairing data as AD structures', () => {
+    expect(hex(encodeBluetoothPairing(pairing({ transport: 'le', addressType: 'random', leRole: 'peripheral-preferred', localName: '' })))).toBe(
+      '081b55443322110001' + // LE address, random
+      '021c02' // LE role
+    );
+    expect(bluetoothPairingToRecordInit(pairing({ transport: 'le' })).mediaType).toBe(BT_LE_OOB_MEDIA_TYPE);
+    expect(bluetoothPairingToRecordInit(pairing()).mediaType).toBe(BT_EP_OOB_MEDIA_TYPE);
+  });
+
+  it('validates the address, name and class of device', () => {
+    expect(validateBluetoothPairing(pairing())).toBeNull();
+    expect(validateBluetoothPairing(pairing({ address: '001122334455' }))).toBeNull();
+    expect(validateBluetoothPairing(pairing({ address: '00:11:22' }))).toContain('device address');
+    expect(validateBluetoothPairing(pairing({ classOfDevice: '0x24041' }))).toContain('class of device');
+    expect(validateBluetoothPairing(pairing({ transport: 'le', classOfDevice: 'junk' }))).toBeNull();
+    expect(validateBluetoothPairing(pairing({ localName: 'x'.repeat(241) }))).toContain('240 bytes');
+  });
+
+  it('decodes EIR and AD fields for display', () => {
+    expect(decodeBluetoothOob(BT_EP_OOB_MEDIA_TYPE, encodeBluetoothPairing(pairing({ classOfDevice: '240414' })))).toEqual([
+      { type: -1, name: 'Device address', value: '00:11:22:33:44:55' },
+      { type: 0x09, name: 'Local name', value: 'Box' },
+      { type: 0x0d, name: 'Class of device', value: '0x240414 (Audio/Video: Loudspeaker; services: Rendering, Audio)' },
+    ]);
+    const le = new Uint8Array([0x08, 0x1b, 0x55, 0x44, 0x33, 0x22, 0x11, 0x00, 0x00, 0x02, 0x1c, 0x00, 0x05, 0x03, 0x0b, 0x11, 0x0f, 0x18, 0x00]);
+    expect(decodeBluetoothOob(BT_LE_OOB_MEDIA_TYPE, le).map((field) => `${field.name}: ${field.value}`)).toEqual([
+      'LE device address: 00:11:22:33:44:55 (public)',
+      'LE role: Peripheral only',
+      '16-bit service UUIDs (complete): 0x110b (Audio Sink), 0x180f (Battery Service)',
+    ]);
+    expect(describeClassOfDevice(0x1f00)).toBe('0x001f00 (Uncategorized)');
+  });
+
+  it('rejects truncated payloads', () => {
+    expect(() => decodeBluetoothOob(BT_EP_OOB_MEDIA_TYPE, new Uint8Array([0x08, 0x00, 1, 2, 3]))).toThrow('too short');
+    expect(() => decodeBluetoothOob(BT_EP_OOB_MEDIA_TYPE, new Uint8Array([0x20, 0x00, 1, 2, 3, 4, 5, 6]))).toThrow('OOB data length (32)');
+    expect(() => decodeBluetoothOob(BT_LE_OOB_MEDIA_TYPE, new Uint8Array([0x05, 0x09, 0x41]))).toThrow('longer than the payload');
+  });
+
+  it('reads payloads back into form fields and lists what the form cannot keep', () => {
+    const original = pairing({ transport: 'le', addressType: 'random', leRole: 'central-preferred' });
+    expect(bluetoothPairingFromOob(BT_LE_OOB_MEDIA_TYPE, encodeBluetoothPairing(original))).toEqual({ pairing: original, unmapped: [] });
+
+    const withHash = new Uint8Array([...encodeBluetoothPairing(pairing({ transport: 'le' })), 0x03, 0x22, 0xaa, 0xbb]);
+    expect(bluetoothPairingFromOob(BT_LE_OOB_MEDIA_TYPE, withHash).unmapped.map((field) => field.name)).toEqual(['LE Secure Connections confirmation']);
+  });
+
+  it('wraps a pairing record in a Handover Select message', () => {
+    const message = decodeNdefMessage(buildHandoverSelectMessage(bluetoothPairingToRecordInit(pairing())));
+    expect(message.map((record) => record.recordType)).toEqual([':Hs', 'mime']);
+    expect(message[1]).toMatchObject({ mediaType: BT_EP_OOB_MEDIA_TYPE, id: '0' });
+    expect(parseHandoverSelect(message[0].data as ArrayBuffer)).toEqual({ version: '1.2', carriers: [{ powerState: 'active', reference: '0' }] });
+  });
+});
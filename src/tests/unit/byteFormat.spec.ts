@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { formatBytes, parseBytes, hexOffset, asciiChar } from '../../utils/byteFormat';
+
+const bytes = new Uint8Array([0x48, 0x69, 0x00, 0x0a, 0x5c, 0xff]);
+
+describe('byteFormat', () => {
+  it('writes bytes as hex rows, base64 and escaped text', () => {
+    expect(formatBytes(bytes, 'hex')).toBe('48 69 00 0a 5c ff');
+    expect(formatBytes(new Uint8Array(17), 'hex').split('\n')).toHaveLength(2);
+    expect(formatBytes(bytes, 'base64')).toBe('SGkAClz/');
+    expect(formatBytes(bytes, 'escaped')).toBe('Hi\\0\\n\\\\\\xff');
+  });
+
+  it('reads back every format', () => {
+    for (const format of ['hex', 'base64', 'escaped'] as const) {
+      expect(parseBytes(formatBytes(bytes, format), format)).toEqual(bytes);
+    }
+  });
+
+  it('accepts common hex separators and prefixes', () => {
+    const expected = new Uint8Array([0x0a, 0x1b, 0xc2]);
+    expect(parseBytes('0A:1B:C2', 'hex')).toEqual(expected);
+    expect(parseBytes('0x0a, 0x1b, 0xc2', 'hex')).toEqual(expected);
+    expect(parseBytes('0a-1b\nc2', 'hex')).toEqual(expected);
+    expect(parseBytes('0a1bc2', 'hex')).toEqual(expected);
+  });
+
+  it('writes typed non-ASCII characters as UTF-8', () => {
+    expect(Array.from(parseBytes('é\\t', 'escaped'))).toEqual([0xc3, 0xa9, 0x09]);
+  });
+
+  it('explains text that is not valid in its format', () => {
+    expect(() => parseBytes('0a 1g', 'hex')).toThrow('"g" is not a hex digit');
+    expect(() => parseBytes('0a 1', 'hex')).toThrow('Odd number of hex digits');
+    expect(() => parseBytes('SGk*', 'base64')).toThrow('Invalid base64 character');
+    expect(() => parseBytes('a\\q', 'escaped')).toThrow('Unknown escape "\\q" at position 1');
+    expect(() => parseBytes('\\x4', 'escaped')).toThrow('two hex digits');
+    expect(() => parseBytes('a\\', 'escaped')).toThrow('lone backslash');
+  });
+
+  it('formats offsets and the ASCII column', () => {
+    expect(hexOffset(16, 32)).toBe('0010');
+    expect(hexOffset(16, 0x12345)).toBe('00010');
+    expect([0x41, 0x20, 0x7f, 0x00].map(asciiChar).join('')).toBe('A ..');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ref } from 'vue';
+import type { CloneSession, NFCStatus } from '../../@types/app';
+import { createCloneSession, runClone, stopClone, cloneCount } from '../../services/cloneService';
+import { SimulatedNDEFRecord, simulatorBackend, addVirtualTag, readVirtualTag, tapVirtualTag, resetSimulator } from '../../services/nfcSimulator';
+import { setNfcBackend, webNfcBackend } from '../../services/nfcBackend';
+import { notifications, clearNotifications } from '../../services/notificationService';
+
+/*global NDEFRecord, AbortController*/
+
+vi.spyOn(console, 'log').mockImplementation(() => undefined);
+vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+const titles = () => notifications.value.map((n) => n.title);
+
+describe('cloneService', () => {
+  const status = ref<NFCStatus>({ reading: false, writing: false, locking: false, verifying: false });
+  const writeAbortController = ref<AbortController | null>(null);
+  const session = ref<CloneSession | null>(null);
+
+  beforeEach(() => {
+    resetSimulator();
+    clearNotifications();
+    setNfcBackend(simulatorBackend);
+    status.value = { reading: false, writing: false, locking: false, verifying: false };
+    session.value = createCloneSession();
+  });
+
+  afterEach(() => {
+    setNfcBackend(webNfcBackend);
+  });
+
+  // Taps a tag and waits for a copy written by that tap to be recorded.
+  async function tapAndWaitForCopy(uid: string) {
+    const before = session.value?.copies.length;
+    tapVirtualTag(uid);
+    await vi.waitFor(() => expect(session.value?.copies.length).not.toBe(before));
+  }
+
+  it('takes the first tag as the source and copies it to each further tag with one tap', async () => {
+    const source = addVirtualTag({ records: [{ recordType: 'url', data: 'https://example.com/m' }, { recordType: 'text', data: 'master' }] });
+    const first = addVirtualTag();
+    const second = addVirtualTag();
+
+    const run = runClone(session, status, writeAbortController);
+    tapVirtualTag(source.uid);
+    expect(session.value?.sourceUid).toBe(source.uid);
+    expect(session.value?.master).toHaveLength(2);
+
+    await tapAndWaitForCopy(first.uid);
+    await tapAndWaitForCopy(second.uid);
+    stopClone(session.value, writeAbortController);
+    await run;
+
+    expect(readVirtualTag(second.uid)).toEqual(readVirtualTag(source.uid));
+    expect(cloneCount(session.value as CloneSession)).toBe(2);
+    expect(session.value?.running).toBe(false);
+  });
+
+  it('refuses to write onto the source tag and skips tags already copied', async () => {
+    const source = addVirtualTag({ records: [{ recordType: 'text', data: 'master' }] });
+    const copy = addVirtualTag();
+    const run = runClone(session, status, writeAbortController);
+    tapVirtualTag(source.uid);
+    await tapAndWaitForCopy(copy.uid);
+
+    tapVirtualTag(source.uid);
+    tapVirtualTag(copy.uid);
+
+    expect(titles()).toEqual(expect.arrayContaining(['Source tag', 'Already copied']));
+    expect(session.value?.copies).toHaveLength(1);
+    stopClone(session.value, writeAbortController);
+    await run;
+  });
+
+  it('ignores an empty source tag', async () => {
+    const blank = addVirtualTag();
+    const run = runClone(session, status, writeAbortController);
+    tapVirtualTag(blank.uid);
+
+    expect(session.value?.sourceUid).toBe('');
+    expect(titles()).toContain('Empty source tag');
+    stopClone(session.value, writeAbortController);
+    await run;
+  });
+
+  it('copies scanned smart posters with their nested records', async () => {
+    const poster = { records: [{ recordType: 'url', data: 'https://example.com/sp' }, { recordType: 'text', data: 'Title' }] };
+    const source = addVirtualTag({ records: [{ recordType: 'smart-poster', data: poster }] });
+    const copy = addVirtualTag();
+
+    const run = runClone(session, status, writeAbortController);
+    tapVirtualTag(source.uid);
+    await tapAndWaitForCopy(copy.uid);
+    stopClone(session.value, writeAbortController);
+    await run;
+
+    expect(session.value?.copies[0].outcome).toBe('written');
+    const [copied] = readVirtualTag(copy.uid);
+    expect(copied.recordType).toBe('smart-poster');
+    expect(copied).toEqual(readVirtualTag(source.uid)[0]);
+  });
+
+  it('records failed copies without counting them', async () => {
+    const source = addVirtualTag({ records: [{ recordType: 'text', data: 'master' }] });
+    const locked = addVirtualTag({ readOnly: true });
+    const run = runClone(session, status, writeAbortController);
+    tapVirtualTag(source.uid);
+    await tapAndWaitForCopy(locked.uid);
+    stopClone(session.value, writeAbortController);
+    await run;
+
+    expect(session.value?.copies[0]).toMatchObject({ uid: locked.uid, outcome: 'failed' });
+    expect(cloneCount(session.value as CloneSession)).toBe(0);
+  });
+
+  it('starts from records already in the editor', async () => {
+    const record = new SimulatedNDEFRecord({ recordType: 'text', data: 'from editor' }) as unknown as NDEFRecord;
+    session.value = createCloneSession('04:00:00:00:00:00:99', [record]);
+    const copy = addVirtualTag();
+
+    const run = runClone(session, status, writeAbortController);
+    await tapAndWaitForCopy(copy.uid);
+    stopClone(session.value, writeAbortController);
+    await run;
+
+    expect(readVirtualTag(copy.uid)).toEqual([{ recordType: 'text', data: 'from editor', lang: 'en', encoding: 'utf-8' }]);
+  });
+});
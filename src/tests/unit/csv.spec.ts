@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { csvField, formatCsv, parseCsv } from '../../utils/csv';
+
+describe('csv', () => {
+  it('quotes fields with separators, quotes or line breaks', () => {
+    expect(csvField('plain')).toBe('plain');
+    expect(csvField('a,b')).toBe('"a,b"');
+    expect(csvField('say "hi"')).toBe('"say ""hi"""');
+    expect(csvField(42)).toBe('42');
+  });
+
+  it('neutralises fields that spreadsheets would evaluate as formulas', () => {
+    expect(csvField('=SUM(A1)')).toBe("'=SUM(A1)");
+    expect(csvField('@cmd')).toBe("'@cmd");
+    expect(csvField('+45 1234', false)).toBe('+45 1234');
+  });
+
+  it('formats rows with CRLF line endings', () => {
+    expect(formatCsv([['a', 'b'], [1, 'x y']])).toBe('a,b\r\n1,x y\r\n');
+    expect(formatCsv([['-1', '-1']], 1)).toBe("-1,'-1\r\n");
+  });
+
+  it('parses quoted fields, escaped quotes and embedded line breaks', () => {
+    expect(parseCsv('name,note\r\n"Doe, J.","said ""hi""\nthen left"\r\n')).toEqual([
+      ['name', 'note'],
+      ['Doe, J.', 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it('ignores a byte order mark and blank lines, and keeps empty fields', () => {
+    expect(parseCsv('﻿a,b\n\n1,\n,2')).toEqual([['a', 'b'], ['1', ''], ['', '2']]);
+    expect(parseCsv('a\n""\n')).toEqual([['a'], ['']]);
+  });
+
+  it('round-trips formatted rows', () => {
+    const rows = [['id', 'text'], ['1', 'line one\r\nline two'], ['2', 'a "quote", too']];
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+  });
+
+  it('reports malformed quoting with the line number', () => {
+    expect(() => parseCsv('a\n"open')).toThrow('Unterminated quoted field starting on line 2.');
+    expect(() => parseCsv('a\n"x"y')).toThrow('Unexpected text after a closing quote on line 2.');
+  });
+});
@@ -0,0 +1,86 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  saveScan,
+  saveDraft,
+  listEntries,
+  searchEntries,
+  renameEntry,
+  deleteEntry,
+  getNote,
+  setNote,
+  closeLibraryDb,
+  LIBRARY_DB_NAME,
+} from '../../services/libraryService';
+
+/*global NDEFRecord, indexedDB*/
+
+const textEncoder = new TextEncoder();
+const textRecord = (text: string) =>
+  ({ recordType: 'text', encoding: 'utf-8', lang: 'en', data: new DataView(textEncoder.encode(text).buffer) } as unknown as NDEFRecord);
+
+async function resetDatabase() {
+  await closeLibraryDb();
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(LIBRARY_DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+describe('libraryService', () => {
+  beforeEach(async () => {
+    await resetDatabase();
+  });
+
+  it('saves scans with UID, timestamp and record snapshots', async () => {
+    const saved = await saveScan('04a1b2c3', [textRecord('hello')], new Date(2024, 0, 2, 3, 4, 5));
+    expect(saved.id).toBeTypeOf('number');
+
+    const [entry] = await listEntries();
+    expect(entry.kind).toBe('scan');
+    expect(entry.uid).toBe('04a1b2c3');
+    expect(entry.name).toContain('04A1B2C3');
+    expect(entry.createdAt).toBeTypeOf('number');
+    expect(new TextDecoder().decode(entry.records[0].payload!)).toBe('hello');
+  });
+
+  it('saves named drafts and rejects empty names', async () => {
+    await saveDraft('  Lobby poster ', [textRecord('welcome')]);
+    await expect(saveDraft('   ', [])).rejects.toThrow('A draft needs a name.');
+    const entries = await listEntries();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ kind: 'draft', name: 'Lobby poster', uid: '' });
+  });
+
+  it('searches by name, UID and text content, optionally by kind', async () => {
+    await saveScan('04aa', [textRecord('meeting room')]);
+    await saveDraft('Kitchen', [textRecord('coffee')]);
+
+    expect((await searchEntries('kitchen')).map(e => e.name)).toEqual(['Kitchen']);
+    expect((await searchEntries('04AA'))).toHaveLength(1);
+    expect((await searchEntries('coffee'))).toHaveLength(1);
+    expect((await searchEntries('', 'scan'))).toHaveLength(1);
+    expect((await searchEntries('nothing'))).toHaveLength(0);
+  });
+
+  it('renames and deletes entries', async () => {
+    const { id } = await saveDraft('Old', [textRecord('x')]);
+    const renamed = await renameEntry(id!, 'New');
+    expect(renamed.name).toBe('New');
+    expect((await listEntries())[0].name).toBe('New');
+
+    await deleteEntry(id!);
+    expect(await listEntries()).toHaveLength(0);
+    await expect(renameEntry(id!, 'Gone')).rejects.toThrow('not found');
+  });
+
+  it('stores per-UID notes case-insensitively and removes empty notes', async () => {
+    expect(await getNote('04AB')).toBeNull();
+    await setNote('04AB', 'Front door');
+    expect((await getNote('04ab'))?.note).toBe('Front door');
+
+    await setNote('04ab', '  ');
+    expect(await getNote('04AB')).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { recordsToMessageJson, parseMessageJson, MESSAGE_JSON_FORMAT } from '../../utils/messageJson';
+
+/*global NDEFRecord, NDEFMessageInit*/ // For WebNFC global types
+
+const textEncoder = new TextEncoder();
+const view = (bytes: Uint8Array) => new DataView(bytes.buffer);
+
+describe('messageJson', () => {
+  describe('recordsToMessageJson', () => {
+    it('should export one entry per record with the source UID', () => {
+      const records = [
+        { recordType: 'text', encoding: 'utf-8', lang: 'en', id: 't', data: view(textEncoder.encode('Hello')) },
+        { recordType: 'url', data: view(textEncoder.encode('https://a.b')) },
+        { recordType: 'mime', mediaType: 'image/png', data: view(new Uint8Array([0, 255])) },
+        { recordType: 'empty', data: null },
+      ] as unknown as NDEFRecord[];
+
+      const doc = recordsToMessageJson(records, '04aabb', new Date('2024-05-01T12:00:00Z'));
+      expect(doc).toEqual({
+        format: MESSAGE_JSON_FORMAT,
+        version: 1,
+        exportedAt: '2024-05-01T12:00:00.000Z',
+        sourceUid: '04aabb',
+        records: [
+          { recordType: 'text', encoding: 'utf-8', lang: 'en', id: 't', text: 'Hello' },
+          { recordType: 'url', text: 'https://a.b' },
+          { recordType: 'mime', mediaType: 'image/png', base64: 'AP8=' },
+          { recordType: 'empty' },
+        ],
+      });
+    });
+
+    it('should keep UTF-16 text as base64 and include nested smart-poster messages in full', () => {
+      const spData: NDEFMessageInit = {
+        records: [
+          { recordType: 'url', data: 'https://sp.com' },
+          { recordType: 'text', data: 'Titel', lang: 'de' },
+          { recordType: ':act', data: new Uint8Array([0]).buffer },
+        ],
+      };
+      const records = [
+        { recordType: 'text', encoding: 'utf-16be', lang: 'en', data: view(new Uint8Array([0, 0x48])) },
+        { recordType: 'smart-poster', data: null, _smartPosterData: spData },
+      ] as unknown as NDEFRecord[];
+
+      const doc = recordsToMessageJson(records, '');
+      expect(doc.records[0]).toEqual({ recordType: 'text', encoding: 'utf-16be', lang: 'en', base64: 'AEg=' });
+      expect(doc.records[1]).toEqual({
+        recordType: 'smart-poster',
+        records: [
+          { recordType: 'url', text: 'https://sp.com' },
+          { recordType: 'text', text: 'Titel', lang: 'de' },
+          { recordType: ':act', base64: 'AA==' },
+        ],
+      });
+    });
+  });
+
+  describe('parseMessageJson', () => {
+    const wrap = (records: unknown[], extra: Record<string, unknown> = {}) =>
+      JSON.stringify({ format: MESSAGE_JSON_FORMAT, version: 1, sourceUid: '04aa', records, ...extra });
+
+    it('should rebuild inits for valid entries', () => {
+      const parsed = parseMessageJson(wrap([
+        { recordType: 'text', text: 'Hi', lang: 'en' },
+        { recordType: 'mime', mediaType: 'application/octet-stream', base64: 'AP8=' },
+        { recordType: 'smart-poster', records: [{ recordType: 'url', text: 'https://sp.com' }] },
+      ]));
+
+      expect(parsed.sourceUid).toBe('04aa');
+      expect(parsed.rejected).toEqual([]);
+      expect(parsed.records.map(r => r.index)).toEqual([0, 1, 2]);
+      expect(parsed.records[0].init).toEqual({ recordType: 'text', data: 'Hi', lang: 'en' });
+      expect(new Uint8Array(parsed.records[1].init.data as ArrayBuffer)).toEqual(new Uint8Array([0, 255]));
+      expect(parsed.records[2].init.data).toEqual({ records: [{ recordType: 'url', data: 'https://sp.com' }] });
+    });
+
+    it('should reject bad entries individually with a reason', () => {
+      const parsed = parseMessageJson(wrap([
+        { recordType: 'text', text: 'ok' },
+        { recordType: 'mime', base64: 'AA==' },
+        { recordType: 'url', base64: 'AA==' },
+        { recordType: 'unknown', base64: '@@' },
+        { recordType: 'smart-poster', records: [{ recordType: 42 }] },
+        { recordType: ':act' },
+        'not an object',
+        { recordType: 'text', text: 'a', base64: 'AA==' },
+      ]));
+
+      expect(parsed.records.map(r => r.index)).toEqual([0]);
+      expect(parsed.rejected.map(r => r.index)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+      expect(parsed.rejected[0].reason).toContain('mediaType');
+      expect(parsed.rejected[2].reason).toContain('Invalid base64');
+      expect(parsed.rejected[3].reason).toContain('records[4].records[0]');
+      expect(parsed.rejected[4].reason).toContain('only allowed inside a nested message');
+    });
+
+    it('should refuse documents with the wrong format or a newer version', () => {
+      expect(() => parseMessageJson('{')).toThrow('Not valid JSON');
+      expect(() => parseMessageJson(JSON.stringify({ format: 'other', version: 1, records: [] }))).toThrow('Unsupported format');
+      expect(() => parseMessageJson(wrap([], { version: 2 }))).toThrow('newer than the supported version');
+      expect(() => parseMessageJson(wrap([], { records: {} }))).toThrow('"records" must be an array');
+    });
+
+    it('should round-trip an export', () => {
+      const records = [
+        { recordType: 'example.com:thing', data: view(new Uint8Array([1, 2, 3])) },
+        { recordType: 'absolute-url', data: view(textEncoder.encode('https://abs.example')) },
+      ] as unknown as NDEFRecord[];
+      const parsed = parseMessageJson(JSON.stringify(recordsToMessageJson(records, '04')));
+      expect(parsed.rejected).toEqual([]);
+      expect(parsed.records[0].init.recordType).toBe('example.com:thing');
+      expect(new Uint8Array(parsed.records[0].init.data as ArrayBuffer)).toEqual(new Uint8Array([1, 2, 3]));
+      expect(parsed.records[1].init).toEqual({ recordType: 'absolute-url', data: 'https://abs.example' });
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodeNdefMessage,
+  decodeNdefMessage,
+  encodeUriPayload,
+  NdefParseError,
+} from '../../utils/ndefCodec';
+
+/*global NDEFRecordInit, NDEFMessageInit*/ // For WebNFC global types
+
+const textEncoder = new TextEncoder();
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+describe('ndefCodec', () => {
+  describe('encodeNdefMessage', () => {
+    it('should encode an empty record with type and payload length fields', () => {
+      // MB|ME|SR + TNF 0, type length 0, payload length 0
+      expect(encodeNdefMessage([{ recordType: 'empty' }])).toEqual(bytes(0xd0, 0x00, 0x00));
+    });
+
+    it('should encode a text record byte for byte', () => {
+      const encoded = encodeNdefMessage([{ recordType: 'text', data: 'Hello', lang: 'en' }]);
+      expect(encoded).toEqual(bytes(0xd1, 0x01, 0x08, 0x54, 0x02, 0x65, 0x6e, 0x48, 0x65, 0x6c, 0x6c, 0x6f));
+    });
+
+    it('should set the IL flag and write the id', () => {
+      const encoded = encodeNdefMessage([{ recordType: 'text', data: 'Hello', lang: 'en', id: 'my-id' }]);
+      expect(encoded[0]).toBe(0xd9);
+      expect(encoded.byteLength).toBe(18);
+      expect(encoded[3]).toBe(5); // ID length
+      expect(new TextDecoder().decode(encoded.subarray(5, 10))).toBe('my-id');
+    });
+
+    it('should set the UTF-16 flag on text records', () => {
+      const encoded = encodeNdefMessage([{ recordType: 'text', data: 'Hi', lang: 'en', encoding: 'utf-16' }]);
+      expect(encoded[4]).toBe(0x82);
+      expect(Array.from(encoded.subarray(7))).toEqual([0x00, 0x48, 0x00, 0x69]);
+    });
+
+    it('should abbreviate URI prefixes', () => {
+      const encoded = encodeNdefMessage([{ recordType: 'url', data: 'https://example.com' }]);
+      // header, type length, payload length, "U", prefix code 0x04, "example.com"
+      expect(encoded.byteLength).toBe(4 + 1 + 11);
+      expect(encoded[4]).toBe(0x04);
+    });
+
+    it('should pick the longest matching URI prefix', () => {
+      expect(encodeUriPayload('https://www.example.com')[0]).toBe(0x02);
+      expect(encodeUriPayload('urn:epc:id:sgtin')[0]).toBe(0x1e);
+      expect(encodeUriPayload('custom:thing')[0]).toBe(0x00);
+    });
+
+    it('should put the absolute URL in the type field with an empty payload', () => {
+      const url = 'ftp://example.com/file';
+      const encoded = encodeNdefMessage([{ recordType: 'absolute-url', data: url }]);
+      expect(encoded[0] & 0x07).toBe(0x03);
+      expect(encoded[1]).toBe(url.length);
+      expect(encoded[2]).toBe(0);
+      expect(encoded.byteLength).toBe(3 + url.length);
+    });
+
+    it('should encode mime and external records', () => {
+      const mime = encodeNdefMessage([{ recordType: 'mime', mediaType: 'image/png', data: new ArrayBuffer(100) }]);
+      expect(mime[0] & 0x07).toBe(0x02);
+      expect(mime.byteLength).toBe(3 + 9 + 100);
+
+      const external = encodeNdefMessage([{ recordType: 'example.com:mytype', data: 'payload data' }]);
+      expect(external[0] & 0x07).toBe(0x04);
+      expect(external.byteLength).toBe(3 + 18 + 12);
+    });
+
+    it('should use a 4-byte payload length for long records', () => {
+      const data = 'a'.repeat(300);
+      const encoded = encodeNdefMessage([{ recordType: 'text', data, lang: 'en' }]);
+      expect(encoded[0] & 0x10).toBe(0); // SR clear
+      expect(Array.from(encoded.subarray(2, 6))).toEqual([0x00, 0x00, 0x01, 0x2f]); // 303
+      expect(encoded.byteLength).toBe(1 + 1 + 4 + 1 + 303);
+    });
+
+    it('should encode the nested smart-poster message with its own MB/ME and SR flags', () => {
+      const spData: NDEFMessageInit = {
+        records: [
+          { recordType: 'url', data: 'https://example.com' },
+          { recordType: 'text', data: 'Title', lang: 'en' },
+        ],
+      };
+      const encoded = encodeNdefMessage([{ recordType: 'smart-poster', data: spData }]);
+      const nested = encodeNdefMessage(spData.records);
+      expect(encoded.byteLength).toBe(3 + 2 + nested.byteLength);
+      expect(encoded.subarray(5)).toEqual(nested);
+      expect(nested[0]).toBe(0x91); // MB|SR, well-known
+      expect(nested[16]).toBe(0x51); // ME|SR, well-known
+    });
+
+    it('should set MB only on the first and ME only on the last record', () => {
+      const encoded = encodeNdefMessage([{ recordType: 'empty' }, { recordType: 'empty' }, { recordType: 'empty' }]);
+      expect(Array.from(encoded)).toEqual([0x90, 0, 0, 0x10, 0, 0, 0x50, 0, 0]);
+    });
+
+    it('should reject record types it cannot map', () => {
+      expect(() => encodeNdefMessage([{ recordType: 'bogus' }])).toThrow('Cannot encode record type "bogus".');
+    });
+  });
+
+  describe('decodeNdefMessage', () => {
+    it('should round-trip every Web NFC record type', () => {
+      const records: NDEFRecordInit[] = [
+        { recordType: 'text', data: 'Bonjour', lang: 'fr', encoding: 'utf-8', id: 't1' },
+        { recordType: 'text', data: 'Wide', lang: 'en', encoding: 'utf-16le' },
+        { recordType: 'url', data: 'https://www.example.com/path' },
+        { recordType: 'absolute-url', data: 'https://example.com/abs' },
+        { recordType: 'mime', mediaType: 'application/octet-stream', data: bytes(1, 2, 3).buffer },
+        { recordType: 'example.com:mytype', data: bytes(4, 5).buffer },
+        { recordType: 'unknown', data: bytes(6).buffer },
+        { recordType: 'empty' },
+        {
+          recordType: 'smart-poster',
+          data: {
+            records: [
+              { recordType: 'url', data: 'tel:+123' },
+              { recordType: ':act', data: bytes(0).buffer },
+            ],
+          },
+        },
+      ];
+      const decoded = decodeNdefMessage(encodeNdefMessage(records));
+      expect(decoded).toEqual(records);
+    });
+
+    it('should reassemble chunked records', () => {
+      const chunked = bytes(
+        0xb5, 0x00, 0x02, 0x01, 0x02, // MB|CF|SR, unknown, first chunk
+        0x36, 0x00, 0x01, 0x03, // CF|SR, unchanged
+        0x56, 0x00, 0x01, 0x04 // ME|SR, unchanged, last chunk
+      );
+      const decoded = decodeNdefMessage(chunked);
+      expect(decoded.length).toBe(1);
+      expect(decoded[0].recordType).toBe('unknown');
+      expect(new Uint8Array(decoded[0].data as ArrayBuffer)).toEqual(bytes(1, 2, 3, 4));
+    });
+
+    it('should accept a Uint8Array view into a larger buffer', () => {
+      const encoded = encodeNdefMessage([{ recordType: 'url', data: 'https://a.b' }]);
+      const padded = new Uint8Array(encoded.byteLength + 4);
+      padded.set(encoded, 2);
+      expect(decodeNdefMessage(padded.subarray(2, 2 + encoded.byteLength))).toEqual([{ recordType: 'url', data: 'https://a.b' }]);
+    });
+
+    it('should report the offset of a truncated payload', () => {
+      const truncated = encodeNdefMessage([{ recordType: 'text', data: 'Hello', lang: 'en' }]).subarray(0, 8);
+      expect(() => decodeNdefMessage(truncated)).toThrow(NdefParseError);
+      try {
+        decodeNdefMessage(truncated);
+      } catch (err) {
+        expect((err as NdefParseError).offset).toBe(4);
+        expect((err as Error).message).toContain('at byte offset 4');
+      }
+    });
+
+    it('should report offsets inside nested smart-poster messages relative to the outer message', () => {
+      // Sp record whose nested URI record uses an unknown prefix code (0x99) at byte 9
+      const message = bytes(0xd1, 0x02, 0x06, 0x53, 0x70, 0xd1, 0x01, 0x02, 0x55, 0x99, 0x61);
+      try {
+        decodeNdefMessage(message);
+        expect.unreachable();
+      } catch (err) {
+        expect(err).toBeInstanceOf(NdefParseError);
+        expect((err as NdefParseError).offset).toBe(9);
+      }
+    });
+
+    it('should reject messages without MB/ME flags or with trailing bytes', () => {
+      expect(() => decodeNdefMessage(bytes(0x50, 0, 0))).toThrow('Message Begin');
+      expect(() => decodeNdefMessage(bytes(0x90, 0, 0))).toThrow('Message End');
+      expect(() => decodeNdefMessage(bytes(0xd0, 0, 0, 0x00))).toThrow('after the Message End');
+      expect(() => decodeNdefMessage(new Uint8Array(0))).toThrow('empty');
+    });
+
+    it('should reject reserved TNF and stray unchanged records', () => {
+      expect(() => decodeNdefMessage(bytes(0xd7, 0, 0))).toThrow('reserved TNF');
+      expect(() => decodeNdefMessage(bytes(0xd6, 0, 0))).toThrow('TNF unchanged');
+    });
+
+    it('should decode type bytes as text', () => {
+      const decoded = decodeNdefMessage(encodeNdefMessage([{ recordType: 'mime', mediaType: 'text/plain', data: textEncoder.encode('x') }]));
+      expect(decoded[0].mediaType).toBe('text/plain');
+    });
+  });
+});
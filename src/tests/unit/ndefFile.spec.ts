@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { recordsToNdefFile, parseNdefFile } from '../../utils/ndefFile';
+import { NdefParseError } from '../../utils/ndefCodec';
+
+/*global NDEFRecord*/ // For WebNFC global types
+
+const textEncoder = new TextEncoder();
+const view = (bytes: Uint8Array) => new DataView(bytes.buffer);
+const toBuffer = (bytes: number[]) => new Uint8Array(bytes).buffer;
+
+describe('ndefFile', () => {
+  it('should encode the records as bare NDEF message bytes', () => {
+    const records = [
+      { recordType: 'url', data: view(textEncoder.encode('https://a.io')) },
+    ] as unknown as NDEFRecord[];
+    // MB|ME|SR, TNF 1, type "U", prefix 0x04 (https://) + "a.io"
+    expect(Array.from(recordsToNdefFile(records))).toEqual([0xd1, 0x01, 0x05, 0x55, 0x04, 0x61, 0x2e, 0x69, 0x6f]);
+  });
+
+  it('should round-trip a message including a scanned smart poster and UTF-16 text', () => {
+    const spPayload = new Uint8Array([0xd1, 0x01, 0x03, 0x55, 0x04, 0x61, 0x62]); // url https://ab
+    const records = [
+      { recordType: 'text', encoding: 'utf-16be', lang: 'en', data: view(new Uint8Array([0x00, 0x48, 0x00, 0x69])) },
+      { recordType: 'smart-poster', data: view(spPayload) },
+      { recordType: 'example.com:t', data: view(new Uint8Array([7])) },
+    ] as unknown as NDEFRecord[];
+
+    const entries = parseNdefFile(recordsToNdefFile(records).buffer as ArrayBuffer);
+    expect(entries.map(e => e.index)).toEqual([0, 1, 2]);
+    expect(entries[0].init.encoding).toBe('utf-16be');
+    expect(new Uint8Array(entries[0].init.data as ArrayBuffer)).toEqual(new Uint8Array([0x00, 0x48, 0x00, 0x69]));
+    expect(entries[1].init.data).toEqual({ records: [{ recordType: 'url', data: 'https://ab' }] });
+    expect(entries[2].init.recordType).toBe('example.com:t');
+  });
+
+  it('should keep UTF-8 text as a string', () => {
+    // MB|ME|SR, TNF 1, type "T", status 0x02 + "en" + "Hi"
+    const entries = parseNdefFile(toBuffer([0xd1, 0x01, 0x05, 0x54, 0x02, 0x65, 0x6e, 0x48, 0x69]));
+    expect(entries[0].init).toEqual({ recordType: 'text', lang: 'en', encoding: 'utf-8', data: 'Hi' });
+  });
+
+  it('should report malformed files with the byte offset', () => {
+    expect(() => parseNdefFile(toBuffer([]))).toThrow('(at byte offset 0)');
+    // Payload length 9 runs past the end of the file
+    const truncated = toBuffer([0xd1, 0x01, 0x09, 0x55, 0x04, 0x61]);
+    expect(() => parseNdefFile(truncated)).toThrow(NdefParseError);
+    try {
+      parseNdefFile(truncated);
+    } catch (err) {
+      expect((err as NdefParseError).offset).toBeGreaterThan(0);
+      expect((err as Error).message).toMatch(/at byte offset \d+/);
+    }
+    // Second record sets Message Begin again
+    const doubleBegin = toBuffer([0x91, 0x01, 0x01, 0x55, 0x00, 0xd1, 0x01, 0x01, 0x55, 0x00]);
+    expect(() => parseNdefFile(doubleBegin)).toThrow('Message Begin flag set on a record that is not first (at byte offset 5)');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { lintMessage, lintErrors, isWellFormedLanguageTag, externalTypeProblem, isValidMediaType } from '../../utils/ndefLint';
+import { SimulatedNDEFRecord } from '../../services/nfcSimulator';
+
+/*global NDEFRecord, NDEFRecordInit*/ // For WebNFC global types
+
+const record = (init: NDEFRecordInit) => new SimulatedNDEFRecord(init) as unknown as NDEFRecord;
+// Records the simulator would refuse to build, as a scanned or imported message may still hold them
+const raw = (fields: Record<string, unknown>) => ({ data: new DataView(new ArrayBuffer(0)), ...fields }) as unknown as NDEFRecord;
+const rules = (records: NDEFRecord[]) => lintMessage(records).map((findings) => findings.map((finding) => `${finding.severity}:${finding.rule}`));
+
+describe('ndefLint', () => {
+  it('finds nothing in a well-formed message', () => {
+    expect(rules([
+      record({ recordType: 'text', data: 'Hallo', lang: 'de-CH' }),
+      record({ recordType: 'url', data: 'https://example.com/a' }),
+      record({ recordType: 'mime', mediaType: 'text/plain; charset="utf-8"', data: new Uint8Array([1]) }),
+      record({ recordType: 'example.com:item', data: new Uint8Array([1]) }),
+    ])).toEqual([[], [], [], []]);
+  });
+
+  it('checks BCP 47 language tags', () => {
+    expect(['en', 'zh-Hant-TW', 'es-419', 'de-CH-1996', 'x-private'].every(isWellFormedLanguageTag)).toBe(true);
+    expect(['english_us', 'e', 'en-', '123'].some(isWellFormedLanguageTag)).toBe(false);
+    expect(rules([raw({ recordType: 'text', lang: 'en_US' }), raw({ recordType: 'text', lang: `en-${'x'.repeat(61)}` })]))
+      .toEqual([['warning:language-tag'], ['error:language-tag']]);
+  });
+
+  it('checks external type names against the RTD rules', () => {
+    expect(externalTypeProblem('example.com:item')).toBeNull();
+    expect(externalTypeProblem('-bad.com:item')).toContain('not a domain name');
+    expect(externalTypeProblem('example.com:')).toContain('no type name');
+    expect(externalTypeProblem('example.com:a b')).toContain('may only hold');
+    expect(externalTypeProblem(`example.com:${'a'.repeat(250)}`)).toContain('longer than 255 bytes');
+    expect(rules([raw({ recordType: 'my app:x' })])).toEqual([['error:external-type']]);
+  });
+
+  it('only allows local types inside another record', () => {
+    expect(rules([raw({ recordType: ':act' })])).toEqual([['error:local-type']]);
+    const poster = record({ recordType: 'smart-poster', data: { records: [{ recordType: 'url', data: 'https://example.com' }, { recordType: ':act', data: new Uint8Array([0]) }] } });
+    expect(rules([poster])).toEqual([[]]);
+  });
+
+  it('checks MIME types and URLs', () => {
+    expect(['image/png', 'application/vnd.wfa.wsc', 'text/plain;charset=utf-8'].every(isValidMediaType)).toBe(true);
+    expect(['image', 'text/plain/x', 'a b/c'].some(isValidMediaType)).toBe(false);
+    expect(rules([
+      raw({ recordType: 'mime', mediaType: 'png' }),
+      raw({ recordType: 'mime', mediaType: '' }),
+      raw({ recordType: 'url' }),
+      record({ recordType: 'url', data: '/relative' }),
+      record({ recordType: 'absolute-url', data: 'not a url' }),
+    ])).toEqual([['error:media-type'], ['warning:media-type'], ['error:empty-url'], ['warning:url'], ['error:url']]);
+  });
+
+  it('flags duplicate ids and text encodings Web NFC cannot write', () => {
+    const findings = lintMessage([
+      record({ recordType: 'text', data: 'A', id: 'one' }),
+      raw({ recordType: 'text', encoding: 'iso-8859-1', id: 'one' }),
+    ]);
+    expect(findings[0]).toEqual([expect.objectContaining({ rule: 'duplicate-id', message: expect.stringContaining('record #2') })]);
+    expect(findings[1].map((finding) => finding.rule)).toEqual(['text-encoding', 'duplicate-id']);
+  });
+
+  it('reports nested findings on the parent and lists errors by record', () => {
+    const box = record({ recordType: 'example.com:box', data: { records: [{ recordType: 'text', data: 'Hi' }, { recordType: 'absolute-url', data: 'nope' }] } });
+    const results = lintMessage([record({ recordType: 'text', data: 'ok' }), box]);
+    expect(results[1]).toEqual([expect.objectContaining({ severity: 'error', message: expect.stringMatching(/^Nested record 2: /) })]);
+    expect(lintErrors(results)).toEqual([expect.stringMatching(/^Record 2: Nested record 2: /)]);
+  });
+});
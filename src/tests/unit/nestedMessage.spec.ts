@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { canHoldNestedMessage, nestedRecordsOf, withNestedRecords } from '../../utils/nestedMessage';
+import { recordToInit } from '../../utils/nfcUtils';
+import { SimulatedNDEFRecord } from '../../services/nfcSimulator';
+
+/*global NDEFRecord, NDEFRecordInit*/ // For WebNFC global types
+
+const record = (init: NDEFRecordInit) => new SimulatedNDEFRecord(init) as unknown as NDEFRecord;
+const decode = (view?: DataView) => new TextDecoder().decode(view);
+
+describe('nestedMessage', () => {
+  it('only looks for nested messages in smart posters, external and local types', () => {
+    expect(['smart-poster', 'example.com:box', ':act'].map(canHoldNestedMessage)).toEqual([true, true, true]);
+    expect(['text', 'url', 'mime', 'unknown'].map(canHoldNestedMessage)).toEqual([false, false, false, false]);
+  });
+
+  it('returns the child records, or null when the payload is not a message', () => {
+    const box = record({ recordType: 'example.com:box', data: { records: [{ recordType: 'text', data: 'Hi' }, { recordType: 'url', data: 'https://a.example' }] } });
+    expect(nestedRecordsOf(box)?.map((child) => child.recordType)).toEqual(['text', 'url']);
+    expect(nestedRecordsOf(record({ recordType: 'example.com:note', data: 'memo' }))).toBeNull();
+    expect(nestedRecordsOf(record({ recordType: 'text', data: 'Hi' }))).toBeNull();
+  });
+
+  it('rebuilds the parent with a changed child list, keeping its type and id', () => {
+    const poster = record({
+      recordType: 'smart-poster',
+      id: 'sp',
+      data: { records: [{ recordType: 'url', data: 'https://a.example' }, { recordType: 'text', data: 'Old', lang: 'en' }] },
+    });
+    const children = nestedRecordsOf(poster)!.map(recordToInit);
+    children.splice(1, 1, { recordType: 'text', data: 'New', lang: 'en' });
+    const init = withNestedRecords(poster, children);
+    expect(init).toMatchObject({ recordType: 'smart-poster', id: 'sp' });
+
+    const rebuilt = nestedRecordsOf(record(init as NDEFRecordInit))!;
+    expect(rebuilt.map((child) => decode(child.data))).toEqual(['https://a.example', 'New']);
+  });
+});
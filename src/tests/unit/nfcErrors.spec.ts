@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { categorizeNfcError, actionableMessage, toNfcError, NfcError } from '../../utils/nfcErrors';
+
+/*global DOMException*/
+
+describe('nfcErrors', () => {
+  it.each([
+    ['NotAllowedError', 'permission-denied'],
+    ['NotSupportedError', 'not-supported'],
+    ['NotReadableError', 'not-readable'],
+    ['NetworkError', 'io-failure'],
+    ['AbortError', 'aborted'],
+    ['InvalidStateError', 'invalid-state'],
+    ['SyntaxError', 'unknown'],
+  ])('should map %s to %s', (name, category) => {
+    expect(categorizeNfcError(new DOMException('x', name))).toBe(category);
+  });
+
+  it('should treat plain errors and non-errors as unknown', () => {
+    expect(categorizeNfcError(new Error('boom'))).toBe('unknown');
+    expect(categorizeNfcError('boom')).toBe('unknown');
+    expect(categorizeNfcError(null)).toBe('unknown');
+  });
+
+  it('should word messages for the operation that failed', () => {
+    expect(actionableMessage('not-supported', 'scan')).toContain('Web NFC is not supported');
+    expect(actionableMessage('not-supported', 'lock')).toContain('cannot be made read-only');
+    expect(actionableMessage('io-failure', 'write')).toContain('try the write again');
+    expect(actionableMessage('unknown', 'scan', 'boom')).toContain('Unexpected error: boom');
+  });
+
+  it('should wrap errors into NfcError with the original name and message', () => {
+    const error = toNfcError(new DOMException('IO failure', 'NetworkError'), 'lock');
+    expect(error).toBeInstanceOf(NfcError);
+    expect(error).toMatchObject({ category: 'io-failure', operation: 'lock', originalName: 'NetworkError', originalMessage: 'IO failure' });
+    expect(error.title).toBe('Lock failed');
+    expect(toNfcError(error, 'scan')).toBe(error);
+    expect(toNfcError('weird', 'write')).toMatchObject({ category: 'unknown', originalName: 'Error', originalMessage: 'weird' });
+  });
+});
@@ -0,0 +1,332 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ref } from 'vue';
+import type { NfcReadingEvent, NFCStatus, ScannedTag, WriteVerifyReport } from '../../@types/app';
+import {
+  SimulatedNDEFRecord,
+  simulatorBackend,
+  virtualTags,
+  simulatorEvents,
+  addVirtualTag,
+  readVirtualTag,
+  eraseVirtualTag,
+  virtualTagUsage,
+  tapVirtualTag,
+  fireReadingError,
+  resetSimulator,
+} from '../../services/nfcSimulator';
+import { setNfcBackend, getNfcBackend, webNfcBackend } from '../../services/nfcBackend';
+import { readNFC, writeNFC } from '../../services/nfcService';
+import { notifications, clearNotifications } from '../../services/notificationService';
+
+/*global NDEFRecord, AbortController*/
+
+vi.spyOn(console, 'log').mockImplementation(() => undefined);
+vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+const decode = (view?: DataView) => new TextDecoder().decode(view);
+
+describe('SimulatedNDEFRecord', () => {
+  it('exposes text records as their text bytes with encoding and language', () => {
+    const record = new SimulatedNDEFRecord({ recordType: 'text', data: 'Hallo', lang: 'de' });
+    expect(decode(record.data)).toBe('Hallo');
+    expect(record.encoding).toBe('utf-8');
+    expect(record.lang).toBe('de');
+  });
+
+  it('requires string data for URL records', () => {
+    expect(() => new SimulatedNDEFRecord({ recordType: 'url', data: new ArrayBuffer(2) })).toThrow(TypeError);
+  });
+
+  it('encodes smart posters as a nested message returned by toRecords()', () => {
+    const record = new SimulatedNDEFRecord({
+      recordType: 'smart-poster',
+      data: { records: [{ recordType: 'url', data: 'https://example.com/' }] },
+    });
+    expect(record.data?.byteLength).toBeGreaterThan(0);
+    const nested = record.toRecords();
+    expect(nested?.map((r) => r.recordType)).toEqual(['url']);
+    expect(decode(nested?.[0].data)).toBe('https://example.com/');
+  });
+
+  it('parses the payload of external records in toRecords() and rejects payloads that are no message', () => {
+    const inner = new SimulatedNDEFRecord({ recordType: 'example.com:box', data: { records: [{ recordType: 'text', data: 'Hi' }] } });
+    const restored = new SimulatedNDEFRecord({ recordType: 'example.com:box', data: inner.data });
+    expect(restored.toRecords()?.map((r) => decode(r.data))).toEqual(['Hi']);
+
+    const plain = new SimulatedNDEFRecord({ recordType: 'example.com:note', data: 'memo' });
+    expect(() => plain.toRecords()).toThrow(expect.objectContaining({ name: 'NotSupportedError' }));
+    expect(new SimulatedNDEFRecord({ recordType: 'text', data: 'Hi' }).toRecords()).toBeNull();
+  });
+});
+
+describe('nfcSimulator', () => {
+  beforeEach(() => {
+    resetSimulator();
+  });
+
+  function startScan() {
+    const reader = simulatorBackend.createReader();
+    const readings: NfcReadingEvent[] = [];
+    reader.onreading = (event) => readings.push(event);
+    const controller = new AbortController();
+    return { reader, readings, controller, scan: reader.scan({ signal: controller.signal }) };
+  }
+
+  it('starts with demo tags', () => {
+    expect(virtualTags.value.length).toBeGreaterThan(0);
+    expect(virtualTags.value.some((tag) => tag.readOnly)).toBe(true);
+  });
+
+  it('delivers the tag content to a scanning reader when a tag is tapped', async () => {
+    const tag = addVirtualTag({ uid: '04:00:00:00:00:00:01', records: [{ recordType: 'text', data: 'hi' }] });
+    const { readings, scan } = startScan();
+    await scan;
+
+    tapVirtualTag(tag.uid);
+
+    expect(readings).toHaveLength(1);
+    expect(readings[0].serialNumber).toBe('04:00:00:00:00:00:01');
+    expect(readings[0].message.records.map((r) => decode(r.data))).toEqual(['hi']);
+    expect(simulatorEvents.value[0].kind).toBe('read');
+  });
+
+  it('stops delivering readings once the scan is aborted', async () => {
+    const tag = addVirtualTag();
+    const { readings, controller, scan } = startScan();
+    await scan;
+    controller.abort();
+
+    tapVirtualTag(tag.uid);
+
+    expect(readings).toHaveLength(0);
+  });
+
+  it('completes a pending write on the next tap, then delivers the new content to scanning readers', async () => {
+    const tag = addVirtualTag({ profileId: 'ntag215' });
+    const { readings, scan } = startScan();
+    await scan;
+    const writer = simulatorBackend.createReader();
+    const write = writer.write({ records: [{ recordType: 'url', data: 'https://example.org/' }] });
+
+    expect(readVirtualTag(tag.uid)).toEqual([]);
+    tapVirtualTag(tag.uid);
+    await expect(write).resolves.toBeUndefined();
+
+    expect(readVirtualTag(tag.uid)).toEqual([{ recordType: 'url', data: 'https://example.org/' }]);
+    expect(readings.map((r) => decode(r.message.records[0].data))).toEqual(['https://example.org/']);
+    expect(simulatorEvents.value.map((e) => e.kind).slice(0, 3)).toEqual(['read', 'write', 'tap']);
+  });
+
+  it('writes to the tapped tag when a reading handler requests a write', async () => {
+    const tag = addVirtualTag({ profileId: 'ntag215' });
+    const reader = simulatorBackend.createReader();
+    const controller = new AbortController();
+    let write: Promise<void> | undefined;
+    reader.onreading = () => {
+      write = reader.write('while in the field');
+    };
+    await reader.scan({ signal: controller.signal });
+
+    tapVirtualTag(tag.uid);
+
+    await expect(write).resolves.toBeUndefined();
+    expect(readVirtualTag(tag.uid)[0].data).toBe('while in the field');
+    controller.abort();
+  });
+
+  it('refuses to overwrite a tag with content when overwrite is false', async () => {
+    const tag = addVirtualTag({ records: [{ recordType: 'text', data: 'keep' }] });
+    const write = simulatorBackend.createReader().write('new', { overwrite: false });
+    tapVirtualTag(tag.uid);
+
+    await expect(write).rejects.toMatchObject({ name: 'NotAllowedError' });
+    expect(readVirtualTag(tag.uid)[0].data).toBe('keep');
+  });
+
+  it('rejects writes to read-only tags and to tags that are too small', async () => {
+    const locked = addVirtualTag({ readOnly: true });
+    const small = addVirtualTag({ profileId: 'ntag210' });
+    const reader = simulatorBackend.createReader();
+
+    const lockedWrite = reader.write('hello');
+    tapVirtualTag(locked.uid);
+    await expect(lockedWrite).rejects.toMatchObject({ name: 'NotSupportedError' });
+
+    const largeWrite = reader.write('x'.repeat(100));
+    tapVirtualTag(small.uid);
+    await expect(largeWrite).rejects.toMatchObject({ name: 'NotSupportedError' });
+    expect(readVirtualTag(small.uid)).toEqual([]);
+    expect(simulatorEvents.value[0].kind).toBe('error');
+  });
+
+  it('rejects a pending write with AbortError when its signal aborts', async () => {
+    const tag = addVirtualTag();
+    const controller = new AbortController();
+    const write = simulatorBackend.createReader().write('late', { signal: controller.signal });
+    controller.abort();
+
+    await expect(write).rejects.toMatchObject({ name: 'AbortError' });
+    tapVirtualTag(tag.uid);
+    expect(readVirtualTag(tag.uid)).toEqual([]);
+  });
+
+  it('makes the tapped tag read-only', async () => {
+    const tag = addVirtualTag();
+    const lock = simulatorBackend.createReader().makeReadOnly();
+    tapVirtualTag(tag.uid);
+
+    await expect(lock).resolves.toBeUndefined();
+    expect(virtualTags.value.find((t) => t.uid === tag.uid)?.readOnly).toBe(true);
+    expect(() => eraseVirtualTag(tag.uid)).toThrow('read-only');
+  });
+
+  it('fires reading errors at scanning readers', async () => {
+    const { reader, scan } = startScan();
+    const onError = vi.fn();
+    reader.onreadingerror = onError;
+    await scan;
+
+    fireReadingError();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports usage against the tag profile capacity', () => {
+    const tag = addVirtualTag({ profileId: 'ntag213', records: [{ recordType: 'text', data: 'abc' }] });
+    const usage = virtualTagUsage(tag.uid);
+    expect(usage.availableBytes).toBe(144);
+    expect(usage.messageBytes).toBe(10); // 3-byte header, type "T", status byte, "en", "abc"
+  });
+
+  describe('as the backend of nfcService', () => {
+    const status = ref<NFCStatus>({ reading: false, writing: false, locking: false, verifying: false });
+    const scannedTag = ref<ScannedTag>({ uuid: '', records: [] });
+
+    beforeEach(() => {
+      status.value = { reading: false, writing: false, locking: false, verifying: false };
+      scannedTag.value = { uuid: '', records: [] };
+      clearNotifications();
+      setNfcBackend(simulatorBackend);
+    });
+
+    afterEach(() => {
+      setNfcBackend(webNfcBackend);
+    });
+
+    it('reads a tapped tag into the editor', async () => {
+      expect(getNfcBackend()).toBe(simulatorBackend);
+      const tag = addVirtualTag({ records: [{ recordType: 'url', data: 'https://example.com/a' }] });
+      await readNFC(status, scannedTag, ref(false), ref(null));
+
+      tapVirtualTag(tag.uid);
+
+      expect(scannedTag.value.uuid).toBe(tag.uid);
+      expect(scannedTag.value.records.map((r) => decode(r.data))).toEqual(['https://example.com/a']);
+      expect(status.value.reading).toBe(false);
+    });
+
+    it('writes to the next tapped tag and maps a refused overwrite', async () => {
+      const blank = addVirtualTag();
+      const record = new SimulatedNDEFRecord({ recordType: 'text', data: 'written' }) as unknown as NDEFRecord;
+
+      const written = writeNFC([record], status);
+      await Promise.resolve();
+      tapVirtualTag(blank.uid);
+      expect(await written).toBe('written');
+      expect(readVirtualTag(blank.uid)[0].data).toBe('written');
+
+      const refused = writeNFC([record], status, undefined, { overwrite: false });
+      await Promise.resolve();
+      tapVirtualTag(blank.uid);
+      expect(await refused).toBe('refused');
+    });
+
+    it('verifies a write by reading the same tag back', async () => {
+      const blank = addVirtualTag();
+      const other = addVirtualTag({ records: [{ recordType: 'text', data: 'other' }] });
+      const record = new SimulatedNDEFRecord({ recordType: 'url', data: 'https://example.com/v' }) as unknown as NDEFRecord;
+      const report = ref<WriteVerifyReport | null>(null);
+
+      const written = writeNFC([record], status, undefined, {}, report);
+      await Promise.resolve();
+      tapVirtualTag(blank.uid);
+      await vi.waitFor(() => expect(status.value.verifying).toBe(true));
+      expect(status.value.writing).toBe(true);
+
+      tapVirtualTag(other.uid); // Ignored: not the written tag
+      await vi.waitFor(() => expect(notifications.value.map((n) => n.title)).toContain('Different tag'));
+      tapVirtualTag(blank.uid);
+
+      expect(await written).toBe('written');
+      expect(report.value).toMatchObject({ status: 'passed', uid: blank.uid });
+      expect(report.value?.records.map((r) => r.passed)).toEqual([true]);
+      expect(status.value).toMatchObject({ writing: false, verifying: false });
+    });
+
+    it('reports a failed verification when the tag reads back differently', async () => {
+      const blank = addVirtualTag();
+      const record = new SimulatedNDEFRecord({ recordType: 'text', data: 'lost' }) as unknown as NDEFRecord;
+      const report = ref<WriteVerifyReport | null>(null);
+
+      const written = writeNFC([record], status, undefined, {}, report);
+      await Promise.resolve();
+      tapVirtualTag(blank.uid);
+      await vi.waitFor(() => expect(status.value.verifying).toBe(true));
+      eraseVirtualTag(blank.uid);
+      tapVirtualTag(blank.uid);
+
+      expect(await written).toBe('written');
+      expect(report.value?.status).toBe('failed');
+      expect(report.value?.records[0]).toMatchObject({ expectedType: 'text', actualType: '', passed: false });
+      expect(notifications.value.map((n) => n.title)).toContain('Verification failed');
+    });
+
+    it('does not pass a read-back tag it cannot match by serial number', async () => {
+      // Readers that miss every reading until told otherwise, so the write's tap reports no serial number
+      let dropReadings = true;
+      const createReader = simulatorBackend.createReader;
+      const spy = vi.spyOn(simulatorBackend, 'createReader').mockImplementation(() => {
+        const reader = createReader();
+        let onreading: ((event: NfcReadingEvent) => void) | null = null;
+        Object.defineProperty(reader, 'onreading', {
+          get: () => onreading && ((event: NfcReadingEvent) => !dropReadings && onreading?.(event)),
+          set: (handler) => (onreading = handler),
+        });
+        return reader;
+      });
+      const blank = addVirtualTag();
+      const other = addVirtualTag();
+      const record = new SimulatedNDEFRecord({ recordType: 'text', data: 'x' }) as unknown as NDEFRecord;
+      const report = ref<WriteVerifyReport | null>(null);
+
+      const written = writeNFC([record], status, undefined, {}, report);
+      await Promise.resolve();
+      tapVirtualTag(blank.uid);
+      await vi.waitFor(() => expect(status.value.verifying).toBe(true));
+      dropReadings = false;
+      tapVirtualTag(other.uid);
+      spy.mockRestore();
+
+      expect(await written).toBe('written');
+      expect(report.value).toMatchObject({ status: 'unverified', uid: other.uid });
+      expect(report.value?.records.map((r) => r.passed)).toEqual([false]);
+      expect(notifications.value.map((n) => n.title)).toContain('Write not verified');
+    });
+
+    it('keeps the write outcome when verification is cancelled', async () => {
+      const blank = addVirtualTag();
+      const record = new SimulatedNDEFRecord({ recordType: 'text', data: 'x' }) as unknown as NDEFRecord;
+      const report = ref<WriteVerifyReport | null>(null);
+      const writeAbortController = ref<AbortController | null>(null);
+
+      const written = writeNFC([record], status, writeAbortController, {}, report);
+      await Promise.resolve();
+      tapVirtualTag(blank.uid);
+      await vi.waitFor(() => expect(status.value.verifying).toBe(true));
+      writeAbortController.value?.abort();
+
+      expect(await written).toBe('written');
+      expect(report.value).toMatchObject({ status: 'cancelled', records: [] });
+    });
+  });
+});
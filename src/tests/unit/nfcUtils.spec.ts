@@ -1,15 +1,19 @@
 import { describe, it, expect } from 'vitest';
 import {
   isNDEFRecordTypeExternal,
-  estimateNdefMessageSize,
+  recordToInit,
   decodeRecord,
+  payloadBytes,
+  recordWithPayload,
   arrayBufferToBase64,
+  encodeBase64,
+  decodeBase64,
   arrayBufferToHexString,
   hexStringToArrayBuffer,
 } from '../../utils/nfcUtils'; 
-import type { NDEFRecordInitCustom } from '../../@types/app'; // For NDEFRecordInit type used in estimateNdefMessageSize
+import { encodeNdefMessage } from '../../utils/ndefCodec';
 
-/*global NDEFRecord, NDEFMessageInit*/ // For NDEFRecord type in decodeRecord and NDEFMessageInit in estimateNdefMessageSize
+/*global NDEFRecord*/ // For NDEFRecord type in decodeRecord and recordToInit
 
 // Mock NDEFRecord type for decodeRecord tests
 interface MockNDEFRecord {
@@ -49,105 +53,31 @@ describe('nfcUtils', () => {
     });
   });
 
-  describe('estimateNdefMessageSize', () => {
+  describe('recordToInit', () => {
     const textEncoder = new TextEncoder();
 
-    it('should estimate size for an empty record', () => {
-      const records: NDEFRecordInitCustom[] = [{ recordType: 'empty' }];
-      expect(estimateNdefMessageSize(records)).toBe(1);
+    it('should decode text payloads back to strings and keep metadata', () => {
+      const record = { recordType: 'text', data: new DataView(textEncoder.encode('Hi').buffer), encoding: 'utf-8', lang: 'en', id: 'a' } as unknown as NDEFRecord;
+      expect(recordToInit(record)).toEqual({ recordType: 'text', data: 'Hi', encoding: 'utf-8', lang: 'en', id: 'a' });
     });
 
-    it('should estimate size for a simple text record', () => {
-      const records: NDEFRecordInitCustom[] = [
-        { recordType: 'text', data: 'Hello', lang: 'en' },
-      ];
-      // TNF/Flags (1) + Type Length (1 for "T") + Payload Length (1 SR) + ID Length (0) + Type ("T", 1) + Payload (Status (1) + 'en'(2) + 'Hello'(5)) = 1+1+1+0+1 + 1+2+5 = 12
-      expect(estimateNdefMessageSize(records)).toBe(12);
-    });
-    
-    it('should estimate size for a text record with an ID', () => {
-        const records: NDEFRecordInitCustom[] = [
-            { recordType: 'text', data: 'Hello', lang: 'en', id: 'my-id' },
-        ];
-        // 12 (from above) + ID Length (1 byte for length of 'my-id') + ID ('my-id', 5 bytes) = 12 + 1 + 5 = 18
-        expect(estimateNdefMessageSize(records)).toBe(18);
-    });
-
-    it('should estimate size for a URL record', () => {
-      const fullUrl = "https://example.com";
-      const records: NDEFRecordInitCustom[] = [{ recordType: 'url', data: fullUrl }];
-      const payloadLength = textEncoder.encode(fullUrl).length;
-      // 1 (TNF) + 1 (TypeLen=1 for "U") + 1 (PayloadLen SR) + 1 (Type='U') + payloadLength
-      expect(estimateNdefMessageSize(records)).toBe(1 + 1 + 1 + 1 + payloadLength);
-    });
-
-    it('should estimate size for an absolute-url record', () => {
-      const urlData = 'ftp://example.com/file';
-      const records: NDEFRecordInitCustom[] = [{ recordType: 'absolute-url', data: urlData }];
-      const typeFieldLength = textEncoder.encode(urlData).length;
-      // TNF (1) + Type Length byte (1) + Payload Length SR byte (1, for empty payload) + Actual Type (typeFieldLength) + Actual Payload (0)
-      expect(estimateNdefMessageSize(records)).toBe(1 + 1 + 1 + typeFieldLength);
-    });
-    
-    it('should estimate size for a mime record', () => {
-        const mediaTypeStr = 'image/png';
-        const payloadData = new ArrayBuffer(100);
-        const records: NDEFRecordInitCustom[] = [
-            { recordType: 'mime', mediaType: mediaTypeStr, data: payloadData },
-        ];
-        const mediaTypeLen = textEncoder.encode(mediaTypeStr).length;
-        const payloadLen = payloadData.byteLength;
-        // TNF(1) + TypeLen(1 for mediaTypeStr length) + PayloadLen(1 SR) + IDLen(0) + ActualType(mediaTypeLen) + Payload(payloadLen)
-        const expectedSize = 1 + 1 + (payloadLen < 256 ? 1:4) + 0 + mediaTypeLen + payloadLen;
-        expect(estimateNdefMessageSize(records)).toBe(expectedSize);
+    it('should respect the DataView window when copying binary payloads', () => {
+      const backing = new Uint8Array([9, 9, 1, 2, 3, 9]).buffer;
+      const record = { recordType: 'mime', mediaType: 'application/octet-stream', data: new DataView(backing, 2, 3) } as unknown as NDEFRecord;
+      const init = recordToInit(record);
+      expect(new Uint8Array(init.data as ArrayBuffer)).toEqual(new Uint8Array([1, 2, 3]));
     });
 
-    it('should estimate size for an external record', () => {
-      const externalType = 'example.com:mytype';
-      const payload = 'payload data';
-      const records: NDEFRecordInitCustom[] = [
-        { recordType: externalType, data: payload },
-      ];
-      const typeLen = textEncoder.encode(externalType).length;
-      const payloadLen = textEncoder.encode(payload).length;
-      // TNF(1) + TypeLen(1 for externalType length) + PayloadLen(1 SR) + IDLen(0) + ActualType(typeLen) + Payload(payloadLen)
-      const expectedSize = 1 + 1 + (payloadLen < 256 ? 1:4) + 0 + typeLen + payloadLen;
-      expect(estimateNdefMessageSize(records)).toBe(expectedSize);
-    });
-    
-    it('should estimate size for a smart-poster record', () => {
-        const nestedRecordsInit: NDEFRecordInitCustom[] = [
-            { recordType: 'url', data: 'https://example.com' },
-            { recordType: 'text', data: 'Title', lang: 'en' }
-        ];
-        // Cast to NDEFMessageInit for the data field of the smart-poster
-        const smartPosterData = { records: nestedRecordsInit as NDEFRecordInit[] } as NDEFMessageInit;
-        const records: NDEFRecordInitCustom[] = [
-            { recordType: 'smart-poster', data: smartPosterData },
-        ];
-        const smartPosterTypeLen = textEncoder.encode("Sp").length; // "Sp" is 2 bytes
-        const nestedMessageSize = estimateNdefMessageSize(nestedRecordsInit, true); // isRecursiveCall = true
-        // TNF(1) + TypeLen(1 for "Sp" length) + PayloadLen(1 SR or 4 LR) + IDLen(0) + ActualType("Sp", 2 bytes) + Payload(nestedMessageSize)
-        const expectedSize = 1 + 1 + (nestedMessageSize < 256 ? 1:4) + 0 + smartPosterTypeLen + nestedMessageSize;
-        expect(estimateNdefMessageSize(records)).toBe(expectedSize);
+    it('should use _smartPosterData for smart posters', () => {
+      const spData = { records: [{ recordType: 'url', data: 'https://sp.com' }] };
+      const record = { recordType: 'smart-poster', data: null, _smartPosterData: spData } as unknown as NDEFRecord;
+      expect(recordToInit(record)).toEqual({ recordType: 'smart-poster', data: spData });
     });
 
-    it('should handle long records (payload > 255 bytes)', () => {
-        const data = 'a'.repeat(300);
-        const records: NDEFRecordInitCustom[] = [{ recordType: 'text', data, lang: 'en' }];
-        const payloadBytes = 1 + textEncoder.encode('en').length + textEncoder.encode(data).length; // Fixed: removed (status)
-        // TNF (1) + TypeLen (1 for "T") + PayloadLen (4 for LR) + IDLen (0) + TypeStr (1 for "T") + payloadBytes
-        const expected = 1 + 1 + 4 + 0 + 1 + payloadBytes;
-        expect(estimateNdefMessageSize(records)).toBe(expected);
-    });
-    
-    it('should handle multiple records', () => {
-        const records: NDEFRecordInitCustom[] = [
-            { recordType: 'text', data: 'Hello', lang: 'en' }, // Size 12
-            { recordType: 'empty' } // Size 1
-        ];
-        const expectedTotalSize = 12 + 1;
-        expect(estimateNdefMessageSize(records)).toEqual(expectedTotalSize); 
+    it('should rebuild the nested message of scanned smart posters from their payload', () => {
+      const nested = encodeNdefMessage([{ recordType: 'url', data: 'https://sp.com' }]);
+      const record = { recordType: 'smart-poster', data: new DataView(nested.buffer) } as unknown as NDEFRecord;
+      expect(recordToInit(record)).toEqual({ recordType: 'smart-poster', data: { records: [{ recordType: 'url', data: 'https://sp.com' }] } });
     });
   });
 
@@ -201,6 +131,36 @@ describe('nfcUtils', () => {
       };
       expect(decodeRecord(mockRecord as NDEFRecord)).toBe('Default encoding');
     });
+
+    it('should decode only the bytes the DataView covers', () => {
+      const mockRecord: MockNDEFRecord = {
+        recordType: 'text',
+        data: new DataView(textEncoder.encode('xxHelloyy').buffer, 2, 5),
+      };
+      expect(decodeRecord(mockRecord as NDEFRecord)).toBe('Hello');
+      expect(Array.from(payloadBytes(mockRecord as NDEFRecord))).toEqual([0x48, 0x65, 0x6c, 0x6c, 0x6f]);
+      expect(payloadBytes({ recordType: 'empty' } as NDEFRecord).byteLength).toBe(0);
+    });
+  });
+
+  describe('recordWithPayload', () => {
+    const bytes = new Uint8Array([0x68, 0x74, 0x74, 0x70, 0x3a, 0x2f, 0x2f, 0x61]); // "http://a"
+
+    it('should keep the record fields and replace the payload bytes', () => {
+      const record = { recordType: 'example.com:t', id: 'x', data: new DataView(new ArrayBuffer(1)) } as unknown as NDEFRecord;
+      const init = recordWithPayload(record, bytes);
+      expect(init).toMatchObject({ recordType: 'example.com:t', id: 'x' });
+      expect(new Uint8Array(init.data as ArrayBuffer)).toEqual(bytes);
+    });
+
+    it('should pass URLs as text and smart posters as a message, and reject bytes that do not fit', () => {
+      expect(recordWithPayload({ recordType: 'url' } as NDEFRecord, bytes).data).toBe('http://a');
+      const message = encodeNdefMessage([{ recordType: 'text', data: 'Hi', lang: 'en' }]);
+      const poster = recordWithPayload({ recordType: 'smart-poster' } as NDEFRecord, message);
+      expect((poster.data as { records: { recordType: string }[] }).records.map((r) => r.recordType)).toEqual(['text']);
+      expect(() => recordWithPayload({ recordType: 'smart-poster' } as NDEFRecord, bytes)).toThrow();
+      expect(() => recordWithPayload({ recordType: 'empty' } as NDEFRecord, bytes)).toThrow('Empty records');
+    });
   });
 
   describe('arrayBufferToBase64', () => {
@@ -224,6 +184,23 @@ describe('nfcUtils', () => {
     });
   });
 
+  describe('encodeBase64 / decodeBase64', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = new Uint8Array([0, 1, 2, 253, 254, 255, 10]);
+      expect(encodeBase64(bytes.buffer)).toBe('AAEC/f7/Cg==');
+      expect(new Uint8Array(decodeBase64('AAEC/f7/Cg=='))).toEqual(bytes);
+    });
+
+    it('should accept URL-safe alphabet, whitespace and missing padding', () => {
+      expect(new Uint8Array(decodeBase64('AAEC_f7_\nCg'))).toEqual(new Uint8Array([0, 1, 2, 253, 254, 255, 10]));
+    });
+
+    it('should reject invalid characters and lengths', () => {
+      expect(() => decodeBase64('AB$C')).toThrow('Invalid base64 character "$"');
+      expect(() => decodeBase64('ABCDE')).toThrow('bad length');
+    });
+  });
+
   describe('arrayBufferToHexString', () => {
     const textEncoder = new TextEncoder();
     it('should convert an ArrayBuffer to a hex string', () => {
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  notifications,
+  notify,
+  notifyError,
+  notifySuccess,
+  notifyWarning,
+  reportNfcError,
+  dismissNotification,
+  clearNotifications,
+  TOAST_DURATIONS,
+} from '../../services/notificationService';
+
+/*global DOMException*/
+
+describe('notificationService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    clearNotifications();
+  });
+
+  afterEach(() => {
+    clearNotifications();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should dismiss toasts after the per-severity duration', () => {
+    notifySuccess('Saved.');
+    notifyWarning('Careful.');
+    expect(notifications.value.map(n => n.message)).toEqual(['Saved.', 'Careful.']);
+
+    vi.advanceTimersByTime(TOAST_DURATIONS.success);
+    expect(notifications.value.map(n => n.message)).toEqual(['Careful.']);
+
+    vi.advanceTimersByTime(TOAST_DURATIONS.warning - TOAST_DURATIONS.success);
+    expect(notifications.value).toHaveLength(0);
+  });
+
+  it('should keep errors as persistent banners until dismissed', () => {
+    const id = notifyError('Broken.', { title: 'Write failed' });
+    vi.advanceTimersByTime(60_000);
+    expect(notifications.value).toEqual([
+      expect.objectContaining({ id, severity: 'error', title: 'Write failed', message: 'Broken.', persistent: true }),
+    ]);
+
+    dismissNotification(id);
+    expect(notifications.value).toHaveLength(0);
+  });
+
+  it('should honour explicit persistence and duration options', () => {
+    notify('warning', 'Stays.', { persistent: true });
+    notify('error', 'Goes.', { persistent: false, durationMs: 100 });
+    vi.advanceTimersByTime(100);
+    expect(notifications.value.map(n => n.message)).toEqual(['Stays.']);
+  });
+
+  it('should log each notification at a matching console level', () => {
+    notifyWarning('Low battery', { title: 'Reader' });
+    expect(console.warn).toHaveBeenCalledWith('[warning] Reader: Low battery');
+    notifyError('Oops');
+    expect(console.error).toHaveBeenCalledWith('[error] Oops');
+  });
+
+  it('should cap the number of notifications kept', () => {
+    for (let i = 0; i < 25; i++) notify('warning', `#${i}`, { persistent: true });
+    expect(notifications.value).toHaveLength(20);
+    expect(notifications.value[0].message).toBe('#5');
+  });
+
+  describe('reportNfcError', () => {
+    it('should show the actionable message for the DOMException category', () => {
+      const error = reportNfcError(new DOMException('denied', 'NotAllowedError'), 'write');
+      expect(error.category).toBe('permission-denied');
+      expect(notifications.value).toEqual([
+        expect.objectContaining({ severity: 'error', title: 'Write failed', message: expect.stringContaining('NFC permission was denied') }),
+      ]);
+    });
+
+    it('should only log aborted operations', () => {
+      const error = reportNfcError(new DOMException('aborted', 'AbortError'), 'scan');
+      expect(error.category).toBe('aborted');
+      expect(notifications.value).toHaveLength(0);
+      expect(console.log).toHaveBeenCalledWith('The scan was cancelled.');
+    });
+  });
+});
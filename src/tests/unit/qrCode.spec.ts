@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { encodeQrCode, qrCodeToSvg, reedSolomonRemainder, byteCapacity, formatBits } from '../../utils/qrCode';
+import type { QrCode } from '../../utils/qrCode';
+
+// The 15 format bits as placed around the top-left finder pattern, bit 0 first
+function readFormatBits(qr: QrCode): number {
+  const positions = [[8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8], [7, 8], [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8]];
+  return positions.reduce((bits, [x, y], i) => bits | (Number(qr.modules[y][x]) << i), 0);
+}
+
+// A 7x7 finder pattern with its top-left module at (x, y)
+function hasFinder(qr: QrCode, x: number, y: number): boolean {
+  for (let dy = 0; dy < 7; dy++) {
+    for (let dx = 0; dx < 7; dx++) {
+      const ring = Math.max(Math.abs(dx - 3), Math.abs(dy - 3));
+      if (qr.modules[y + dy][x + dx] !== (ring !== 2)) return false;
+    }
+  }
+  return true;
+}
+
+describe('qrCode', () => {
+  it('computes Reed-Solomon error correction', () => {
+    // Version 1-M "HELLO WORLD" example from the QR Code tutorial at thonky.com
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+    expect(reedSolomonRemainder(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+
+  it('knows the byte-mode capacity of each version and level', () => {
+    expect(byteCapacity(1, 'L')).toBe(17);
+    expect(byteCapacity(1, 'H')).toBe(7);
+    expect(byteCapacity(10, 'M')).toBe(213);
+    expect(byteCapacity(40, 'L')).toBe(2953);
+    expect(byteCapacity(40, 'H')).toBe(1273);
+  });
+
+  it('picks the smallest version that holds the text', () => {
+    expect(encodeQrCode('a'.repeat(17), 'L')).toMatchObject({ version: 1, size: 21 });
+    expect(encodeQrCode('a'.repeat(18), 'L')).toMatchObject({ version: 2, size: 25 });
+    expect(encodeQrCode('a'.repeat(18), 'H').version).toBe(3);
+    expect(() => encodeQrCode('a'.repeat(1274), 'H')).toThrow('at most 1273 bytes at error correction H');
+  });
+
+  it('draws finder patterns, the dark module and the format bits for the chosen mask', () => {
+    expect(formatBits('L', 0)).toBe(0b111011111000100);
+    expect(formatBits('M', 0)).toBe(0b101010000010010);
+    for (const level of ['L', 'M', 'Q', 'H'] as const) {
+      const qr = encodeQrCode('https://example.com/poster?id=42', level);
+      expect(hasFinder(qr, 0, 0) && hasFinder(qr, qr.size - 7, 0) && hasFinder(qr, 0, qr.size - 7)).toBe(true);
+      expect(qr.modules[qr.size - 8][8]).toBe(true);
+      expect(readFormatBits(qr)).toBe(formatBits(level, qr.mask));
+    }
+  });
+
+  it('adds version information from version 7 on', () => {
+    const qr = encodeQrCode('x'.repeat(120), 'M');
+    expect(qr.version).toBe(7);
+    // Version 7 information is 000111110010010100, bit 0 at the top left of the top-right block
+    const bits = Array.from({ length: 18 }, (_, i) => Number(qr.modules[Math.floor(i / 3)][qr.size - 11 + (i % 3)]));
+    expect(bits.reverse().join('')).toBe('000111110010010100');
+  });
+
+  it('exports an SVG with a quiet zone', () => {
+    const qr = encodeQrCode('Hi', 'M');
+    const svg = qrCodeToSvg(qr);
+    expect(svg).toContain('viewBox="0 0 29 29"');
+    expect(svg).toContain('M4,4h1v1h-1z'); // Top-left module of the finder pattern
+    expect(svg.match(/h1v1h-1z/g)).toHaveLength(qr.modules.flat().filter(Boolean).length);
+  });
+});
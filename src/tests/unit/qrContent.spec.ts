@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { qrContents, wifiQrText } from '../../utils/qrContent';
+import { defaultWifiCredential, wifiCredentialToRecordInit } from '../../utils/wifiCredential';
+import { defaultContact, contactToRecordInit } from '../../utils/vcard';
+import { SimulatedNDEFRecord } from '../../services/nfcSimulator';
+
+/*global NDEFRecord, NDEFRecordInit*/ // For WebNFC global types
+
+const record = (init: NDEFRecordInit) => new SimulatedNDEFRecord(init) as unknown as NDEFRecord;
+
+describe('qrContent', () => {
+  it('writes Wi-Fi networks in the WIFI: format with escaping', () => {
+    const wifi = { ...defaultWifiCredential(), ssid: 'Lab;5G', networkKey: 'a:b\\c' };
+    expect(wifiQrText(wifi)).toBe('WIFI:T:WPA;S:Lab\\;5G;P:a\\:b\\\\c;;');
+    expect(wifiQrText({ ...wifi, ssid: 'Guest', authType: 'open', hidden: true })).toBe('WIFI:T:nopass;S:Guest;H:true;;');
+    expect(wifiQrText({ ...wifi, authType: 'wpa2-enterprise' })).toBeNull();
+  });
+
+  it('turns URL, text, contact, Wi-Fi and smart poster records into QR text', () => {
+    const contents = qrContents([
+      record({ recordType: 'url', data: 'https://example.com/menu' }),
+      record({ recordType: 'text', data: 'Table 12', lang: 'en' }),
+      record(contactToRecordInit({ ...defaultContact(), formattedName: 'Ada Lovelace' })),
+      record(wifiCredentialToRecordInit({ ...defaultWifiCredential(), ssid: 'Cafe', networkKey: 'espresso' })),
+      record({ recordType: 'smart-poster', data: { records: [{ recordType: 'url', data: 'https://example.com/sp' }, { recordType: 'text', data: 'Poster' }] } }),
+    ]);
+    expect(contents.map((content) => content.text?.split('\r\n')[0])).toEqual([
+      'https://example.com/menu',
+      'Table 12',
+      'BEGIN:VCARD',
+      'WIFI:T:WPA;S:Cafe;P:espresso;;',
+      'https://example.com/sp',
+    ]);
+    expect(contents[2].label).toBe('Contact: Ada Lovelace');
+    expect(contents.map((content) => Boolean(content.warning))).toEqual([false, false, false, false, true]);
+  });
+
+  it('warns about records without a QR equivalent', () => {
+    const contents = qrContents([
+      record({ recordType: 'mime', mediaType: 'image/png', data: new Uint8Array([1, 2]) }),
+      record({ recordType: 'example.com:game', data: new Uint8Array([1]) }),
+      record({ recordType: 'empty' }),
+    ]);
+    expect(contents.every((content) => content.text === null)).toBe(true);
+    expect(contents.map((content) => content.warning)).toEqual([
+      expect.stringContaining('Binary MIME data'),
+      expect.stringContaining('"example.com:game" records have no QR equivalent'),
+      expect.stringContaining('Empty records have'),
+    ]);
+  });
+});
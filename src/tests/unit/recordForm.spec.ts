@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { recordToFormState, isTextBasedMediaType } from '../../utils/recordForm';
+import { encodeWifiCredential, WIFI_WSC_MEDIA_TYPE } from '../../utils/wifiCredential';
+import { encodeBluetoothPairing, defaultBluetoothPairing, BT_EP_OOB_MEDIA_TYPE } from '../../utils/bluetoothOob';
+
+/*global NDEFRecord*/ // For WebNFC global types
+
+const textEncoder = new TextEncoder();
+const view = (bytes: Uint8Array) => new DataView(bytes.buffer);
+const asRecord = (rec: object) => rec as unknown as NDEFRecord;
+
+describe('recordForm', () => {
+  describe('recordToFormState', () => {
+    it('should prefill text records with their text, lang and encoding', () => {
+      const state = recordToFormState(asRecord({
+        recordType: 'text', encoding: 'utf-16be', lang: 'de', id: 'greeting', data: view(new Uint8Array([0, 0x48, 0, 0x69])),
+      }));
+      expect(state).toMatchObject({ recordType: 'text', textData: 'Hi', lang: 'de', encoding: 'utf-16', id: 'greeting', notice: '' });
+    });
+
+    it('should decode URLs from the record window, not the whole buffer', () => {
+      const bytes = textEncoder.encode('xxhttps://typo.exmaple.com');
+      const state = recordToFormState(asRecord({ recordType: 'url', data: new DataView(bytes.buffer, 2) }));
+      expect(state).toMatchObject({ recordType: 'url', textData: 'https://typo.exmaple.com' });
+    });
+
+    it('should keep binary MIME payloads as the file buffer and text MIME payloads as text', () => {
+      const png = recordToFormState(asRecord({ recordType: 'mime', mediaType: 'image/png', data: view(new Uint8Array([0x89, 0x50])) }));
+      expect(png.textData).toBe('');
+      expect(new Uint8Array(png.fileArrayBuffer!)).toEqual(new Uint8Array([0x89, 0x50]));
+
+      const json = recordToFormState(asRecord({ recordType: 'mime', mediaType: 'application/json', data: view(textEncoder.encode('{}')) }));
+      expect(json).toMatchObject({ mediaType: 'application/json', textData: '{}', fileArrayBuffer: null });
+    });
+
+    it('should decode Wi-Fi credentials into the Wi-Fi form and fall back to MIME when malformed', () => {
+      const credential = { ssid: 'Lab', authType: 'wpa2-personal', encryptionType: 'aes', networkKey: 'secret123', hidden: false } as const;
+      const state = recordToFormState(asRecord({ recordType: 'mime', mediaType: WIFI_WSC_MEDIA_TYPE, data: view(encodeWifiCredential(credential)) }));
+      expect(state).toMatchObject({ recordType: 'wifi', wifi: { ...credential, macAddress: 'ff:ff:ff:ff:ff:ff' }, notice: '' });
+
+      const broken = recordToFormState(asRecord({ recordType: 'mime', mediaType: WIFI_WSC_MEDIA_TYPE, data: view(new Uint8Array([0x10, 0x0e, 0x00, 0x09])) }));
+      expect(broken.recordType).toBe('mime');
+      expect(broken.notice).not.toBe('');
+    });
+
+    it('should open vCards in the contact form only when no property would be lost', () => {
+      const simple = recordToFormState(asRecord({
+        recordType: 'mime', mediaType: 'text/vcard', data: view(textEncoder.encode('BEGIN:VCARD\r\nVERSION:3.0\r\nFN:Ada\r\nN:;Ada;;;\r\nEND:VCARD\r\n')),
+      }));
+      expect(simple).toMatchObject({ recordType: 'contact', contact: { givenName: 'Ada', formattedName: 'Ada' }, notice: '' });
+
+      const rich = recordToFormState(asRecord({
+        recordType: 'mime', mediaType: 'text/vcard', data: view(textEncoder.encode('BEGIN:VCARD\nFN:Ada\nBDAY:1815-12-10\nPHOTO:x\nEND:VCARD')),
+      }));
+      expect(rich).toMatchObject({ recordType: 'mime', mediaType: 'text/vcard' });
+      expect(rich.textData).toContain('BDAY');
+      expect(rich.notice).toContain('(BDAY, PHOTO)');
+    });
+
+    it('should map smart poster sub-records to poster fields and warn about records it cannot edit', () => {
+      const state = recordToFormState(asRecord({
+        recordType: 'smart-poster',
+        data: null,
+        _smartPosterData: {
+          records: [
+            { recordType: 'url', data: 'https://sp.com' },
+            { recordType: 'text', data: 'Title', lang: 'fr' },
+            { recordType: 'text', data: 'Titel', lang: 'de' },
+            { recordType: ':act', data: new Uint8Array([1]).buffer },
+            { recordType: 'example.com:extra', data: new Uint8Array([0]).buffer },
+          ],
+        },
+      }));
+      expect(state.recordType).toBe('smart-poster');
+      expect(state.smartPoster).toMatchObject({
+        url: 'https://sp.com',
+        titles: [{ lang: 'fr', text: 'Title' }, { lang: 'de', text: 'Titel' }],
+        action: 'save',
+      });
+      expect(state.notice).toContain('1 nested record(s) (example.com:extra)');
+    });
+
+    it('should open Bluetooth pairing records in the Bluetooth form unless fields would be lost', () => {
+      const pairing = { ...defaultBluetoothPairing(), address: '00:11:22:33:44:55', localName: 'Box', classOfDevice: '240414' };
+      const state = recordToFormState(asRecord({ recordType: 'mime', mediaType: BT_EP_OOB_MEDIA_TYPE, data: view(encodeBluetoothPairing(pairing)) }));
+      expect(state).toMatchObject({ recordType: 'bluetooth', bluetooth: pairing, notice: '' });
+
+      // Simple Pairing hash C (EIR type 0x0E) has no form field
+      const withHash = new Uint8Array([0x0c, 0x00, 0x55, 0x44, 0x33, 0x22, 0x11, 0x00, 0x03, 0x0e, 0xaa, 0xbb]);
+      const kept = recordToFormState(asRecord({ recordType: 'mime', mediaType: BT_EP_OOB_MEDIA_TYPE, data: view(withHash) }));
+      expect(kept).toMatchObject({ recordType: 'mime', mediaType: BT_EP_OOB_MEDIA_TYPE });
+      expect(kept.notice).toContain('Simple Pairing hash C');
+    });
+
+    it('should open Android app records in the Android app form', () => {
+      const state = recordToFormState(asRecord({ recordType: 'android.com:pkg', data: view(textEncoder.encode('com.example.app')) }));
+      expect(state).toMatchObject({ recordType: 'android-app', androidPackage: 'com.example.app', externalTypeString: '', notice: '' });
+    });
+
+    it('should map external types to the external form type', () => {
+      const text = recordToFormState(asRecord({ recordType: 'example.com:note', data: view(textEncoder.encode('memo')) }));
+      expect(text).toMatchObject({ recordType: 'external', externalTypeString: 'example.com:note', textData: 'memo', fileArrayBuffer: null });
+
+      const binary = recordToFormState(asRecord({ recordType: 'example.com:blob', data: view(new Uint8Array([0xff, 0xfe, 0x00])) }));
+      expect(binary.textData).toBe('');
+      expect(new Uint8Array(binary.fileArrayBuffer!)).toEqual(new Uint8Array([0xff, 0xfe, 0x00]));
+    });
+
+    it('should show unknown payloads as 0x-prefixed hex', () => {
+      const state = recordToFormState(asRecord({ recordType: 'unknown', data: view(new Uint8Array([1, 0xab])) }));
+      expect(state).toMatchObject({ recordType: 'unknown', textData: '0x01ab' });
+    });
+  });
+
+  it('isTextBasedMediaType should recognise text-like MIME types', () => {
+    expect(isTextBasedMediaType('text/vcard')).toBe(true);
+    expect(isTextBasedMediaType('application/json')).toBe(true);
+    expect(isTextBasedMediaType('image/png')).toBe(false);
+  });
+});
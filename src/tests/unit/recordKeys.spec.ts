@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { reactive } from 'vue';
+import { recordKey } from '../../utils/recordKeys';
+
+/*global NDEFRecord*/ // For WebNFC global types
+
+describe('recordKey', () => {
+  it('should give each record instance its own stable key', () => {
+    const a = { recordType: 'text' } as unknown as NDEFRecord;
+    const b = { recordType: 'text' } as unknown as NDEFRecord;
+    expect(recordKey(a)).toBe(recordKey(a));
+    expect(recordKey(a)).not.toBe(recordKey(b));
+  });
+
+  it('should return the same key for a record and its reactive proxy', () => {
+    const raw = { recordType: 'url' };
+    const list = reactive([{ recordType: 'text' }, raw]) as unknown as NDEFRecord[];
+    expect(list[1]).not.toBe(raw);
+    const key = recordKey(list[1]);
+    list.reverse();
+    expect(recordKey(list[0])).toBe(key);
+    expect(recordKey(raw as unknown as NDEFRecord)).toBe(key);
+  });
+});
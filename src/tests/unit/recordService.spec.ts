@@ -1,20 +1,24 @@
 import { describe, it, expect, vi, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
 import { ref } from 'vue';
 import type { Ref } from 'vue';
-import { handleAddRecord, handleDeleteRecord } from '../../services/recordService'; 
+import { handleAddRecord, handleDeleteRecord, handleUpdateRecord, handleReplaceRecord, handleMoveRecord, handleDuplicateRecord, restoreRecords } from '../../services/recordService'; 
 import type { NDEFRecordInitCustom, ScannedTag } from '../../@types/app'; 
+import { notifications, clearNotifications } from '../../services/notificationService';
 
 /*global NDEFRecord, NDEFMessageInit, TextEncoder */ // TextEncoder for mock NDEFRecord
 
-// Mock NDEFRecord and alert
-const mockAlert = vi.fn();
+// Mock NDEFRecord
+const errorMessages = () => notifications.value.filter(n => n.severity === 'error').map(n => n.message);
 let mockNdefRecordInstance: any; 
 
 const mockNDEFRecordConstructor = vi.fn((payload) => {
   let instanceData: DataView | NDEFMessageInit | undefined;
   // Simulate NDEFRecord data handling for common cases
-  if (payload.data instanceof ArrayBuffer) {
+  // Checked by tag rather than instanceof: buffers copied by the service may come from another realm (jsdom)
+  if (Object.prototype.toString.call(payload.data) === '[object ArrayBuffer]') {
     instanceData = new DataView(payload.data);
+  } else if (ArrayBuffer.isView(payload.data)) {
+    instanceData = new DataView(payload.data.buffer, payload.data.byteOffset, payload.data.byteLength);
   } else if (typeof payload.data === 'string') {
     instanceData = new DataView(new TextEncoder().encode(payload.data).buffer);
   } else if (payload.data && typeof payload.data === 'object' && 'records' in payload.data) { 
@@ -45,12 +49,11 @@ describe('recordService', () => {
 
   beforeAll(() => {
     vi.stubGlobal('NDEFRecord', mockNDEFRecordConstructor);
-    vi.stubGlobal('alert', mockAlert);
   });
 
   beforeEach(() => {
     mockNDEFRecordConstructor.mockClear();
-    mockAlert.mockClear();
+    clearNotifications();
     
     scannedTag = ref<ScannedTag>({ uuid: 'test-uuid', records: [] });
     showAddForm = ref(true); 
@@ -89,7 +92,7 @@ describe('recordService', () => {
       expect(showAddForm.value).toBe(false);
     });
 
-    it('should call alert and not add record if NDEFRecord constructor throws', () => {
+    it('should report an error and not add record if NDEFRecord constructor throws', () => {
       const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {}); 
       mockNDEFRecordConstructor.mockImplementationOnce(() => {
         throw new Error('Test NDEFRecord construction error');
@@ -98,7 +101,7 @@ describe('recordService', () => {
       
       handleAddRecord(recordInit, scannedTag, showAddForm);
 
-      expect(mockAlert).toHaveBeenCalledWith('Error adding record: Test NDEFRecord construction error');
+      expect(errorMessages()).toEqual(['Error adding record: Test NDEFRecord construction error']);
       expect(scannedTag.value.records.length).toBe(0);
       expect(showAddForm.value).toBe(false); 
       errorSpy.mockRestore();
@@ -125,6 +128,134 @@ describe('recordService', () => {
     });
   });
 
+  describe('handleUpdateRecord', () => {
+    beforeEach(() => {
+      scannedTag.value.records = [
+        mockNDEFRecordConstructor({ recordType: 'text', data: 'first' }),
+        mockNDEFRecordConstructor({ recordType: 'url', data: 'https://typo.exmaple.com' }),
+        mockNDEFRecordConstructor({ recordType: 'text', data: 'last' }),
+      ];
+      mockNDEFRecordConstructor.mockClear();
+    });
+
+    it('should replace the record at the same index', () => {
+      handleUpdateRecord(1, { recordType: 'url', data: 'https://typo.example.com' }, scannedTag, showAddForm);
+
+      expect(mockNDEFRecordConstructor).toHaveBeenCalledWith({ recordType: 'url', data: 'https://typo.example.com' });
+      expect(scannedTag.value.records).toHaveLength(3);
+      expect(new TextDecoder().decode(scannedTag.value.records[1].data!)).toBe('https://typo.example.com');
+      expect(new TextDecoder().decode(scannedTag.value.records[2].data!)).toBe('last');
+      expect(showAddForm.value).toBe(false);
+    });
+
+    it('should keep the original record and report an error if the edited record is invalid', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      const original = scannedTag.value.records[1];
+      mockNDEFRecordConstructor.mockImplementationOnce(() => { throw new Error('bad url'); });
+
+      handleUpdateRecord(1, { recordType: 'url', data: '' }, scannedTag, showAddForm);
+
+      expect(errorMessages()).toEqual(['Error updating record: bad url']);
+      expect(scannedTag.value.records[1]).toStrictEqual(original);
+      errorSpy.mockRestore();
+    });
+
+    it('should ignore out-of-range indices', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      handleUpdateRecord(3, { recordType: 'text', data: 'x' }, scannedTag, showAddForm);
+      expect(mockNDEFRecordConstructor).not.toHaveBeenCalled();
+      expect(scannedTag.value.records).toHaveLength(3);
+      expect(warnSpy).toHaveBeenCalledWith('Attempted to update record at invalid index: 3');
+      warnSpy.mockRestore();
+    });
+
+    it('should replace records rebuilt after a nested change without closing the form', () => {
+      showAddForm.value = true;
+      expect(handleReplaceRecord(0, { recordType: 'text', data: 'changed' }, scannedTag)).toBe(true);
+      expect(new TextDecoder().decode(scannedTag.value.records[0].data!)).toBe('changed');
+      expect(showAddForm.value).toBe(true);
+    });
+  });
+
+  describe('handleMoveRecord', () => {
+    beforeEach(() => {
+      scannedTag.value.records = ['a', 'b', 'c', 'd'].map(data => mockNDEFRecordConstructor({ recordType: 'text', id: data, data }));
+    });
+
+    const ids = () => scannedTag.value.records.map(r => r.id);
+
+    it('should move a record down and up, shifting the records in between', () => {
+      handleMoveRecord(0, 2, scannedTag);
+      expect(ids()).toEqual(['b', 'c', 'a', 'd']);
+      handleMoveRecord(3, 0, scannedTag);
+      expect(ids()).toEqual(['d', 'b', 'c', 'a']);
+    });
+
+    it('should ignore invalid positions', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      handleMoveRecord(0, 4, scannedTag);
+      handleMoveRecord(-1, 0, scannedTag);
+      expect(ids()).toEqual(['a', 'b', 'c', 'd']);
+      expect(warnSpy).toHaveBeenCalledTimes(2);
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('handleDuplicateRecord', () => {
+    it('should insert an independent copy directly after the original', () => {
+      scannedTag.value.records = [
+        mockNDEFRecordConstructor({ recordType: 'text', id: 'first', lang: 'en', encoding: 'utf-8', data: 'one' }),
+        mockNDEFRecordConstructor({ recordType: 'url', data: 'https://two.example' }),
+      ];
+      mockNDEFRecordConstructor.mockClear();
+
+      handleDuplicateRecord(0, scannedTag);
+
+      expect(scannedTag.value.records).toHaveLength(3);
+      expect(scannedTag.value.records[2].recordType).toBe('url');
+      const [original, copy] = scannedTag.value.records;
+      expect(copy).not.toBe(original);
+      expect(copy.data).not.toBe(original.data);
+      expect(copy).toMatchObject({ recordType: 'text', id: 'first', lang: 'en', encoding: 'utf-8' });
+      expect(new TextDecoder().decode(copy.data!)).toBe('one');
+    });
+
+    it('should copy the nested message of smart posters', () => {
+      const spData = { records: [{ recordType: 'url', data: 'https://sp.com' }] };
+      scannedTag.value.records = [mockNDEFRecordConstructor({ recordType: 'smart-poster', data: spData })];
+      (scannedTag.value.records[0] as any)._smartPosterData = spData;
+
+      handleDuplicateRecord(0, scannedTag);
+
+      expect((scannedTag.value.records[1] as any)._smartPosterData).toEqual(spData);
+      expect((scannedTag.value.records[1] as any)._smartPosterData).not.toBe(spData);
+    });
+  });
+
+  describe('restoreRecords', () => {
+    it('should rebuild records through the NDEFRecord constructor and report failures by index', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      mockNDEFRecordConstructor.mockImplementationOnce((payload) => ({ ...payload }));
+      mockNDEFRecordConstructor.mockImplementationOnce(() => { throw new Error('bad record'); });
+
+      const { records, failed } = restoreRecords([
+        { recordType: 'url', payload: new TextEncoder().encode('https://a.b').buffer },
+        { recordType: 'mime', mediaType: 'image/png', payload: null },
+      ]);
+
+      expect(mockNDEFRecordConstructor).toHaveBeenNthCalledWith(1, { recordType: 'url', data: 'https://a.b' });
+      expect(records).toHaveLength(1);
+      expect(failed).toEqual([{ index: 1, reason: 'bad record' }]);
+      errorSpy.mockRestore();
+    });
+
+    it('should reattach _smartPosterData to restored smart posters', () => {
+      const spData = { records: [{ recordType: 'url', data: 'https://sp.com' }] };
+      const { records } = restoreRecords([{ recordType: 'smart-poster', payload: null, smartPosterData: spData }]);
+      expect((records[0] as any)._smartPosterData).toEqual(spData);
+    });
+  });
+
   describe('handleDeleteRecord', () => {
     beforeEach(() => {
       // Simulate NDEFRecord instances being created by the mock for consistent testing
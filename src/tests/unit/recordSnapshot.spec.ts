@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { snapshotRecord, snapshotToRecordInit, cloneMessageInit } from '../../utils/recordSnapshot';
+import { encodeNdefMessage } from '../../utils/ndefCodec';
+
+/*global NDEFRecord, NDEFMessageInit*/ // For WebNFC global types
+
+const textEncoder = new TextEncoder();
+
+describe('recordSnapshot', () => {
+  describe('snapshotRecord', () => {
+    it('should copy only the DataView window of the payload', () => {
+      const backing = new Uint8Array([0xff, 0x68, 0x69, 0xff]).buffer;
+      const record = { recordType: 'text', encoding: 'utf-8', lang: 'en', data: new DataView(backing, 1, 2) } as unknown as NDEFRecord;
+      const stored = snapshotRecord(record);
+      expect(new Uint8Array(stored.payload!)).toEqual(new Uint8Array([0x68, 0x69]));
+      expect(stored.payload).not.toBe(backing);
+      expect(stored).toMatchObject({ recordType: 'text', encoding: 'utf-8', lang: 'en' });
+    });
+
+    it('should keep _smartPosterData as a plain deep copy', () => {
+      const spData: NDEFMessageInit = { records: [{ recordType: 'url', data: 'https://sp.com' }, { recordType: 'mime', mediaType: 'image/png', data: new Uint8Array([1, 2]).buffer }] };
+      const record = { recordType: 'smart-poster', data: null, _smartPosterData: spData } as unknown as NDEFRecord;
+      const stored = snapshotRecord(record);
+      expect(stored.payload).toBeNull();
+      expect(stored.smartPosterData).toEqual(spData);
+      expect(stored.smartPosterData!.records[1].data).not.toBe(spData.records[1].data);
+    });
+
+    it('should decode the nested message of a scanned smart poster', () => {
+      const nested = encodeNdefMessage([{ recordType: 'url', data: 'https://scanned.com' }]);
+      const record = { recordType: 'smart-poster', data: new DataView(nested.buffer) } as unknown as NDEFRecord;
+      expect(snapshotRecord(record).smartPosterData).toEqual({ records: [{ recordType: 'url', data: 'https://scanned.com' }] });
+    });
+  });
+
+  describe('snapshotToRecordInit', () => {
+    it('should restore URL records as strings', () => {
+      const init = snapshotToRecordInit({ recordType: 'url', payload: textEncoder.encode('https://a.b').buffer });
+      expect(init).toEqual({ recordType: 'url', data: 'https://a.b' });
+    });
+
+    it('should restore text records as raw bytes with their encoding', () => {
+      const payload = new Uint8Array([0x00, 0x48]).buffer;
+      const init = snapshotToRecordInit({ recordType: 'text', encoding: 'utf-16be', lang: 'de', payload });
+      expect(init.encoding).toBe('utf-16be');
+      expect(init.lang).toBe('de');
+      expect(new Uint8Array(init.data as ArrayBuffer)).toEqual(new Uint8Array([0x00, 0x48]));
+    });
+
+    it('should restore smart posters from smartPosterData or the raw payload', () => {
+      const spData: NDEFMessageInit = { records: [{ recordType: 'url', data: 'https://sp.com' }] };
+      expect(snapshotToRecordInit({ recordType: 'smart-poster', payload: null, smartPosterData: spData }).data).toEqual(spData);
+
+      const raw = encodeNdefMessage(spData.records);
+      expect(snapshotToRecordInit({ recordType: 'smart-poster', payload: raw.buffer as ArrayBuffer }).data).toEqual(spData);
+    });
+
+    it('should restore empty records without data', () => {
+      expect(snapshotToRecordInit({ recordType: 'empty', payload: null })).toEqual({ recordType: 'empty' });
+    });
+  });
+
+  it('cloneMessageInit should copy typed array views into standalone buffers', () => {
+    const view = new Uint8Array([9, 1, 2, 9]).subarray(1, 3);
+    const copy = cloneMessageInit({ records: [{ recordType: 'unknown', data: view }] });
+    expect(new Uint8Array(copy.records[0].data as ArrayBuffer)).toEqual(new Uint8Array([1, 2]));
+  });
+});
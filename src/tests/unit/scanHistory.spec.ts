@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import type { ScanHistoryEntry, StoredRecord } from '../../@types/app';
+import {
+  summarizeRecord,
+  scanHistoryToCsv,
+  scanHistoryToJson,
+  SCAN_HISTORY_FORMAT,
+  SCAN_HISTORY_VERSION,
+} from '../../utils/scanHistory';
+import { encodeWifiCredential, WIFI_WSC_MEDIA_TYPE } from '../../utils/wifiCredential';
+
+const bytes = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+const reading = (id: number, uid: string, records: StoredRecord[]): ScanHistoryEntry => ({
+  id,
+  kind: 'reading',
+  time: Date.UTC(2024, 4, 1, 12, 0, id),
+  uid,
+  records,
+});
+
+describe('summarizeRecord', () => {
+  it('describes text, URL and MIME records', () => {
+    expect(summarizeRecord({ recordType: 'text', lang: 'en', encoding: 'utf-8', payload: bytes('Hello\nworld') })).toBe('text [en]: Hello world');
+    expect(summarizeRecord({ recordType: 'url', payload: bytes('https://example.com') })).toBe('url: https://example.com');
+    expect(summarizeRecord({ recordType: 'mime', mediaType: 'application/json', payload: bytes('{"a":1}') })).toBe('mime application/json: {"a":1}');
+    expect(summarizeRecord({ recordType: 'mime', mediaType: 'image/png', payload: new ArrayBuffer(1204) })).toBe('mime image/png, 1204 bytes');
+    expect(summarizeRecord({ recordType: 'empty', payload: null })).toBe('empty');
+  });
+
+  it('names the contact of vCard records', () => {
+    expect(summarizeRecord({ recordType: 'mime', mediaType: 'text/vcard', payload: bytes('BEGIN:VCARD\nFN:Ada Lovelace\nEND:VCARD') })).toBe('contact: Ada Lovelace');
+    expect(summarizeRecord({ recordType: 'mime', mediaType: 'text/vcard', payload: bytes('FN:Ada') })).toBe('mime text/vcard: FN:Ada');
+  });
+
+  it('names the network of Wi-Fi records without their key', () => {
+    const payload = encodeWifiCredential({ ssid: 'Lab', authType: 'wpa2-personal', encryptionType: 'aes', networkKey: 'secret123', hidden: false });
+    expect(summarizeRecord({ recordType: 'mime', mediaType: WIFI_WSC_MEDIA_TYPE, payload: payload.buffer as ArrayBuffer })).toBe('wifi: Lab (WPA2-Personal)');
+  });
+
+  it('shortens long text and names the URI of smart posters', () => {
+    expect(summarizeRecord({ recordType: 'text', lang: 'en', payload: bytes('x'.repeat(100)) })).toBe(`text [en]: ${'x'.repeat(60)}…`);
+    expect(summarizeRecord({
+      recordType: 'smart-poster',
+      payload: new ArrayBuffer(20),
+      smartPosterData: { records: [{ recordType: 'url', data: 'https://a.b' }, { recordType: 'text', data: 'Title' }] },
+    })).toBe('smart-poster: https://a.b (url, text)');
+  });
+});
+
+describe('scanHistoryToCsv', () => {
+  it('writes a header and one row per entry with CRLF line endings', () => {
+    const csv = scanHistoryToCsv([
+      reading(1, '04:aa', [{ recordType: 'url', payload: bytes('https://a.b') }, { recordType: 'empty', payload: null }]),
+      { id: 2, kind: 'error', time: Date.UTC(2024, 4, 1, 12, 0, 2), uid: '', records: [], error: 'The tag could not be read.' },
+    ]);
+    expect(csv.split('\r\n')).toEqual([
+      'time,kind,uid,record_count,records,error',
+      '2024-05-01T12:00:01.000Z,reading,04:aa,2,url: https://a.b | empty,',
+      '2024-05-01T12:00:02.000Z,error,,0,,The tag could not be read.',
+      '',
+    ]);
+  });
+
+  it('quotes separators and neutralises spreadsheet formulas', () => {
+    const csv = scanHistoryToCsv([
+      reading(1, '04:bb', [{ recordType: 'text', lang: 'en', payload: bytes('a, "b"') }]),
+      reading(2, '04:cc', [{ recordType: 'absolute-url', payload: bytes('=HYPERLINK("x")') }]),
+    ]);
+    const rows = csv.split('\r\n');
+    expect(rows[1]).toContain('"text [en]: a, ""b"""');
+    expect(rows[2]).toContain(`"absolute-url: =HYPERLINK(""x"")"`);
+    expect(scanHistoryToCsv([reading(3, '04:dd', [{ recordType: '-cmd:x', payload: null }])])).toContain(`,"'-cmd:x, 0 bytes",`);
+  });
+});
+
+describe('scanHistoryToJson', () => {
+  it('exports entries oldest first with records in the message export format', () => {
+    const doc = scanHistoryToJson(
+      [reading(1, '04:aa', [{ recordType: 'text', lang: 'en', encoding: 'utf-8', payload: bytes('hi') }])],
+      new Date(Date.UTC(2024, 4, 2))
+    );
+    expect(doc).toEqual({
+      format: SCAN_HISTORY_FORMAT,
+      version: SCAN_HISTORY_VERSION,
+      exportedAt: '2024-05-02T00:00:00.000Z',
+      entries: [{
+        time: '2024-05-01T12:00:01.000Z',
+        kind: 'reading',
+        uid: '04:aa',
+        records: [{ recordType: 'text', lang: 'en', encoding: 'utf-8', text: 'hi' }],
+      }],
+    });
+  });
+});
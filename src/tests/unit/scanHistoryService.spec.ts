@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { scanHistory, addScanReading, addScanError, clearScanHistory, MAX_HISTORY_ENTRIES } from '../../services/scanHistoryService';
+
+/*global NDEFRecord, DataView*/
+
+const record = (text: string) => ({
+  recordType: 'text',
+  lang: 'en',
+  encoding: 'utf-8',
+  data: new DataView(new TextEncoder().encode(text).buffer),
+}) as unknown as NDEFRecord;
+
+describe('scanHistoryService', () => {
+  beforeEach(() => {
+    clearScanHistory();
+  });
+
+  it('keeps readings and errors in order with snapshots of the records', () => {
+    const records = [record('one')];
+    addScanReading('04:aa', records, new Date(1000));
+    addScanError('The tag could not be read.', new Date(2000));
+
+    expect(scanHistory.value.map(e => [e.kind, e.uid, e.time])).toEqual([
+      ['reading', '04:aa', 1000],
+      ['error', '', 2000],
+    ]);
+    expect(new TextDecoder().decode(scanHistory.value[0].records[0].payload as ArrayBuffer)).toBe('one');
+    expect(scanHistory.value[1].error).toBe('The tag could not be read.');
+  });
+
+  it('is not affected when the editor records change later', () => {
+    const records = [record('one')];
+    addScanReading('04:aa', records);
+    records.push(record('two'));
+    expect(scanHistory.value[0].records).toHaveLength(1);
+  });
+
+  it('drops the oldest entries beyond the limit', () => {
+    for (let i = 0; i < MAX_HISTORY_ENTRIES + 2; i++) addScanReading(`uid-${i}`, []);
+    expect(scanHistory.value).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(scanHistory.value[0].uid).toBe('uid-2');
+  });
+
+  it('clears the session', () => {
+    addScanError('x');
+    clearScanHistory();
+    expect(scanHistory.value).toEqual([]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { createShareLink, readShareFragment, withoutShareFragment, MAX_SHARE_MESSAGE_BYTES } from '../../utils/shareLink';
+import { encodeBase64 } from '../../utils/nfcUtils';
+import { SimulatedNDEFRecord } from '../../services/nfcSimulator';
+
+/*global NDEFRecord, NDEFRecordInit, CompressionStream*/ // For WebNFC and Compression Streams global types
+
+const record = (init: NDEFRecordInit) => new SimulatedNDEFRecord(init) as unknown as NDEFRecord;
+const fragment = (link: string) => new URL(link).hash;
+
+// A draft fragment holding `bytes` deflated as they are, for links the editor would not make
+async function draftOf(bytes: Uint8Array): Promise<string> {
+  const compressed = new Uint8Array(await new Response(new Response(bytes).body!.pipeThrough(new CompressionStream('deflate-raw'))).arrayBuffer());
+  return `#draft=1.${encodeBase64(compressed.buffer).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}`;
+}
+
+describe('shareLink', () => {
+  it('round-trips a message through the link fragment', async () => {
+    const link = await createShareLink([
+      record({ recordType: 'text', data: 'Review me', lang: 'en' }),
+      record({ recordType: 'url', data: 'https://example.com/product?id=42' }),
+      record({ recordType: 'mime', mediaType: 'application/octet-stream', data: new Uint8Array([0, 1, 255]) }),
+    ], 'https://editor.example/app/?theme=dark#old');
+
+    expect(link).toMatch(/^https:\/\/editor\.example\/app\/\?theme=dark#draft=1\.[A-Za-z0-9_-]+$/);
+    const entries = await readShareFragment(fragment(link));
+    expect(entries?.map((entry) => entry.init.recordType)).toEqual(['text', 'url', 'mime']);
+    expect(entries?.[0].init).toMatchObject({ data: 'Review me', lang: 'en' });
+    expect(entries?.[1].init.data).toBe('https://example.com/product?id=42');
+  });
+
+  it('ignores fragments without a draft', async () => {
+    expect(await readShareFragment('')).toBeNull();
+    expect(await readShareFragment('#section-2')).toBeNull();
+  });
+
+  it('rejects damaged, foreign and oversized drafts with a reason', async () => {
+    await expect(readShareFragment('#draft=abc')).rejects.toThrow('not in the expected format');
+    await expect(readShareFragment('#draft=2.AAAA')).rejects.toThrow('share format 2');
+    await expect(readShareFragment('#draft=1.AAAA')).rejects.toThrow('does not decompress');
+    await expect(readShareFragment(await draftOf(new Uint8Array([0xd1, 0x01])))).rejects.toThrow();
+    await expect(readShareFragment(await draftOf(new Uint8Array(MAX_SHARE_MESSAGE_BYTES + 1)))).rejects.toThrow(`larger than ${MAX_SHARE_MESSAGE_BYTES} bytes`);
+  });
+
+  it('removes only the draft from the page URL', () => {
+    expect(withoutShareFragment('https://editor.example/app/#draft=1.abc')).toBe('https://editor.example/app/');
+    expect(withoutShareFragment('https://editor.example/app/#draft=1.abc&tab=batch')).toBe('https://editor.example/app/#tab=batch');
+  });
+});
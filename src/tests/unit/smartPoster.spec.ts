@@ -0,0 +1,87 @@
+/*global NDEFMessageInit*/ // For WebNFC global types
+
+import { describe, it, expect } from 'vitest';
+import {
+  defaultSmartPoster,
+  validateSmartPoster,
+  smartPosterToRecordInit,
+  smartPosterFromRecords,
+  pickTitle,
+} from '../../utils/smartPoster';
+import { encodeNdefMessage, decodeNdefMessage } from '../../utils/ndefCodec';
+import { SimulatedNDEFRecord } from '../../services/nfcSimulator';
+import type { SmartPoster } from '../../@types/app';
+
+const icon = new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer;
+const fullPoster = (): SmartPoster => ({
+  url: 'https://example.com/film',
+  titles: [{ lang: 'en', text: 'Trailer' }, { lang: 'de', text: 'Vorschau' }],
+  action: 'save',
+  size: 0x01020304,
+  type: 'video/mp4',
+  icon: { mediaType: 'image/png', data: icon },
+});
+
+describe('smartPoster', () => {
+  it('writes the URL and each filled-in title, skipping empty title rows', () => {
+    const init = smartPosterToRecordInit({ ...defaultSmartPoster(), url: 'https://smart.com', titles: [{ lang: 'de', text: 'Smart Title' }, { lang: 'fr', text: '' }] });
+    expect(init.recordType).toBe('smart-poster');
+    expect((init.data as NDEFMessageInit).records).toEqual([
+      { recordType: 'url', data: 'https://smart.com' },
+      { recordType: 'text', data: 'Smart Title', lang: 'de', encoding: 'utf-8' },
+    ]);
+
+    const urlOnly = smartPosterToRecordInit({ ...defaultSmartPoster(), url: 'https://smart.com' });
+    expect((urlOnly.data as NDEFMessageInit).records).toEqual([{ recordType: 'url', data: 'https://smart.com' }]);
+  });
+
+  it('writes action, size, type and icon as their sub-records', () => {
+    const records = (smartPosterToRecordInit(fullPoster()).data as NDEFMessageInit).records;
+    expect(records.map((record) => record.recordType)).toEqual(['url', 'text', 'text', ':act', ':s', ':t', 'mime']);
+    expect(new Uint8Array(records[3].data as ArrayBuffer)).toEqual(new Uint8Array([1]));
+    expect(new Uint8Array(records[4].data as ArrayBuffer)).toEqual(new Uint8Array([1, 2, 3, 4]));
+    expect(new TextDecoder().decode(records[5].data as ArrayBuffer)).toBe('video/mp4');
+    expect(records[6].mediaType).toBe('image/png');
+  });
+
+  it('reads back every field from stored, decoded and toRecords() records', () => {
+    const init = smartPosterToRecordInit(fullPoster());
+    const nested = (init.data as NDEFMessageInit).records;
+    expect(smartPosterFromRecords(nested)).toEqual({ poster: fullPoster(), unmapped: [] });
+    expect(smartPosterFromRecords(decodeNdefMessage(encodeNdefMessage(nested)))).toEqual({ poster: fullPoster(), unmapped: [] });
+    expect(smartPosterFromRecords(new SimulatedNDEFRecord(init).toRecords()!)).toEqual({ poster: fullPoster(), unmapped: [] });
+  });
+
+  it('reports records the poster fields cannot hold', () => {
+    const { poster, unmapped } = smartPosterFromRecords([
+      { recordType: 'url', data: 'https://a.com' },
+      { recordType: 'url', data: 'https://b.com' },
+      { recordType: 'text', data: 'One', lang: 'en' },
+      { recordType: 'text', data: 'Two', lang: 'EN' },
+      { recordType: ':act', data: new Uint8Array([7]).buffer },
+      { recordType: 'mime', mediaType: 'application/json', data: '{}' },
+    ]);
+    expect(poster).toMatchObject({ url: 'https://a.com', titles: [{ lang: 'en', text: 'One' }], action: '' });
+    expect(unmapped).toEqual(['url', 'text (second "EN" title)', ':act', 'mime (application/json)']);
+  });
+
+  it('explains invalid posters', () => {
+    expect(validateSmartPoster(fullPoster())).toBeNull();
+    expect(validateSmartPoster(defaultSmartPoster())).toContain('Enter the URL');
+    const poster = { ...fullPoster(), titles: [{ lang: 'en', text: 'A' }, { lang: 'EN', text: 'B' }] };
+    expect(validateSmartPoster(poster)).toContain('more than one title in "EN"');
+    expect(validateSmartPoster({ ...fullPoster(), titles: [{ lang: '', text: 'A' }] })).toContain('language tag');
+    expect(validateSmartPoster({ ...fullPoster(), size: 1.5 })).toContain('whole number');
+    expect(validateSmartPoster({ ...fullPoster(), type: 'video' })).toContain('not a MIME type');
+    expect(validateSmartPoster({ ...fullPoster(), icon: { mediaType: 'text/plain', data: icon } })).toContain('image or a video');
+    expect(() => smartPosterToRecordInit(defaultSmartPoster())).toThrow('Enter the URL');
+  });
+
+  it('picks the title in the preferred language', () => {
+    const titles = [{ lang: 'en', text: 'Hello' }, { lang: 'fr-CA', text: 'Bonjour' }];
+    expect(pickTitle(titles, ['fr-FR', 'en'])).toEqual(titles[1]);
+    expect(pickTitle(titles, ['de', 'EN-us'])).toEqual(titles[0]);
+    expect(pickTitle(titles, ['ja'])).toEqual(titles[0]);
+    expect(pickTitle([], ['en'])).toBeNull();
+  });
+});
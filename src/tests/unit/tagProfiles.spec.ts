@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { TAG_PROFILES, DEFAULT_TAG_PROFILE_ID, findTagProfile, storageOverhead, checkCapacity } from '../../utils/tagProfiles';
+
+describe('tagProfiles', () => {
+  it('should have unique ids and a valid default', () => {
+    const ids = TAG_PROFILES.map(p => p.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(findTagProfile(DEFAULT_TAG_PROFILE_ID)?.name).toBe('NTAG213');
+    expect(findTagProfile('nope')).toBeUndefined();
+  });
+
+  it('should count a short or long TLV header for TLV tags and NLEN for Type 4 tags', () => {
+    const ntag216 = findTagProfile('ntag216')!;
+    const type4 = findTagProfile('type4-2k')!;
+    expect(storageOverhead(ntag216, 254)).toBe(2);
+    expect(storageOverhead(ntag216, 255)).toBe(4);
+    expect(storageOverhead(type4, 1000)).toBe(2);
+  });
+
+  it('should report used and available bytes', () => {
+    const ntag215 = findTagProfile('ntag215')!;
+    expect(checkCapacity(ntag215, 500)).toEqual({ messageBytes: 500, usedBytes: 504, availableBytes: 504, fits: true });
+    expect(checkCapacity(ntag215, 501).fits).toBe(false);
+    expect(checkCapacity(findTagProfile('ntag424')!, 254).fits).toBe(true);
+    expect(checkCapacity(findTagProfile('ntag424')!, 255).fits).toBe(false);
+  });
+});
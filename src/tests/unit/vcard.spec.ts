@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import type { Contact } from '../../@types/app';
+import {
+  VCARD_MEDIA_TYPE,
+  buildVCard,
+  parseVCard,
+  contactFromVCard,
+  contactToRecordInit,
+  defaultContact,
+  validateContact,
+  isVCardMediaType,
+  telHref,
+  isWebUrl,
+  vcfFileName,
+} from '../../utils/vcard';
+
+const contact = (overrides: Partial<Contact> = {}): Contact => ({
+  ...defaultContact(),
+  givenName: 'Ada',
+  familyName: 'Lovelace',
+  ...overrides,
+});
+
+describe('buildVCard', () => {
+  it('writes only the filled-in properties with CRLF line endings', () => {
+    expect(buildVCard(contact({ phones: [{ type: 'cell', value: ' +44 20 7946 0000 ' }, { type: '', value: '' }] }))).toBe(
+      'BEGIN:VCARD\r\nVERSION:3.0\r\nFN:Ada Lovelace\r\nN:Lovelace;Ada;;;\r\nTEL;TYPE=cell:+44 20 7946 0000\r\nEND:VCARD\r\n'
+    );
+  });
+
+  it('escapes text values and leaves URLs alone', () => {
+    const text = buildVCard(contact({
+      organization: 'Analytical Engines, Ltd; R&D',
+      url: 'https://example.com/a,b;c',
+      note: 'Line 1\nback\\slash',
+      address: { street: '12 St. James\'s Square', city: 'London', region: '', postalCode: 'SW1Y 4JH', country: 'UK' },
+    }));
+    expect(text).toContain('ORG:Analytical Engines\\, Ltd\\; R&D\r\n');
+    expect(text).toContain('URL:https://example.com/a,b;c\r\n');
+    expect(text).toContain('NOTE:Line 1\\nback\\\\slash\r\n');
+    expect(text).toContain('ADR:;;12 St. James\'s Square;London;;SW1Y 4JH;UK\r\n');
+  });
+
+  it('leaves N out of 4.0 cards without name parts', () => {
+    const text = buildVCard({ ...defaultContact(), version: '4.0', organization: 'ACME' });
+    expect(text).toBe('BEGIN:VCARD\r\nVERSION:4.0\r\nFN:ACME\r\nORG:ACME\r\nEND:VCARD\r\n');
+  });
+
+  it('folds long lines at 75 bytes without splitting characters', () => {
+    const text = buildVCard(contact({ note: 'é'.repeat(60) }));
+    const lines = text.split('\r\n');
+    const encoder = new TextEncoder();
+    expect(lines.every((line) => encoder.encode(line).byteLength <= 75)).toBe(true);
+    expect(lines.filter((line) => line.startsWith(' ')).length).toBeGreaterThan(0);
+    expect(contactFromVCard(parseVCard(text)).contact.note).toBe('é'.repeat(60));
+  });
+
+  it('requires a name or organization and checks emails and URLs', () => {
+    expect(validateContact(contact())).toBeNull();
+    expect(validateContact(defaultContact())).toContain('name or an organization');
+    expect(validateContact(contact({ emails: [{ type: 'work', value: 'not an address' }] }))).toContain('not an email address');
+    expect(validateContact(contact({ url: 'example.com' }))).toContain('full URL');
+    expect(() => buildVCard(defaultContact())).toThrow('name or an organization');
+  });
+});
+
+describe('parseVCard', () => {
+  it('unfolds lines and reads groups, parameters and escapes', () => {
+    const properties = parseVCard([
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      'FN:Grace',
+      '  Hopper',
+      'item1.TEL;TYPE="work,voice";PREF=1:tel:+1-555-0100',
+      'NOTE:a\\, b\\; c\\nd',
+      'END:VCARD',
+    ].join('\r\n'));
+    expect(properties.map((p) => p.name)).toEqual(['VERSION', 'FN', 'TEL', 'NOTE']);
+    expect(properties[1].value).toBe('Grace Hopper');
+    expect(properties[2]).toMatchObject({ group: 'item1', params: { TYPE: ['work', 'voice'], PREF: ['1'] }, value: 'tel:+1-555-0100' });
+    expect(properties[3].value).toBe('a, b; c\nd');
+  });
+
+  it('keeps escaped semicolons inside structured components', () => {
+    const [name] = parseVCard('BEGIN:VCARD\nN:Smith\\;Jones;Jo;;;\nEND:VCARD');
+    expect(name.components).toEqual(['Smith;Jones', 'Jo', '', '', '']);
+  });
+
+  it('reads vCard 2.1 bare parameters as types', () => {
+    const [tel] = parseVCard('BEGIN:VCARD\nVERSION:2.1\nTEL;CELL;VOICE:555\nEND:VCARD').slice(1);
+    expect(tel.params.TYPE).toEqual(['cell', 'voice']);
+  });
+
+  it('reports text without a complete vCard', () => {
+    expect(() => parseVCard('FN:Nobody')).toThrow('BEGIN:VCARD');
+    expect(() => parseVCard('BEGIN:VCARD\nFN:Nobody')).toThrow('END:VCARD');
+  });
+});
+
+describe('contactFromVCard', () => {
+  it('round-trips the contact form fields', () => {
+    const original = contact({
+      version: '4.0',
+      formattedName: 'Countess Lovelace',
+      organization: 'Analytical Engines',
+      phones: [{ type: 'cell', value: '+44 1' }, { type: 'home', value: '+44 2' }],
+      emails: [{ type: 'work', value: 'ada@example.com' }],
+      url: 'https://example.com',
+      address: { street: '1 Main St', city: 'London', region: 'Greater London', postalCode: 'W1', country: 'UK' },
+      note: 'First programmer; mathematician',
+    });
+    expect(contactFromVCard(parseVCard(buildVCard(original)))).toEqual({ contact: original, unmapped: [] });
+  });
+
+  it('strips URI schemes and generic types and returns properties without a field', () => {
+    const { contact: parsed, unmapped } = contactFromVCard(parseVCard(
+      'BEGIN:VCARD\nVERSION:3.0\nFN:X\nTEL;TYPE=voice,work:tel:+1\nEMAIL;TYPE=internet:x@y.z\nBDAY:1815-12-10\nNOTE:one\nNOTE:two\nEND:VCARD'
+    ));
+    expect(parsed.phones).toEqual([{ type: 'work', value: '+1' }]);
+    expect(parsed.emails).toEqual([{ type: '', value: 'x@y.z' }]);
+    expect(parsed.note).toBe('one');
+    expect(unmapped.map((p) => `${p.name}:${p.value}`)).toEqual(['BDAY:1815-12-10', 'NOTE:two']);
+  });
+
+  it('returns names and organizations with parts the form has no field for', () => {
+    const { contact: parsed, unmapped } = contactFromVCard(parseVCard(
+      'BEGIN:VCARD\nVERSION:3.0\nN:Lovelace;Ada;Augusta;Countess;\nORG:Analytical Engines;Research\nEND:VCARD'
+    ));
+    expect(parsed).toMatchObject({ familyName: 'Lovelace', givenName: 'Ada', organization: 'Analytical Engines, Research' });
+    expect(unmapped.map((p) => p.name)).toEqual(['N', 'ORG']);
+  });
+});
+
+describe('vCard helpers', () => {
+  it('builds a text/vcard MIME record init', () => {
+    const init = contactToRecordInit(contact());
+    expect(init).toMatchObject({ recordType: 'mime', mediaType: VCARD_MEDIA_TYPE });
+    expect(new TextDecoder().decode(init.data as ArrayBuffer)).toContain('FN:Ada Lovelace');
+  });
+
+  it('recognizes vCard media types, links and file names', () => {
+    expect(isVCardMediaType('text/x-vcard')).toBe(true);
+    expect(isVCardMediaType('text/vcard; charset=utf-8')).toBe(true);
+    expect(isVCardMediaType('text/plain')).toBe(false);
+    expect(telHref('+1 555 0100')).toBe('tel:+15550100');
+    expect(isWebUrl('javascript:alert(1)')).toBe(false);
+    expect(isWebUrl('https://example.com')).toBe(true);
+    expect(vcfFileName(contact())).toBe('Ada_Lovelace.vcf');
+    expect(vcfFileName({ ...defaultContact(), formattedName: '///' })).toBe('contact.vcf');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import type { WifiCredential } from '../../@types/app';
+import {
+  WIFI_WSC_MEDIA_TYPE,
+  encodeWifiCredential,
+  decodeWifiCredential,
+  validateWifiCredential,
+  wifiCredentialToRecordInit,
+  defaultWifiCredential,
+} from '../../utils/wifiCredential';
+
+const credential = (overrides: Partial<WifiCredential> = {}): WifiCredential => ({
+  ...defaultWifiCredential(),
+  ssid: 'Lab',
+  networkKey: 'secret123',
+  ...overrides,
+});
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+
+describe('wifiCredential', () => {
+  it('encodes a WPA2 network as a WSC configuration token', () => {
+    expect(hex(encodeWifiCredential(credential()))).toBe(
+      '104a000110' + // Version 1.0
+      '100e002f' + // Credential, 47 bytes
+        '1026000101' + // Network Index
+        '10450003' + '4c6162' + // SSID "Lab"
+        '100300020020' + // WPA2-Personal
+        '100f00020008' + // AES
+        '10270009' + '736563726574313233' + // Network Key "secret123"
+        '10200006ffffffffffff' + // Any access point
+      '1049000600372a000120' // WFA vendor extension, Version2 = 2.0
+    );
+  });
+
+  it('round-trips through the record init and the decoder', () => {
+    const original = credential({ ssid: 'Café Gäste', authType: 'wpa-wpa2-personal', encryptionType: 'aes-tkip', macAddress: '00:11:22:33:44:55' });
+    const init = wifiCredentialToRecordInit(original);
+    expect(init).toMatchObject({ recordType: 'mime', mediaType: WIFI_WSC_MEDIA_TYPE });
+    expect(decodeWifiCredential(init.data as ArrayBuffer)).toEqual(original);
+  });
+
+  it('decodes open networks without a key', () => {
+    const open = credential({ authType: 'open', encryptionType: 'none', networkKey: '' });
+    expect(decodeWifiCredential(encodeWifiCredential(open))).toMatchObject({ authType: 'open', encryptionType: 'none', networkKey: '' });
+  });
+
+  it('validates the SSID and the key for the chosen security', () => {
+    expect(validateWifiCredential(credential())).toBeNull();
+    expect(validateWifiCredential(credential({ ssid: '' }))).toContain('SSID');
+    expect(validateWifiCredential(credential({ ssid: 'x'.repeat(33) }))).toContain('SSID');
+    expect(validateWifiCredential(credential({ networkKey: 'short' }))).toContain('WPA passphrase');
+    expect(validateWifiCredential(credential({ networkKey: 'a'.repeat(64) }))).toBeNull();
+    expect(validateWifiCredential(credential({ authType: 'shared', encryptionType: 'wep', networkKey: '0123456789' }))).toBeNull();
+    expect(validateWifiCredential(credential({ authType: 'shared', encryptionType: 'wep', networkKey: 'abcdef' }))).toContain('WEP');
+    expect(() => encodeWifiCredential(credential({ ssid: '' }))).toThrow('SSID');
+  });
+
+  it('reports payloads without a credential or with truncated attributes', () => {
+    expect(() => decodeWifiCredential(new Uint8Array([0x10, 0x4a, 0x00, 0x01, 0x10]))).toThrow('no Wi-Fi credential');
+    expect(() => decodeWifiCredential(new Uint8Array([0x10, 0x0e, 0x00, 0x09, 0x10]))).toThrow('longer than the payload');
+  });
+});
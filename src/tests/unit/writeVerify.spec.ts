@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { compareWrittenRecords, describeBytes } from '../../utils/writeVerify';
+import { SimulatedNDEFRecord } from '../../services/nfcSimulator';
+
+/*global NDEFRecord, NDEFRecordInit*/
+
+// Records as a reading reports them.
+const read = (...inits: NDEFRecordInit[]) => inits.map((init) => new SimulatedNDEFRecord(init) as unknown as NDEFRecord);
+
+describe('writeVerify', () => {
+  it('passes records that read back as written, applying the reader defaults', () => {
+    const sent: NDEFRecordInit[] = [
+      { recordType: 'text', data: 'Hello' },
+      { recordType: 'url', data: 'https://example.com/' },
+      { recordType: 'mime', data: new Uint8Array([1, 2, 3]).buffer },
+      { recordType: 'smart-poster', data: { records: [{ recordType: 'url', data: 'https://example.com/' }] } },
+    ];
+    const results = compareWrittenRecords(sent, read(
+      { recordType: 'text', data: 'Hello', lang: 'en', encoding: 'utf-8' },
+      { recordType: 'url', data: 'https://example.com/' },
+      { recordType: 'mime', mediaType: 'application/octet-stream', data: new Uint8Array([1, 2, 3]).buffer },
+      { recordType: 'smart-poster', data: { records: [{ recordType: 'url', data: 'https://example.com/' }] } },
+    ));
+    expect(results.map((r) => r.passed)).toEqual([true, true, true, true]);
+  });
+
+  it('reports each differing field and the first differing payload byte', () => {
+    const [result] = compareWrittenRecords(
+      [{ recordType: 'text', data: 'Hello', lang: 'de', id: 'a' }],
+      read({ recordType: 'text', data: 'Help!', lang: 'en' }),
+    );
+    expect(result.passed).toBe(false);
+    expect(result.mismatches).toEqual([
+      { field: 'id', expected: '"a"', actual: '""' },
+      { field: 'lang', expected: '"de"', actual: '"en"' },
+      { field: 'payload', expected: '5 bytes: "Hello"', actual: '5 bytes: "Help!"', offset: 3 },
+    ]);
+  });
+
+  it('fails records missing from the tag and extra records found on it', () => {
+    const missing = compareWrittenRecords([{ recordType: 'url', data: 'https://a.test/' }, { recordType: 'empty' }], read({ recordType: 'url', data: 'https://a.test/' }));
+    expect(missing[1]).toMatchObject({ expectedType: 'empty', actualType: '', passed: false });
+    expect(missing[1].mismatches[0]).toMatchObject({ field: 'recordType', actual: 'no record' });
+
+    const extra = compareWrittenRecords([], read({ recordType: 'empty' }));
+    expect(extra[0]).toMatchObject({ expectedType: '', actualType: 'empty', passed: false });
+  });
+
+  it('describes text payloads as text and binary payloads as hex', () => {
+    expect(describeBytes(new Uint8Array(0))).toBe('0 bytes');
+    expect(describeBytes(new TextEncoder().encode('hi'))).toBe('2 bytes: "hi"');
+    expect(describeBytes(new Uint8Array(20).fill(0xab))).toBe(`20 bytes: ${Array(16).fill('ab').join(' ')} …`);
+  });
+});
@@ -0,0 +1,66 @@
+// src/utils/androidAppRecord.ts
+/*global NDEFRecordInit*/ // WebNFC global types
+
+// Android Application Records (AAR): an external record of type "android.com:pkg" whose payload
+// is a package name. Android opens that app for the tag (or its Play Store page if it is not
+// installed), wherever the AAR is in the message. The intent itself is still built from the first
+// record, so the AAR belongs at the end, after the content the app should receive.
+
+export const AAR_RECORD_TYPE = "android.com:pkg";
+
+// Minimal shape shared by NDEFRecord, NDEFRecordInit and StoredRecord.
+interface RecordLike {
+  recordType: string;
+}
+
+export function isAndroidAppRecord(record: RecordLike): boolean {
+  return record.recordType === AAR_RECORD_TYPE;
+}
+
+// Returns why the package name is not valid, or null if it is. Android requires at least two
+// dot-separated segments, each starting with a letter and holding only letters, digits and "_".
+export function validatePackageName(packageName: string): string | null {
+  if (!packageName) return "Enter the package name of the app, e.g. com.example.app.";
+  const segments = packageName.split(".");
+  if (segments.length < 2) return `"${packageName}" needs at least two segments separated by dots, e.g. com.example.app.`;
+  const bad = segments.find((segment) => !/^[A-Za-z][A-Za-z0-9_]*$/.test(segment));
+  if (bad !== undefined) {
+    return bad
+      ? `"${bad}" is not a valid package name segment: it must start with a letter and hold only letters, digits and "_".`
+      : `"${packageName}" has an empty segment.`;
+  }
+  return null;
+}
+
+const textEncoder = new TextEncoder();
+
+// The record init for an AAR, ready for createRecord() or writing.
+export function androidAppRecordInit(packageName: string): NDEFRecordInit {
+  const bytes = textEncoder.encode(packageName);
+  return { recordType: AAR_RECORD_TYPE, data: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) };
+}
+
+export function decodePackageName(data: ArrayBuffer | ArrayBufferView | null | undefined): string {
+  if (!data) return "";
+  const bytes = ArrayBuffer.isView(data) ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength) : new Uint8Array(data);
+  return new TextDecoder("utf-8").decode(bytes);
+}
+
+export function playStoreUrl(packageName: string): string {
+  return `https://play.google.com/store/apps/details?id=${encodeURIComponent(packageName)}`;
+}
+
+// Warnings about where the message's AARs are: more than one, or one before other records.
+export function aarPlacementWarnings(records: readonly RecordLike[]): string[] {
+  const positions = records.flatMap((record, index) => (isAndroidAppRecord(record) ? [index] : []));
+  const warnings: string[] = [];
+  if (positions.length > 1) {
+    warnings.push(`The message has ${positions.length} Android app records (#${positions.map((index) => index + 1).join(", #")}). Android opens the first of these apps that is installed; keep only one unless that is intended.`);
+  }
+  // AARs followed only by other AARs count as last
+  const early = positions.filter((position) => records.slice(position + 1).some((record) => !isAndroidAppRecord(record)));
+  if (early.length) {
+    warnings.push(`The Android app record (#${early.map((index) => index + 1).join(", #")}) is not the last record. Android builds the intent from the first record, so move the AAR to the end, after the content.`);
+  }
+  return warnings;
+}
@@ -0,0 +1,87 @@
+// src/utils/batchTemplate.ts
+/*global NDEFRecordInit, NDEFMessageInit*/ // WebNFC global types
+
+// Record templates for batch provisioning. Placeholders look like {{column}} and are replaced
+// by the value of that CSV column (case-insensitive); {{counter}} is the running number of the
+// row and {{counter:4}} pads it to 4 digits. Placeholders are filled in string data, record IDs
+// and any payload that is valid UTF-8 (text, URLs, text-based MIME and external records), also
+// inside smart posters. Other binary payloads are written unchanged.
+
+export const COUNTER_PLACEHOLDER = "counter";
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_.-]+)(?::(\d{1,2}))?\s*\}\}/g;
+
+const utf8Decoder = new TextDecoder("utf-8", { fatal: true, ignoreBOM: true });
+const textEncoder = new TextEncoder();
+
+function isMessageInit(data: unknown): data is NDEFMessageInit {
+  return !!data && typeof data === "object" && "records" in (data as object);
+}
+
+// Payload text a placeholder could appear in, or null if the payload is not UTF-8 text.
+function templateText(data: NDEFRecordInit["data"]): string | null {
+  if (typeof data === "string") return data;
+  if (!data || isMessageInit(data)) return null;
+  const bytes = ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data as ArrayBuffer);
+  try {
+    return utf8Decoder.decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+function collectPlaceholders(text: string, names: Set<string>): void {
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) names.add(match[1].toLowerCase());
+}
+
+// Lower-cased names of all placeholders used in the records, in order of first use.
+export function findPlaceholders(records: readonly NDEFRecordInit[]): string[] {
+  const names = new Set<string>();
+  const visit = (record: NDEFRecordInit) => {
+    if (record.id) collectPlaceholders(record.id, names);
+    if (isMessageInit(record.data)) {
+      record.data.records.forEach(visit);
+      return;
+    }
+    const text = templateText(record.data);
+    if (text !== null) collectPlaceholders(text, names);
+  };
+  records.forEach(visit);
+  return [...names];
+}
+
+// Replaces the placeholders in one string. `values` must be keyed by lower-cased column name.
+// Throws if a placeholder has no value.
+export function fillPlaceholders(text: string, values: Record<string, string>, counter: number): string {
+  return text.replace(PLACEHOLDER_PATTERN, (_match, rawName: string, width?: string) => {
+    const name = rawName.toLowerCase();
+    if (name === COUNTER_PLACEHOLDER && !(name in values)) {
+      return width ? String(counter).padStart(Number(width), "0") : String(counter);
+    }
+    if (!(name in values)) throw new Error(`No value for placeholder {{${rawName}}}.`);
+    return values[name];
+  });
+}
+
+// Returns a filled copy of the template records. The template itself is not modified.
+export function fillTemplate(records: readonly NDEFRecordInit[], values: Record<string, string>, counter: number): NDEFRecordInit[] {
+  const fill = (record: NDEFRecordInit): NDEFRecordInit => {
+    const copy: NDEFRecordInit = { ...record };
+    if (record.id) copy.id = fillPlaceholders(record.id, values, counter);
+    if (isMessageInit(record.data)) {
+      copy.data = { records: record.data.records.map(fill) };
+    } else if (typeof record.data === "string") {
+      copy.data = fillPlaceholders(record.data, values, counter);
+    } else {
+      const text = templateText(record.data);
+      if (text !== null && text.includes("{{")) {
+        const filled = textEncoder.encode(fillPlaceholders(text, values, counter));
+        copy.data = filled.buffer.slice(filled.byteOffset, filled.byteOffset + filled.byteLength);
+      }
+    }
+    return copy;
+  };
+  return records.map(fill);
+}
@@ -0,0 +1,390 @@
+// src/utils/bluetoothOob.ts
+/*global NDEFRecordInit*/ // WebNFC global types
+import type { BluetoothLeRole, BluetoothOobField, BluetoothPairing, BluetoothTransport } from '../@types/app';
+import { encodeNdefMessage, decodeNdefMessage } from './ndefCodec';
+import { arrayBufferToHexString } from './nfcUtils';
+
+// Bluetooth out-of-band pairing records (NFC Forum Bluetooth Secure Simple Pairing, version 1.2).
+//
+//   application/vnd.bluetooth.ep.oob (BR/EDR): 2-byte OOB data length (little-endian, counting
+//     itself), the 6-byte device address (little-endian), then EIR structures.
+//   application/vnd.bluetooth.le.oob (LE): AD structures only; the address is an AD structure.
+//
+// EIR and AD structures share one layout: a length byte (type plus data), a type byte, the data.
+// Multi-byte values are little-endian throughout.
+//
+// A phone pairs from a bare record as well as from a Handover Select message, where an "Hs"
+// record lists the carrier and the pairing record follows it. Web NFC only accepts local record
+// types such as "Hs" inside another record, so the wrapped message cannot be written from the
+// browser; buildHandoverSelectMessage() produces it as raw bytes instead.
+
+export const BT_EP_OOB_MEDIA_TYPE = "application/vnd.bluetooth.ep.oob";
+export const BT_LE_OOB_MEDIA_TYPE = "application/vnd.bluetooth.le.oob";
+
+const EIR_FLAGS = 0x01;
+const EIR_SHORT_NAME = 0x08;
+const EIR_COMPLETE_NAME = 0x09;
+const EIR_CLASS_OF_DEVICE = 0x0d;
+const AD_LE_ADDRESS = 0x1b;
+const AD_LE_ROLE = 0x1c;
+
+export const BLUETOOTH_LE_ROLES: Record<BluetoothLeRole, { code: number; label: string }> = {
+  peripheral: { code: 0x00, label: "Peripheral only" },
+  central: { code: 0x01, label: "Central only" },
+  "peripheral-preferred": { code: 0x02, label: "Peripheral and central, peripheral preferred" },
+  "central-preferred": { code: 0x03, label: "Peripheral and central, central preferred" },
+};
+
+// Common device classes offered by the form.
+export const CLASS_OF_DEVICE_PRESETS: { value: string; label: string }[] = [
+  { value: "240414", label: "Loudspeaker" },
+  { value: "240418", label: "Headphones" },
+  { value: "200404", label: "Wearable headset" },
+  { value: "240420", label: "Car audio" },
+  { value: "240428", label: "HiFi audio device" },
+];
+
+export function isBluetoothOobMediaType(mediaType: string | undefined): mediaType is string {
+  return mediaType === BT_EP_OOB_MEDIA_TYPE || mediaType === BT_LE_OOB_MEDIA_TYPE;
+}
+
+export function defaultBluetoothPairing(): BluetoothPairing {
+  return { transport: "br-edr", address: "", addressType: "public", localName: "", classOfDevice: "", leRole: "peripheral" };
+}
+
+const textEncoder = new TextEncoder();
+
+function parseAddress(address: string): number[] | null {
+  const hex = address.trim().replace(/[:-]/g, "");
+  if (!/^[0-9a-f]{12}$/i.test(hex)) return null;
+  return Array.from({ length: 6 }, (_, i) => parseInt(hex.slice(i * 2, i * 2 + 2), 16));
+}
+
+function parseClassOfDevice(text: string): number | null {
+  const hex = text.trim().replace(/^0x/i, "");
+  return /^[0-9a-f]{6}$/i.test(hex) ? parseInt(hex, 16) : null;
+}
+
+// Returns why the pairing data cannot be written, or null if it is valid.
+export function validateBluetoothPairing(pairing: BluetoothPairing): string | null {
+  if (!parseAddress(pairing.address)) return "The device address must be 6 bytes in hex, e.g. 00:11:22:33:44:55.";
+  if (textEncoder.encode(pairing.localName).byteLength > 240) return "The device name must be at most 240 bytes.";
+  if (pairing.transport === "br-edr" && pairing.classOfDevice.trim() && parseClassOfDevice(pairing.classOfDevice) === null) {
+    return "The class of device must be 6 hex digits, e.g. 240414.";
+  }
+  return null;
+}
+
+function structure(type: number, data: ArrayLike<number>): number[] {
+  return [data.length + 1, type, ...Array.from(data)];
+}
+
+// Builds the pairing record payload. Throws if the pairing data is not valid.
+export function encodeBluetoothPairing(pairing: BluetoothPairing): Uint8Array {
+  const problem = validateBluetoothPairing(pairing);
+  if (problem) throw new Error(problem);
+  const address = (parseAddress(pairing.address) ?? []).reverse(); // Checked above; little-endian on the air
+  const name = pairing.localName ? structure(EIR_COMPLETE_NAME, textEncoder.encode(pairing.localName)) : [];
+
+  if (pairing.transport === "le") {
+    return new Uint8Array([
+      ...structure(AD_LE_ADDRESS, [...address, pairing.addressType === "random" ? 0x01 : 0x00]),
+      ...structure(AD_LE_ROLE, [BLUETOOTH_LE_ROLES[pairing.leRole].code]),
+      ...name,
+    ]);
+  }
+  const classOfDevice = parseClassOfDevice(pairing.classOfDevice);
+  const eir = [
+    ...name,
+    ...(classOfDevice === null ? [] : structure(EIR_CLASS_OF_DEVICE, [classOfDevice & 0xff, (classOfDevice >> 8) & 0xff, classOfDevice >> 16])),
+  ];
+  const length = 2 + address.length + eir.length;
+  return new Uint8Array([length & 0xff, length >> 8, ...address, ...eir]);
+}
+
+// The record init for pairing data, ready for createRecord() or writing.
+export function bluetoothPairingToRecordInit(pairing: BluetoothPairing): NDEFRecordInit {
+  const bytes = encodeBluetoothPairing(pairing);
+  return {
+    recordType: "mime",
+    mediaType: pairing.transport === "le" ? BT_LE_OOB_MEDIA_TYPE : BT_EP_OOB_MEDIA_TYPE,
+    data: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength),
+  };
+}
+
+// --- Decoding ---
+
+function toBytes(data: ArrayBuffer | ArrayBufferView): Uint8Array {
+  return ArrayBuffer.isView(data) ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength) : new Uint8Array(data);
+}
+
+function hex(bytes: Uint8Array): string {
+  return arrayBufferToHexString(bytes.slice().buffer);
+}
+
+// Formats a little-endian address most significant byte first.
+function formatAddress(bytes: Uint8Array): string {
+  return Array.from(bytes).reverse().map((byte) => byte.toString(16).padStart(2, "0").toUpperCase()).join(":");
+}
+
+function littleEndian(bytes: Uint8Array): number {
+  return bytes.reduceRight((value, byte) => value * 256 + byte, 0);
+}
+
+const FLAG_NAMES = [
+  "LE Limited Discoverable",
+  "LE General Discoverable",
+  "BR/EDR Not Supported",
+  "LE and BR/EDR Controller",
+  "LE and BR/EDR Host",
+];
+
+const SERVICE_UUID_NAMES: Record<number, string> = {
+  0x1108: "Headset",
+  0x110a: "Audio Source",
+  0x110b: "Audio Sink",
+  0x110c: "A/V Remote Control Target",
+  0x110e: "A/V Remote Control",
+  0x111e: "Handsfree",
+  0x1124: "Human Interface Device",
+  0x180f: "Battery Service",
+  0x1812: "HID over GATT",
+};
+
+const MAJOR_DEVICE_CLASSES: Record<number, string> = {
+  0: "Miscellaneous",
+  1: "Computer",
+  2: "Phone",
+  3: "LAN/Network Access Point",
+  4: "Audio/Video",
+  5: "Peripheral",
+  6: "Imaging",
+  7: "Wearable",
+  8: "Toy",
+  9: "Health",
+  31: "Uncategorized",
+};
+
+const AUDIO_VIDEO_MINOR_CLASSES: Record<number, string> = {
+  1: "Wearable Headset",
+  2: "Hands-free Device",
+  4: "Microphone",
+  5: "Loudspeaker",
+  6: "Headphones",
+  7: "Portable Audio",
+  8: "Car Audio",
+  9: "Set-top Box",
+  10: "HiFi Audio Device",
+  11: "VCR",
+  12: "Video Camera",
+  13: "Camcorder",
+  14: "Video Monitor",
+  15: "Video Display and Loudspeaker",
+  16: "Video Conferencing",
+  18: "Gaming/Toy",
+};
+
+const SERVICE_CLASS_BITS: [number, string][] = [
+  [13, "Limited Discoverable"],
+  [16, "Positioning"],
+  [17, "Networking"],
+  [18, "Rendering"],
+  [19, "Capturing"],
+  [20, "Object Transfer"],
+  [21, "Audio"],
+  [22, "Telephony"],
+  [23, "Information"],
+];
+
+export function describeClassOfDevice(value: number): string {
+  const major = (value >> 8) & 0x1f;
+  const minor = (value >> 2) & 0x3f;
+  let device = MAJOR_DEVICE_CLASSES[major] ?? `Major class ${major}`;
+  if (major === 4 && AUDIO_VIDEO_MINOR_CLASSES[minor]) device += `: ${AUDIO_VIDEO_MINOR_CLASSES[minor]}`;
+  const services = SERVICE_CLASS_BITS.filter(([bit]) => value & (1 << bit)).map(([, name]) => name);
+  const code = `0x${value.toString(16).padStart(6, "0")}`;
+  return services.length ? `${code} (${device}; services: ${services.join(", ")})` : `${code} (${device})`;
+}
+
+function uuidList(data: Uint8Array, size: number): string {
+  const uuids: string[] = [];
+  for (let i = 0; i + size <= data.byteLength; i += size) {
+    const chunk = data.subarray(i, i + size);
+    if (size === 16) {
+      const h = Array.from(chunk).reverse().map((byte) => byte.toString(16).padStart(2, "0")).join("");
+      uuids.push(`${h.slice(0, 8)}-${h.slice(8, 12)}-${h.slice(12, 16)}-${h.slice(16, 20)}-${h.slice(20)}`);
+    } else {
+      const value = littleEndian(chunk);
+      const name = SERVICE_UUID_NAMES[value];
+      uuids.push(`0x${value.toString(16).padStart(size * 2, "0")}${name ? ` (${name})` : ""}`);
+    }
+  }
+  return uuids.join(", ");
+}
+
+function describeStructure(type: number, data: Uint8Array): BluetoothOobField {
+  const field = (name: string, value: string) => ({ type, name, value });
+  switch (type) {
+    case EIR_FLAGS:
+      return field("Flags", FLAG_NAMES.filter((_, bit) => data[0] & (1 << bit)).join(", ") || "none");
+    case 0x02:
+    case 0x03:
+      return field(`16-bit service UUIDs (${type === 0x03 ? "complete" : "incomplete"})`, uuidList(data, 2));
+    case 0x04:
+    case 0x05:
+      return field(`32-bit service UUIDs (${type === 0x05 ? "complete" : "incomplete"})`, uuidList(data, 4));
+    case 0x06:
+    case 0x07:
+      return field(`128-bit service UUIDs (${type === 0x07 ? "complete" : "incomplete"})`, uuidList(data, 16));
+    case EIR_SHORT_NAME:
+      return field("Shortened local name", new TextDecoder("utf-8").decode(data));
+    case EIR_COMPLETE_NAME:
+      return field("Local name", new TextDecoder("utf-8").decode(data));
+    case 0x0a:
+      return field("TX power level", `${(data[0] << 24) >> 24} dBm`);
+    case EIR_CLASS_OF_DEVICE:
+      return field("Class of device", data.byteLength === 3 ? describeClassOfDevice(littleEndian(data)) : hex(data));
+    case 0x0e:
+      return field("Simple Pairing hash C", hex(data));
+    case 0x0f:
+      return field("Simple Pairing randomizer R", hex(data));
+    case 0x10:
+      return field("Security Manager TK", hex(data));
+    case 0x19:
+      return field("Appearance", `0x${littleEndian(data).toString(16).padStart(4, "0")}`);
+    case AD_LE_ADDRESS:
+      return field(
+        "LE device address",
+        data.byteLength === 7 ? `${formatAddress(data.subarray(0, 6))} (${data[6] & 0x01 ? "random" : "public"})` : hex(data)
+      );
+    case AD_LE_ROLE: {
+      const role = Object.values(BLUETOOTH_LE_ROLES).find((info) => info.code === data[0]);
+      return field("LE role", role?.label ?? `0x${data[0]?.toString(16).padStart(2, "0")}`);
+    }
+    case 0x22:
+      return field("LE Secure Connections confirmation", hex(data));
+    case 0x23:
+      return field("LE Secure Connections random", hex(data));
+    case 0xff:
+      return field("Manufacturer data", data.byteLength >= 2 ? `company 0x${littleEndian(data.subarray(0, 2)).toString(16).padStart(4, "0")}: ${hex(data.subarray(2))}` : hex(data));
+    default:
+      return field(`Type 0x${type.toString(16).padStart(2, "0")}`, hex(data));
+  }
+}
+
+function parseStructures(bytes: Uint8Array, baseOffset: number): BluetoothOobField[] {
+  const fields: BluetoothOobField[] = [];
+  let offset = 0;
+  while (offset < bytes.byteLength) {
+    const length = bytes[offset];
+    if (length === 0) break; // Zero padding ends the significant part
+    if (offset + 1 + length > bytes.byteLength) {
+      throw new Error(`The structure at byte ${baseOffset + offset} is longer than the payload.`);
+    }
+    fields.push(describeStructure(bytes[offset + 1], bytes.subarray(offset + 2, offset + 1 + length)));
+    offset += 1 + length;
+  }
+  return fields;
+}
+
+// Decodes a pairing record payload into display fields. Throws if the payload is malformed.
+export function decodeBluetoothOob(mediaType: string, data: ArrayBuffer | ArrayBufferView): BluetoothOobField[] {
+  const bytes = toBytes(data);
+  if (mediaType === BT_LE_OOB_MEDIA_TYPE) return parseStructures(bytes, 0);
+
+  if (bytes.byteLength < 8) throw new Error("The payload is too short for a BR/EDR pairing record.");
+  const length = bytes[0] | (bytes[1] << 8);
+  if (length < 8 || length > bytes.byteLength) {
+    throw new Error(`The OOB data length (${length}) does not match the ${bytes.byteLength}-byte payload.`);
+  }
+  return [
+    { type: -1, name: "Device address", value: formatAddress(bytes.subarray(2, 8)) },
+    ...parseStructures(bytes.subarray(8, length), 8),
+  ];
+}
+
+// EIR/AD types the form has inputs for (-1 is the BR/EDR device address).
+const FORM_FIELD_TYPES = [-1, EIR_SHORT_NAME, EIR_COMPLETE_NAME, EIR_CLASS_OF_DEVICE, AD_LE_ADDRESS, AD_LE_ROLE];
+
+// Reads a payload back into form fields. Fields the form has no input for (e.g. pairing hashes)
+// are returned in unmapped. Throws if the payload is malformed.
+export function bluetoothPairingFromOob(
+  mediaType: string,
+  data: ArrayBuffer | ArrayBufferView
+): { pairing: BluetoothPairing; unmapped: BluetoothOobField[] } {
+  const pairing = defaultBluetoothPairing();
+  const bytes = toBytes(data);
+  const unmapped = decodeBluetoothOob(mediaType, bytes).filter((field) => !FORM_FIELD_TYPES.includes(field.type));
+  pairing.transport = mediaType === BT_LE_OOB_MEDIA_TYPE ? "le" : "br-edr";
+  const readStructures = (start: number, end: number) => {
+    for (let offset = start; offset < end && bytes[offset]; offset += 1 + bytes[offset]) {
+      const type = bytes[offset + 1];
+      const value = bytes.subarray(offset + 2, offset + 1 + bytes[offset]);
+      if (type === EIR_COMPLETE_NAME || (type === EIR_SHORT_NAME && !pairing.localName)) {
+        pairing.localName = new TextDecoder("utf-8").decode(value);
+      } else if (type === EIR_CLASS_OF_DEVICE && value.byteLength === 3) {
+        pairing.classOfDevice = littleEndian(value).toString(16).padStart(6, "0");
+      } else if (type === AD_LE_ADDRESS && value.byteLength === 7) {
+        pairing.address = formatAddress(value.subarray(0, 6));
+        pairing.addressType = value[6] & 0x01 ? "random" : "public";
+      } else if (type === AD_LE_ROLE) {
+        pairing.leRole = (Object.keys(BLUETOOTH_LE_ROLES) as BluetoothLeRole[]).find((role) => BLUETOOTH_LE_ROLES[role].code === value[0]) ?? "peripheral";
+      }
+    }
+  };
+  if (pairing.transport === "le") {
+    readStructures(0, bytes.byteLength);
+  } else {
+    pairing.address = formatAddress(bytes.subarray(2, 8));
+    readStructures(8, bytes[0] | (bytes[1] << 8));
+  }
+  return { pairing, unmapped };
+}
+
+// --- Handover Select ---
+
+const HANDOVER_VERSION = 0x12; // Connection Handover 1.2
+const CARRIER_RECORD_ID = "0";
+
+const POWER_STATES = ["inactive", "active", "activating", "unknown"];
+
+// The complete Handover Select message for a pairing record: an "Hs" record holding one
+// Alternative Carrier ("ac") record that points at the pairing record by its ID.
+export function buildHandoverSelectMessage(carrier: NDEFRecordInit): Uint8Array {
+  const id = carrier.id || CARRIER_RECORD_ID;
+  const reference = textEncoder.encode(id);
+  const alternativeCarrier = new Uint8Array([0x01, reference.byteLength, ...reference, 0x00]); // Active, no auxiliary data
+  const nested = encodeNdefMessage([{ recordType: ":ac", data: alternativeCarrier }]);
+  const selectPayload = new Uint8Array([HANDOVER_VERSION, ...nested]);
+  return encodeNdefMessage([{ recordType: ":Hs", data: selectPayload }, { ...carrier, id }]);
+}
+
+export interface HandoverCarrier {
+  powerState: string;
+  reference: string; // ID of the carrier configuration record
+}
+
+// Decodes an "Hs" record payload: version and alternative carriers. Throws if it is malformed.
+export function parseHandoverSelect(data: ArrayBuffer | ArrayBufferView): { version: string; carriers: HandoverCarrier[] } {
+  const bytes = toBytes(data);
+  if (!bytes.byteLength) throw new Error("The Handover Select record is empty.");
+  const version = `${bytes[0] >> 4}.${bytes[0] & 0x0f}`;
+  if (bytes.byteLength === 1) return { version, carriers: [] };
+  const carriers = decodeNdefMessage(bytes.subarray(1))
+    .filter((record) => record.recordType === ":ac")
+    .map((record) => {
+      const payload = toBytes(record.data as ArrayBuffer);
+      if (payload.byteLength < 2 || 2 + payload[1] > payload.byteLength) {
+        throw new Error("An Alternative Carrier record is truncated.");
+      }
+      return {
+        powerState: POWER_STATES[payload[0] & 0x03],
+        reference: new TextDecoder("utf-8").decode(payload.subarray(2, 2 + payload[1])),
+      };
+    });
+  return { version, carriers };
+}
+
+export function transportLabel(transport: BluetoothTransport): string {
+  return transport === "le" ? "Bluetooth LE" : "Bluetooth BR/EDR (classic)";
+}
@@ -0,0 +1,96 @@
+// src/utils/byteFormat.ts
+import type { ByteFormat } from '../@types/app';
+import { encodeBase64, decodeBase64 } from './nfcUtils';
+
+// Text forms of raw payload bytes for the hex inspector and the byte editor.
+//
+//   hex      Two digits per byte. Spaces, line breaks, ":", "-", "," and "0x" prefixes are
+//            ignored when reading, so "0a 1b", "0A:1B" and "0x0a,0x1b" are all accepted.
+//   base64   Standard or URL-safe alphabet, padding optional.
+//   escaped  Printable ASCII as-is; \n, \r, \t, \0, \\ and \xHH for everything else.
+//            Other characters typed in are written as UTF-8.
+
+export const BYTE_FORMATS: Record<ByteFormat, { label: string; placeholder: string }> = {
+  hex: { label: "Hex", placeholder: "e.g., 48 65 6c 6c 6f or 48:65:6C:6C:6F" },
+  base64: { label: "Base64", placeholder: "e.g., SGVsbG8=" },
+  escaped: { label: "Escaped text", placeholder: "e.g., Hello\\x00\\n" },
+};
+
+export const HEX_ROW_LENGTH = 16;
+
+export function hexByte(byte: number): string {
+  return byte.toString(16).padStart(2, "0");
+}
+
+// Offsets are printed with at least 4 hex digits, more for payloads over 64 KiB.
+export function hexOffset(offset: number, total: number): string {
+  return offset.toString(16).padStart(Math.max(4, (total - 1).toString(16).length), "0");
+}
+
+// The ASCII column character of a byte: printable ASCII as-is, "." otherwise.
+export function asciiChar(byte: number): string {
+  return byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : ".";
+}
+
+const ESCAPES: Record<number, string> = { 0x00: "\\0", 0x09: "\\t", 0x0a: "\\n", 0x0d: "\\r", 0x5c: "\\\\" };
+
+export function formatBytes(bytes: Uint8Array, format: ByteFormat): string {
+  switch (format) {
+    case "hex": {
+      const rows: string[] = [];
+      for (let offset = 0; offset < bytes.byteLength; offset += HEX_ROW_LENGTH) {
+        rows.push(Array.from(bytes.subarray(offset, offset + HEX_ROW_LENGTH), hexByte).join(" "));
+      }
+      return rows.join("\n");
+    }
+    case "base64":
+      return encodeBase64(bytes.slice().buffer);
+    case "escaped":
+      return Array.from(bytes, (byte) => ESCAPES[byte] ?? (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : `\\x${hexByte(byte)}`)).join("");
+  }
+}
+
+const textEncoder = new TextEncoder();
+
+function parseEscaped(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char !== "\\") {
+      const codePoint = text.codePointAt(i)!;
+      if (codePoint > 0xffff) i++; // Surrogate pair
+      bytes.push(...textEncoder.encode(String.fromCodePoint(codePoint)));
+      continue;
+    }
+    const next = text[++i];
+    if (next === undefined) throw new Error("The text ends with a lone backslash; write \\\\ for a backslash.");
+    if (next === "x") {
+      const digits = text.slice(i + 1, i + 3);
+      if (!/^[0-9a-f]{2}$/i.test(digits)) throw new Error(`"\\x" at position ${i - 1} must be followed by two hex digits.`);
+      bytes.push(parseInt(digits, 16));
+      i += 2;
+      continue;
+    }
+    const simple: Record<string, number> = { n: 0x0a, r: 0x0d, t: 0x09, "0": 0x00, "\\": 0x5c };
+    if (!(next in simple)) throw new Error(`Unknown escape "\\${next}" at position ${i - 1}.`);
+    bytes.push(simple[next]);
+  }
+  return new Uint8Array(bytes);
+}
+
+// Reads bytes written in the given format. Throws with the reason if the text is not valid.
+export function parseBytes(text: string, format: ByteFormat): Uint8Array {
+  switch (format) {
+    case "hex": {
+      const digits = text.replace(/0x/gi, "").replace(/[\s:,-]/g, "");
+      const bad = digits.search(/[^0-9a-f]/i);
+      if (bad >= 0) throw new Error(`"${digits[bad]}" is not a hex digit.`);
+      if (digits.length % 2) throw new Error("Odd number of hex digits: the last byte is incomplete.");
+      return new Uint8Array((digits.match(/../g) ?? []).map((pair) => parseInt(pair, 16)));
+    }
+    case "base64":
+      return new Uint8Array(decodeBase64(text));
+    case "escaped":
+      return parseEscaped(text);
+  }
+}
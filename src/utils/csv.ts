@@ -0,0 +1,82 @@
+// src/utils/csv.ts
+
+// Minimal RFC 4180 CSV support: comma separator, double-quoted fields with "" escapes,
+// CRLF or LF line breaks. Used for the scan history export and batch provisioning.
+
+// Quotes a field when needed. Unless escapeFormula is false, fields starting with a formula
+// character are prefixed with an apostrophe: exported values often come from tags, which are
+// untrusted, and spreadsheets would evaluate them.
+export function csvField(value: string | number, escapeFormula = true): string {
+  let text = String(value);
+  if (escapeFormula && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Formats rows with CRLF line endings, including after the last row. The first plainColumns
+// fields of each row are written without the formula prefix, e.g. columns copied from a CSV
+// file that must read back unchanged.
+export function formatCsv(rows: readonly (readonly (string | number)[])[], plainColumns = 0): string {
+  return rows.map((row) => row.map((value, i) => csvField(value, i >= plainColumns)).join(",")).join("\r\n") + "\r\n";
+}
+
+// Parses CSV text into rows of fields. A leading byte order mark and blank lines are ignored.
+// Throws on an unterminated quoted field or text after a closing quote.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let fieldStarted = false; // The current field has content or was quoted
+  let rowStarted = false; // The current row has a started field or a separator
+  let line = 1;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endField = () => {
+    rowStarted ||= fieldStarted;
+    row.push(field);
+    field = "";
+    fieldStarted = false;
+  };
+  const endRow = () => {
+    endField();
+    if (rowStarted || row.length > 1) rows.push(row);
+    row = [];
+    rowStarted = false;
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"' && !fieldStarted) {
+      const startLine = line;
+      fieldStarted = true;
+      i++;
+      for (;;) {
+        if (i >= text.length) throw new Error(`Unterminated quoted field starting on line ${startLine}.`);
+        if (text[i] === '"') {
+          if (text[i + 1] !== '"') break;
+          i++;
+        } else if (text[i] === "\n") {
+          line++;
+        }
+        field += text[i++];
+      }
+      i++; // Closing quote
+      if (i < text.length && !",\r\n".includes(text[i])) {
+        throw new Error(`Unexpected text after a closing quote on line ${line}.`);
+      }
+      continue;
+    }
+    if (char === ",") {
+      endField();
+    } else if (char === "\r" || char === "\n") {
+      endRow();
+      line++;
+      if (char === "\r" && text[i + 1] === "\n") i++;
+    } else {
+      field += char;
+      fieldStarted = true;
+    }
+    i++;
+  }
+  if (fieldStarted || row.length) endRow();
+  return rows;
+}
@@ -0,0 +1,197 @@
+// src/utils/messageJson.ts
+/*global NDEFRecord, NDEFRecordInit, NDEFMessageInit*/ // WebNFC global types
+import type { NDEFRecordInitCustom, StoredRecord } from '../@types/app';
+import { snapshotRecord, snapshotToRecordInit } from './recordSnapshot';
+import { encodeBase64, decodeBase64 } from './nfcUtils';
+
+// JSON exchange format for an NDEF message, version 1.
+//
+// {
+//   "format": "web-nfc-demo/ndef-message",
+//   "version": 1,
+//   "exportedAt": "2024-05-01T12:00:00.000Z",   // informational
+//   "sourceUid": "04a1b2c3d4e5f6",              // UID of the scanned tag, "" for hand-made messages
+//   "records": [ <record>, ... ]                // one entry per record, in message order
+// }
+//
+// <record> = {
+//   "recordType": "text" | "url" | "absolute-url" | "mime" | "smart-poster" | "empty" | "unknown"
+//                 | "<domain>:<type>" (external) | ":<type>" (local, nested only),
+//   "mediaType"?: string, "id"?: string, "encoding"?: string, "lang"?: string,
+//   and at most one of:
+//   "text"?: string,          // string data: UTF-8 text records, URLs, absolute URLs
+//   "base64"?: string,        // binary data, standard Base64
+//   "records"?: [<record>]    // nested message, e.g. the full content of a smart poster
+// }
+//
+// Readers must reject files with a different "format" or a newer "version".
+
+export const MESSAGE_JSON_FORMAT = "web-nfc-demo/ndef-message";
+export const MESSAGE_JSON_VERSION = 1;
+
+export interface MessageJsonRecord {
+  recordType: string;
+  mediaType?: string;
+  id?: string;
+  encoding?: string;
+  lang?: string;
+  text?: string;
+  base64?: string;
+  records?: MessageJsonRecord[];
+}
+
+export interface MessageJson {
+  format: typeof MESSAGE_JSON_FORMAT;
+  version: number;
+  exportedAt: string;
+  sourceUid: string;
+  records: MessageJsonRecord[];
+}
+
+export interface ParsedMessageJson {
+  sourceUid: string;
+  records: { index: number; init: NDEFRecordInitCustom }[]; // Valid entries with their position in the file
+  rejected: { index: number; reason: string }[];
+}
+
+// Converts an init (top-level or nested) into its JSON entry.
+function initToJson(init: NDEFRecordInit | NDEFRecordInitCustom): MessageJsonRecord {
+  const entry: MessageJsonRecord = { recordType: init.recordType };
+  if (init.mediaType) entry.mediaType = init.mediaType;
+  if (init.id) entry.id = init.id;
+  if (init.encoding) entry.encoding = init.encoding;
+  if (init.lang) entry.lang = init.lang;
+
+  const data = init.data;
+  if (typeof data === "string") {
+    entry.text = data;
+  } else if (data && typeof data === "object" && "records" in data) {
+    entry.records = (data as NDEFMessageInit).records.map(initToJson);
+  } else if (data) {
+    const buffer = ArrayBuffer.isView(data)
+      ? (data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer)
+      : (data as ArrayBuffer);
+    // UTF-8 text records stay human-readable; everything else is kept byte for byte.
+    if (init.recordType === "text" && (!init.encoding || init.encoding.toLowerCase() === "utf-8")) {
+      entry.text = new TextDecoder("utf-8").decode(buffer);
+    } else {
+      entry.base64 = encodeBase64(buffer);
+    }
+  }
+  return entry;
+}
+
+// JSON entry for a stored record snapshot, e.g. from the tag library or the scan history.
+export function storedRecordToJson(stored: StoredRecord): MessageJsonRecord {
+  return initToJson(snapshotToRecordInit(stored));
+}
+
+// Builds the JSON document for a list of NDEFRecord instances.
+export function recordsToMessageJson(records: NDEFRecord[], sourceUid: string, exportedAt: Date = new Date()): MessageJson {
+  return {
+    format: MESSAGE_JSON_FORMAT,
+    version: MESSAGE_JSON_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    sourceUid,
+    records: records.map((record) => storedRecordToJson(snapshotRecord(record))),
+  };
+}
+
+const OPTIONAL_STRING_FIELDS = ["mediaType", "id", "encoding", "lang"] as const;
+
+// Validates one entry and converts it back into an init. Throws with a human-readable reason.
+function jsonToInit(entry: unknown, path: string, nested: boolean): NDEFRecordInitCustom {
+  if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+    throw new Error(`${path}: entry must be an object`);
+  }
+  const raw = entry as Record<string, unknown>;
+  if (typeof raw.recordType !== "string" || !raw.recordType) {
+    throw new Error(`${path}: "recordType" must be a non-empty string`);
+  }
+  const recordType = raw.recordType;
+  const standardTypes = ["empty", "text", "url", "absolute-url", "mime", "smart-poster", "unknown"];
+  if (!standardTypes.includes(recordType) && !recordType.includes(":")) {
+    throw new Error(`${path}: unknown recordType "${recordType}"`);
+  }
+  if (recordType.startsWith(":") && !nested) {
+    throw new Error(`${path}: local type "${recordType}" is only allowed inside a nested message`);
+  }
+
+  const init: NDEFRecordInitCustom = { recordType };
+  for (const field of OPTIONAL_STRING_FIELDS) {
+    if (raw[field] === undefined) continue;
+    if (typeof raw[field] !== "string") throw new Error(`${path}: "${field}" must be a string`);
+    init[field] = raw[field] as string;
+  }
+  if (recordType === "mime" && !init.mediaType) {
+    throw new Error(`${path}: mime records need a "mediaType"`);
+  }
+
+  const dataFields = ["text", "base64", "records"].filter((field) => raw[field] !== undefined);
+  if (dataFields.length > 1) {
+    throw new Error(`${path}: only one of "text", "base64" or "records" may be present`);
+  }
+  if (raw.text !== undefined) {
+    if (typeof raw.text !== "string") throw new Error(`${path}: "text" must be a string`);
+    init.data = raw.text;
+  } else if (raw.base64 !== undefined) {
+    if (typeof raw.base64 !== "string") throw new Error(`${path}: "base64" must be a string`);
+    try {
+      init.data = decodeBase64(raw.base64);
+    } catch (err) {
+      throw new Error(`${path}: ${(err as Error).message}`);
+    }
+  } else if (raw.records !== undefined) {
+    if (!Array.isArray(raw.records)) throw new Error(`${path}: "records" must be an array`);
+    init.data = {
+      records: raw.records.map((child, i) => jsonToInit(child, `${path}.records[${i}]`, true) as NDEFRecordInit),
+    };
+  }
+
+  if (recordType === "smart-poster" && !(init.data && typeof init.data === "object" && "records" in init.data)) {
+    throw new Error(`${path}: smart-poster records need a nested "records" message`);
+  }
+  if ((recordType === "url" || recordType === "absolute-url") && typeof init.data !== "string") {
+    throw new Error(`${path}: ${recordType} records need "text"`);
+  }
+  if (recordType === "empty" && init.data !== undefined) {
+    throw new Error(`${path}: empty records must not carry data`);
+  }
+  return init;
+}
+
+// Parses and validates a JSON export. Throws only if the document as a whole is unusable;
+// individual bad entries are returned in `rejected` so the rest can still be imported.
+export function parseMessageJson(text: string): ParsedMessageJson {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Not valid JSON: ${(err as Error).message}`);
+  }
+  if (!doc || typeof doc !== "object") throw new Error("Expected a JSON object.");
+  const raw = doc as Record<string, unknown>;
+  if (raw.format !== MESSAGE_JSON_FORMAT) {
+    throw new Error(`Unsupported format "${String(raw.format)}", expected "${MESSAGE_JSON_FORMAT}".`);
+  }
+  if (typeof raw.version !== "number" || !Number.isInteger(raw.version) || raw.version < 1) {
+    throw new Error("Missing or invalid \"version\".");
+  }
+  if (raw.version > MESSAGE_JSON_VERSION) {
+    throw new Error(`File version ${raw.version} is newer than the supported version ${MESSAGE_JSON_VERSION}.`);
+  }
+  if (!Array.isArray(raw.records)) throw new Error("\"records\" must be an array.");
+  if (raw.sourceUid !== undefined && typeof raw.sourceUid !== "string") {
+    throw new Error("\"sourceUid\" must be a string.");
+  }
+
+  const result: ParsedMessageJson = { sourceUid: (raw.sourceUid as string) ?? "", records: [], rejected: [] };
+  raw.records.forEach((entry, index) => {
+    try {
+      result.records.push({ index, init: jsonToInit(entry, `records[${index}]`, false) });
+    } catch (err) {
+      result.rejected.push({ index, reason: (err as Error).message });
+    }
+  });
+  return result;
+}
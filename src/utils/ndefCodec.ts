@@ -0,0 +1,407 @@
+// src/utils/ndefCodec.ts
+/*global NDEFRecordInit, NDEFMessageInit, NDEFRecordDataSource*/ // WebNFC global types
+
+// Byte-exact NDEF message encoder/decoder (NFC Forum NDEF 1.0, RTD Text/URI/Smart Poster).
+// Encoding follows the Web NFC mapping from NDEFRecordInit to NDEF records, so the bytes
+// produced here are the bytes a browser would put on the tag.
+
+// Record header flags
+export const FLAG_MB = 0x80; // Message Begin
+export const FLAG_ME = 0x40; // Message End
+export const FLAG_CF = 0x20; // Chunk Flag
+export const FLAG_SR = 0x10; // Short Record (1-byte payload length)
+export const FLAG_IL = 0x08; // ID Length field present
+export const TNF_MASK = 0x07;
+
+// Type Name Format values
+export enum TNF {
+  Empty = 0x00,
+  WellKnown = 0x01,
+  MimeMedia = 0x02,
+  AbsoluteUri = 0x03,
+  External = 0x04,
+  Unknown = 0x05,
+  Unchanged = 0x06,
+  Reserved = 0x07,
+}
+
+// URI identifier codes from the NFC Forum URI RTD. Index is the code written as the first payload byte.
+export const URI_PREFIXES: readonly string[] = [
+  "",
+  "http://www.",
+  "https://www.",
+  "http://",
+  "https://",
+  "tel:",
+  "mailto:",
+  "ftp://anonymous:anonymous@",
+  "ftp://ftp.",
+  "ftps://",
+  "sftp://",
+  "smb://",
+  "nfs://",
+  "ftp://",
+  "dav://",
+  "news:",
+  "telnet://",
+  "imap:",
+  "rtsp://",
+  "urn:",
+  "pop:",
+  "sip:",
+  "sips:",
+  "tftp:",
+  "btspp://",
+  "btl2cap://",
+  "btgoep://",
+  "tcpobex://",
+  "irdaobex://",
+  "file://",
+  "urn:epc:id:",
+  "urn:epc:tag:",
+  "urn:epc:pat:",
+  "urn:epc:raw:",
+  "urn:epc:",
+  "urn:nfc:",
+];
+
+// Raised when a byte stream is not a well-formed NDEF message. `offset` is the byte
+// position (from the start of the outermost message) where parsing failed.
+export class NdefParseError extends Error {
+  offset: number;
+
+  constructor(message: string, offset: number) {
+    super(`${message} (at byte offset ${offset})`);
+    this.name = "NdefParseError";
+    this.offset = offset;
+  }
+}
+
+const textEncoder = new TextEncoder();
+
+function isMessageInit(data: unknown): data is NDEFMessageInit {
+  return !!data && typeof data === "object" && "records" in (data as object);
+}
+
+// Converts any record data source (string, ArrayBuffer, typed array/DataView) to bytes.
+function toBytes(data: NDEFRecordDataSource | undefined): Uint8Array {
+  if (data === undefined || data === null) return new Uint8Array(0);
+  if (typeof data === "string") return textEncoder.encode(data);
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  if (isMessageInit(data)) return encodeNdefMessage(data.records);
+  return new Uint8Array(data as ArrayBuffer);
+}
+
+function encodeUtf16(text: string, littleEndian: boolean): Uint8Array {
+  // A byte order mark is only written for little-endian; RTD Text defaults to big-endian.
+  const bom = littleEndian ? 2 : 0;
+  const bytes = new Uint8Array(bom + text.length * 2);
+  const view = new DataView(bytes.buffer);
+  if (littleEndian) {
+    bytes[0] = 0xff;
+    bytes[1] = 0xfe;
+  }
+  for (let i = 0; i < text.length; i++) {
+    view.setUint16(bom + i * 2, text.charCodeAt(i), littleEndian);
+  }
+  return bytes;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.byteLength, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+}
+
+// Builds the RTD Text payload: status byte (UTF-16 flag + language length), language, text.
+export function encodeTextPayload(record: NDEFRecordInit): Uint8Array {
+  const encoding = (record.encoding || "utf-8").toLowerCase();
+  const lang = textEncoder.encode(record.lang || "en");
+  if (lang.byteLength > 0x3f) {
+    throw new Error(`Language code "${record.lang}" is too long for a text record.`);
+  }
+  const isUtf16 = encoding.startsWith("utf-16");
+  let text: Uint8Array;
+  if (typeof record.data === "string") {
+    text = isUtf16 ? encodeUtf16(record.data, encoding === "utf-16le") : textEncoder.encode(record.data);
+  } else {
+    text = toBytes(record.data);
+  }
+  return concatBytes([new Uint8Array([(isUtf16 ? 0x80 : 0x00) | lang.byteLength]), lang, text]);
+}
+
+// Builds the RTD URI payload, abbreviating the longest matching well-known prefix.
+export function encodeUriPayload(uri: string): Uint8Array {
+  let code = 0;
+  for (let i = 1; i < URI_PREFIXES.length; i++) {
+    if (uri.startsWith(URI_PREFIXES[i]) && URI_PREFIXES[i].length > URI_PREFIXES[code].length) {
+      code = i;
+    }
+  }
+  return concatBytes([new Uint8Array([code]), textEncoder.encode(uri.slice(URI_PREFIXES[code].length))]);
+}
+
+interface RawRecordParts {
+  tnf: TNF;
+  type: Uint8Array;
+  payload: Uint8Array;
+}
+
+// Maps a Web NFC record init onto TNF, type bytes and payload bytes.
+function recordParts(record: NDEFRecordInit): RawRecordParts {
+  const recordType = record.recordType;
+  switch (recordType) {
+    case "empty":
+      return { tnf: TNF.Empty, type: new Uint8Array(0), payload: new Uint8Array(0) };
+    case "text":
+      return { tnf: TNF.WellKnown, type: textEncoder.encode("T"), payload: encodeTextPayload(record) };
+    case "url":
+      return {
+        tnf: TNF.WellKnown,
+        type: textEncoder.encode("U"),
+        payload: typeof record.data === "string" ? encodeUriPayload(record.data) : toBytes(record.data),
+      };
+    case "absolute-url":
+      // The URL is the record type; the payload is empty.
+      return {
+        tnf: TNF.AbsoluteUri,
+        type: typeof record.data === "string" ? textEncoder.encode(record.data) : toBytes(record.data),
+        payload: new Uint8Array(0),
+      };
+    case "smart-poster":
+      return {
+        tnf: TNF.WellKnown,
+        type: textEncoder.encode("Sp"),
+        payload: isMessageInit(record.data) ? encodeNdefMessage(record.data.records) : toBytes(record.data),
+      };
+    case "mime":
+      return {
+        tnf: TNF.MimeMedia,
+        type: textEncoder.encode(record.mediaType || "application/octet-stream"),
+        payload: toBytes(record.data),
+      };
+    case "unknown":
+      return { tnf: TNF.Unknown, type: new Uint8Array(0), payload: toBytes(record.data) };
+    default:
+      if (recordType.startsWith(":")) {
+        // Local type, only meaningful inside a parent record (e.g. ":act" in a smart poster).
+        return { tnf: TNF.WellKnown, type: textEncoder.encode(recordType.slice(1)), payload: toBytes(record.data) };
+      }
+      if (recordType.includes(":")) {
+        return { tnf: TNF.External, type: textEncoder.encode(recordType), payload: toBytes(record.data) };
+      }
+      throw new Error(`Cannot encode record type "${recordType}".`);
+  }
+}
+
+// Encodes a single record with the given position flags (MB/ME).
+function encodeRecord(record: NDEFRecordInit, isFirst: boolean, isLast: boolean): Uint8Array {
+  const { tnf, type, payload } = recordParts(record);
+  const id = record.id ? textEncoder.encode(record.id) : new Uint8Array(0);
+  if (type.byteLength > 0xff) throw new Error(`Record type is too long (${type.byteLength} bytes, max 255).`);
+  if (id.byteLength > 0xff) throw new Error(`Record id is too long (${id.byteLength} bytes, max 255).`);
+
+  const isShort = payload.byteLength < 0x100;
+  let header: number = tnf;
+  if (isFirst) header |= FLAG_MB;
+  if (isLast) header |= FLAG_ME;
+  if (isShort) header |= FLAG_SR;
+  if (id.byteLength) header |= FLAG_IL;
+
+  const fields: number[] = [header, type.byteLength];
+  if (isShort) {
+    fields.push(payload.byteLength);
+  } else {
+    const len = payload.byteLength;
+    fields.push((len >>> 24) & 0xff, (len >>> 16) & 0xff, (len >>> 8) & 0xff, len & 0xff);
+  }
+  if (id.byteLength) fields.push(id.byteLength);
+
+  return concatBytes([new Uint8Array(fields), type, id, payload]);
+}
+
+// Encodes a list of record inits into the exact NDEF message bytes.
+export function encodeNdefMessage(records: NDEFRecordInit[]): Uint8Array {
+  return concatBytes(records.map((record, i) => encodeRecord(record, i === 0, i === records.length - 1)));
+}
+
+// --- Decoding ---
+
+function bytesToBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+function decodeTextPayload(payload: Uint8Array, offset: number): NDEFRecordInit {
+  if (payload.byteLength < 1) throw new NdefParseError("Text record payload is empty", offset);
+  const status = payload[0];
+  const langLength = status & 0x3f;
+  if (1 + langLength > payload.byteLength) {
+    throw new NdefParseError("Text record language code runs past the payload", offset);
+  }
+  const lang = new TextDecoder("utf-8").decode(payload.subarray(1, 1 + langLength));
+  const text = payload.subarray(1 + langLength);
+  let encoding = "utf-8";
+  if (status & 0x80) {
+    encoding = text[0] === 0xff && text[1] === 0xfe ? "utf-16le" : "utf-16be";
+  }
+  return { recordType: "text", lang, encoding, data: new TextDecoder(encoding).decode(text) };
+}
+
+function decodeUriPayload(payload: Uint8Array, offset: number): string {
+  if (payload.byteLength < 1) throw new NdefParseError("URI record payload is empty", offset);
+  const code = payload[0];
+  if (code >= URI_PREFIXES.length) {
+    throw new NdefParseError(`Unknown URI identifier code 0x${code.toString(16).padStart(2, "0")}`, offset);
+  }
+  return URI_PREFIXES[code] + new TextDecoder("utf-8").decode(payload.subarray(1));
+}
+
+// Turns a reassembled record into the NDEFRecordInit shape Web NFC would report.
+function toRecordInit(
+  tnf: TNF,
+  type: Uint8Array,
+  id: Uint8Array,
+  payload: Uint8Array,
+  payloadOffset: number,
+  baseOffset: number
+): NDEFRecordInit {
+  const typeString = new TextDecoder("utf-8").decode(type);
+  let record: NDEFRecordInit;
+
+  switch (tnf) {
+    case TNF.Empty:
+      record = { recordType: "empty" };
+      break;
+    case TNF.WellKnown:
+      if (typeString === "T") {
+        record = decodeTextPayload(payload, baseOffset + payloadOffset);
+      } else if (typeString === "U") {
+        record = { recordType: "url", data: decodeUriPayload(payload, baseOffset + payloadOffset) };
+      } else if (typeString === "Sp") {
+        record = {
+          recordType: "smart-poster",
+          data: { records: parseMessage(payload, baseOffset + payloadOffset) },
+        };
+      } else {
+        record = { recordType: `:${typeString}`, data: bytesToBuffer(payload) };
+      }
+      break;
+    case TNF.MimeMedia:
+      record = { recordType: "mime", mediaType: typeString, data: bytesToBuffer(payload) };
+      break;
+    case TNF.AbsoluteUri:
+      record = { recordType: "absolute-url", data: typeString };
+      break;
+    case TNF.External:
+      record = { recordType: typeString, data: bytesToBuffer(payload) };
+      break;
+    default:
+      record = { recordType: "unknown", data: bytesToBuffer(payload) };
+  }
+
+  if (id.byteLength) record.id = new TextDecoder("utf-8").decode(id);
+  return record;
+}
+
+function parseMessage(bytes: Uint8Array, baseOffset: number): NDEFRecordInit[] {
+  const records: NDEFRecordInit[] = [];
+  let pos = 0;
+  let sawEnd = false;
+  // Pending chunked record: first chunk carries TNF, type and id; later chunks are TNF "unchanged".
+  let chunk: { tnf: TNF; type: Uint8Array; id: Uint8Array; parts: Uint8Array[]; start: number } | null = null;
+
+  if (bytes.byteLength === 0) throw new NdefParseError("NDEF message is empty", baseOffset);
+
+  while (pos < bytes.byteLength) {
+    const recordStart = pos;
+    const at = (n: number) => baseOffset + n;
+    if (sawEnd) throw new NdefParseError("Unexpected data after the Message End record", at(pos));
+
+    const header = bytes[pos++];
+    const tnf = (header & TNF_MASK) as TNF;
+    const isFirst = recordStart === 0;
+
+    if (isFirst && !(header & FLAG_MB)) throw new NdefParseError("First record is missing the Message Begin flag", at(recordStart));
+    if (!isFirst && header & FLAG_MB) throw new NdefParseError("Message Begin flag set on a record that is not first", at(recordStart));
+    if (tnf === TNF.Reserved) throw new NdefParseError("Record uses reserved TNF 0x07", at(recordStart));
+
+    if (pos >= bytes.byteLength) throw new NdefParseError("Record header is truncated", at(pos));
+    const typeLength = bytes[pos++];
+
+    let payloadLength: number;
+    if (header & FLAG_SR) {
+      if (pos + 1 > bytes.byteLength) throw new NdefParseError("Payload length is truncated", at(pos));
+      payloadLength = bytes[pos++];
+    } else {
+      if (pos + 4 > bytes.byteLength) throw new NdefParseError("Payload length is truncated", at(pos));
+      payloadLength = ((bytes[pos] << 24) | (bytes[pos + 1] << 16) | (bytes[pos + 2] << 8) | bytes[pos + 3]) >>> 0;
+      pos += 4;
+    }
+
+    let idLength = 0;
+    if (header & FLAG_IL) {
+      if (pos >= bytes.byteLength) throw new NdefParseError("ID length is truncated", at(pos));
+      idLength = bytes[pos++];
+    }
+
+    if (pos + typeLength > bytes.byteLength) throw new NdefParseError("Record type runs past the end of the data", at(pos));
+    const type = bytes.subarray(pos, pos + typeLength);
+    pos += typeLength;
+
+    if (pos + idLength > bytes.byteLength) throw new NdefParseError("Record id runs past the end of the data", at(pos));
+    const id = bytes.subarray(pos, pos + idLength);
+    pos += idLength;
+
+    const payloadOffset = pos;
+    if (pos + payloadLength > bytes.byteLength) throw new NdefParseError("Record payload runs past the end of the data", at(pos));
+    const payload = bytes.subarray(pos, pos + payloadLength);
+    pos += payloadLength;
+
+    if (tnf === TNF.Empty && (typeLength || idLength || payloadLength)) {
+      throw new NdefParseError("Empty record must not have type, id or payload", at(recordStart));
+    }
+
+    if (chunk) {
+      if (tnf !== TNF.Unchanged || typeLength) throw new NdefParseError("Middle or last chunk must use TNF unchanged with no type", at(recordStart));
+      if (idLength) throw new NdefParseError("Middle or last chunk must not carry an id", at(recordStart));
+      chunk.parts.push(payload);
+      if (!(header & FLAG_CF)) {
+        const joined = concatBytes(chunk.parts);
+        // Offsets inside a reassembled payload are reported relative to the first chunk.
+        records.push(toRecordInit(chunk.tnf, chunk.type, chunk.id, joined, chunk.start, baseOffset));
+        chunk = null;
+      }
+    } else {
+      if (tnf === TNF.Unchanged) throw new NdefParseError("TNF unchanged used outside a chunked record", at(recordStart));
+      if (header & FLAG_CF) {
+        chunk = { tnf, type, id, parts: [payload], start: payloadOffset };
+      } else {
+        records.push(toRecordInit(tnf, type, id, payload, payloadOffset, baseOffset));
+      }
+    }
+
+    if (header & FLAG_ME) {
+      if (header & FLAG_CF) throw new NdefParseError("Message End flag set on a chunk that is not the last", at(recordStart));
+      sawEnd = true;
+    }
+  }
+
+  if (chunk) throw new NdefParseError("Chunked record is missing its final chunk", baseOffset + bytes.byteLength);
+  if (!sawEnd) throw new NdefParseError("Last record is missing the Message End flag", baseOffset + bytes.byteLength);
+  return records;
+}
+
+// Parses raw NDEF message bytes back into record inits. Throws NdefParseError on malformed input.
+export function decodeNdefMessage(data: ArrayBuffer | ArrayBufferView): NDEFRecordInit[] {
+  const bytes = ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data);
+  return parseMessage(bytes, 0);
+}
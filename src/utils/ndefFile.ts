@@ -0,0 +1,36 @@
+// src/utils/ndefFile.ts
+/*global NDEFRecord, NDEFRecordInit, NDEFMessageInit*/ // WebNFC global types
+import type { NDEFRecordInitCustom } from '../@types/app';
+import { encodeNdefMessage, decodeNdefMessage, encodeTextPayload } from './ndefCodec';
+import { snapshotRecord, snapshotToRecordInit } from './recordSnapshot';
+
+// Raw .ndef/.bin files hold the bare NDEF message bytes (no TLV wrapper, no tag memory layout),
+// the same format produced by Android NFC apps, libnfc and Proxmark "ndef" dumps.
+
+export const NDEF_FILE_MIME_TYPE = "application/octet-stream";
+
+// Encodes the current records into the bytes of a raw .ndef file. Records go through their
+// snapshot so scanned smart posters and UTF-16 text are written back byte for byte.
+export function recordsToNdefFile(records: NDEFRecord[]): Uint8Array {
+  return encodeNdefMessage(records.map((record) => snapshotToRecordInit(snapshotRecord(record)) as NDEFRecordInit));
+}
+
+// The decoder reports text as a string, but the NDEFRecord constructor only accepts string
+// data for UTF-8 text. Other encodings are turned back into their raw text bytes.
+function toConstructibleInit(init: NDEFRecordInit): NDEFRecordInit {
+  const copy: NDEFRecordInit = { ...init };
+  if (init.recordType === "text" && typeof init.data === "string" && init.encoding && init.encoding !== "utf-8") {
+    const payload = encodeTextPayload(init);
+    const textStart = 1 + (payload[0] & 0x3f);
+    copy.data = payload.buffer.slice(payload.byteOffset + textStart, payload.byteOffset + payload.byteLength) as ArrayBuffer;
+  } else if (init.data && typeof init.data === "object" && "records" in init.data) {
+    copy.data = { records: (init.data as NDEFMessageInit).records.map(toConstructibleInit) };
+  }
+  return copy;
+}
+
+// Parses a raw .ndef file into record inits with their position in the message.
+// Malformed input throws an NdefParseError whose message and `offset` give the byte offset.
+export function parseNdefFile(data: ArrayBuffer): { index: number; init: NDEFRecordInitCustom }[] {
+  return decodeNdefMessage(data).map((init, index) => ({ index, init: toConstructibleInit(init) as NDEFRecordInitCustom }));
+}
@@ -0,0 +1,184 @@
+// src/utils/ndefLint.ts
+/*global NDEFRecord, NDEFRecordInit, NDEFMessageInit*/ // WebNFC global types
+import type { LintFinding, LintRule, LintSeverity } from '../@types/app';
+import { payloadBytes } from './nfcUtils';
+import { MAX_NESTING_DEPTH, nestedRecordsOf, canHoldNestedMessage } from './nestedMessage';
+import { decodeNdefMessage } from './ndefCodec';
+
+// Checks a message for the small spec violations that scanned and imported messages often
+// have. Errors are what Web NFC refuses to write or what makes the written record unreadable;
+// warnings are writable but likely to confuse readers. Nested messages are checked too, and
+// their findings are reported on the record that holds them.
+
+// Well-formed BCP 47 language tag (RFC 5646 "langtag" or private use); grandfathered tags are not accepted.
+const LANGUAGE_TAG = new RegExp(
+  "^(?:(?:[a-z]{2,3}(?:-[a-z]{3}){0,3}|[a-z]{4,8})" + // language, extlang
+  "(?:-[a-z]{4})?" + // script
+  "(?:-(?:[a-z]{2}|\\d{3}))?" + // region
+  "(?:-(?:[a-z\\d]{5,8}|\\d[a-z\\d]{3}))*" + // variants
+  "(?:-[a-wyz\\d](?:-[a-z\\d]{2,8})+)*" + // extensions
+  "(?:-x(?:-[a-z\\d]{1,8})+)?" + // private use
+  "|x(?:-[a-z\\d]{1,8})+)$",
+  "i"
+);
+
+export function isWellFormedLanguageTag(tag: string): boolean {
+  return LANGUAGE_TAG.test(tag);
+}
+
+// Characters allowed in the type part of an external or local type (NFC Forum RTD "other-char").
+const RTD_TYPE_CHARS = /^[A-Za-z0-9()+,\-:=@;$_!*'.]+$/;
+const DOMAIN_LABEL = /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?$/;
+const textEncoder = new TextEncoder();
+
+// Returns why the external type name is invalid, or null. An external type is "domain:type"
+// with a DNS domain name and a type of RTD characters, 255 bytes at most (one TYPE LENGTH byte).
+export function externalTypeProblem(recordType: string): string | null {
+  const colon = recordType.indexOf(":");
+  const domain = recordType.slice(0, colon);
+  const type = recordType.slice(colon + 1);
+  if (textEncoder.encode(recordType).byteLength > 255) return `The external type "${recordType}" is longer than 255 bytes.`;
+  if (!domain.split(".").every((label) => DOMAIN_LABEL.test(label))) {
+    return `"${domain}" in the external type "${recordType}" is not a domain name (letters, digits and "-" in dot-separated labels).`;
+  }
+  if (!RTD_TYPE_CHARS.test(type)) {
+    return type
+      ? `The type name "${type}" in "${recordType}" may only hold letters, digits and ()+,-:=@;$_!*'.`
+      : `The external type "${recordType}" has no type name after the colon.`;
+  }
+  return null;
+}
+
+// Local types (":act") start with a lower case letter or a digit.
+export function localTypeProblem(recordType: string): string | null {
+  const name = recordType.slice(1);
+  if (!/^[a-z0-9]/.test(name) || !RTD_TYPE_CHARS.test(name)) {
+    return `"${recordType}" is not a local type name: after the colon it must start with a lower case letter or a digit and hold only RTD characters.`;
+  }
+  return null;
+}
+
+// MIME type per RFC 2045: type "/" subtype, both tokens, optionally followed by parameters.
+const TOKEN = "[!#$%&'*+.^_`|~0-9A-Za-z-]+";
+const MEDIA_TYPE = new RegExp(`^${TOKEN}/${TOKEN}(?:\\s*;\\s*${TOKEN}=(?:${TOKEN}|"(?:[^"\\\\]|\\\\.)*"))*$`);
+
+export function isValidMediaType(mediaType: string): boolean {
+  return MEDIA_TYPE.test(mediaType.trim());
+}
+
+// Text encodings the NDEF Text record and Web NFC support.
+const WRITABLE_TEXT_ENCODINGS = ["utf-8", "utf-16", "utf-16be", "utf-16le"];
+
+function finding(severity: LintSeverity, rule: LintRule, message: string): LintFinding {
+  return { severity, rule, message };
+}
+
+function isAbsoluteUrl(url: string): boolean {
+  try {
+    new URL(url);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Findings about a single record, without the message-level checks (duplicate ids).
+function lintRecord(record: NDEFRecord, depth: number): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const recordType = record.recordType as string;
+
+  if (recordType === "text") {
+    const encoding = (record.encoding || "utf-8").toLowerCase();
+    if (!WRITABLE_TEXT_ENCODINGS.includes(encoding)) {
+      findings.push(finding("error", "text-encoding", `Text encoding "${record.encoding}" cannot be written; Web NFC writes text as UTF-8 or UTF-16.`));
+    }
+    const lang = record.lang ?? "";
+    if (textEncoder.encode(lang).byteLength > 63) {
+      findings.push(finding("error", "language-tag", "The language tag is longer than 63 bytes, the most a Text record can hold."));
+    } else if (lang && !isWellFormedLanguageTag(lang)) {
+      findings.push(finding("warning", "language-tag", `"${lang}" is not a well-formed BCP 47 language tag (e.g., "en", "de-CH", "zh-Hant").`));
+    }
+  } else if (recordType === "url" || recordType === "absolute-url") {
+    const url = new TextDecoder("utf-8").decode(payloadBytes(record));
+    if (!url.trim()) {
+      findings.push(finding("error", "empty-url", "The URL record is empty; readers have nothing to open."));
+    } else if (!isAbsoluteUrl(url)) {
+      findings.push(recordType === "absolute-url"
+        ? finding("error", "url", `"${url}" is not a valid absolute URL.`)
+        : finding("warning", "url", `"${url}" is not a valid absolute URL; phones cannot open relative or malformed URLs.`));
+    }
+  } else if (recordType === "mime") {
+    if (!record.mediaType) {
+      findings.push(finding("warning", "media-type", "The MIME record has no media type and is written as application/octet-stream."));
+    } else if (!isValidMediaType(record.mediaType)) {
+      findings.push(finding("error", "media-type", `"${record.mediaType}" is not a valid MIME type (type/subtype, e.g., "text/plain").`));
+    }
+  } else if (recordType.startsWith(":")) {
+    const problem = depth === 0
+      ? `The local type "${recordType}" is only allowed inside another record (e.g., a smart poster).`
+      : localTypeProblem(recordType);
+    if (problem) findings.push(finding("error", "local-type", problem));
+  } else if (recordType.includes(":")) {
+    const problem = externalTypeProblem(recordType);
+    if (problem) findings.push(finding("error", "external-type", problem));
+  }
+
+  if (depth < MAX_NESTING_DEPTH) {
+    const children = nestedRecordsOf(record);
+    if (children) {
+      lintMessage(children, depth + 1).forEach((childFindings, index) => {
+        findings.push(...childFindings.map((child) => ({ ...child, message: `Nested record ${index + 1}: ${child.message}` })));
+      });
+    }
+  }
+  return findings;
+}
+
+// Lints a message. The result has one list of findings per record, in record order.
+export function lintMessage(records: readonly NDEFRecord[], depth = 0): LintFinding[][] {
+  const results = records.map((record) => lintRecord(record, depth));
+  records.forEach((record, index) => {
+    if (!record.id) return;
+    const others = records.flatMap((other, otherIndex) => (otherIndex !== index && other.id === record.id ? [otherIndex + 1] : []));
+    if (others.length) {
+      results[index].push(finding("warning", "duplicate-id", `The id "${record.id}" is also used by record #${others.join(", #")}; ids should be unique within a message.`));
+    }
+  });
+  return results;
+}
+
+// A read-only stand-in for the record an init describes, with just what lintRecord() reads.
+// Inits that Web NFC would refuse cannot go through the NDEFRecord constructor to be linted.
+function initAsRecord(init: NDEFRecordInit): NDEFRecord {
+  const data = init.data;
+  const nested = data && typeof data === "object" && "records" in data ? (data as NDEFMessageInit).records : null;
+  let bytes: Uint8Array;
+  if (typeof data === "string") bytes = textEncoder.encode(data);
+  else if (nested || !data) bytes = new Uint8Array(0);
+  else if (ArrayBuffer.isView(data)) bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  else bytes = new Uint8Array(data as ArrayBuffer);
+  return {
+    recordType: init.recordType,
+    mediaType: init.mediaType,
+    id: init.id,
+    encoding: init.encoding,
+    lang: init.lang,
+    data: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength),
+    toRecords: () => {
+      if (nested) return nested.map(initAsRecord);
+      return canHoldNestedMessage(init.recordType) ? decodeNdefMessage(bytes).map(initAsRecord) : null;
+    },
+  } as unknown as NDEFRecord;
+}
+
+// Lints a message given as record inits, e.g. a filled batch template or a clone source.
+export function lintRecordInits(inits: readonly NDEFRecordInit[]): LintFinding[][] {
+  return lintMessage(inits.map(initAsRecord));
+}
+
+// The errors of a lint result as "Record n: message" lines, for blocking a write.
+export function lintErrors(results: LintFinding[][]): string[] {
+  return results.flatMap((findings, index) =>
+    findings.filter((item) => item.severity === "error").map((item) => `Record ${index + 1}: ${item.message}`)
+  );
+}
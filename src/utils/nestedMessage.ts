@@ -0,0 +1,35 @@
+// src/utils/nestedMessage.ts
+/*global NDEFRecord, NDEFRecordInit*/ // WebNFC global types
+import type { NDEFRecordInitCustom } from '../@types/app';
+import { isNDEFRecordTypeExternal } from './nfcUtils';
+
+// Smart posters, external and local type records can carry a whole NDEF message as their
+// payload, which NDEFRecord.toRecords() returns as records. The editor shows these child
+// records under their parent and changes them by rebuilding the parent with a new child list.
+
+// Messages nested deeper than this are not expanded. Each level is indented, and a payload
+// could nest messages far deeper than a screen can show.
+export const MAX_NESTING_DEPTH = 3;
+
+// isNDEFRecordTypeExternal is also true for local types such as ":act".
+export function canHoldNestedMessage(recordType: string): boolean {
+  return recordType === "smart-poster" || isNDEFRecordTypeExternal(recordType);
+}
+
+// The child records of a record, or null if its payload is not a (non-empty) NDEF message.
+export function nestedRecordsOf(record: NDEFRecord): NDEFRecord[] | null {
+  if (!canHoldNestedMessage(record.recordType) || !record.toRecords) return null;
+  try {
+    const records = record.toRecords();
+    return records?.length ? records : null;
+  } catch {
+    return null; // toRecords() throws when the payload does not parse as a message
+  }
+}
+
+// The init that recreates `parent` (type and id) with `children` as its nested message.
+export function withNestedRecords(parent: NDEFRecord, children: NDEFRecordInit[]): NDEFRecordInitCustom {
+  const init: NDEFRecordInitCustom = { recordType: parent.recordType, data: { records: children } };
+  if (parent.id) init.id = parent.id;
+  return init;
+}
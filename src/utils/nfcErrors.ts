@@ -0,0 +1,80 @@
+// src/utils/nfcErrors.ts
+import type { NfcErrorCategory, NfcOperation } from '../@types/app';
+
+const CATEGORY_BY_NAME: Record<string, NfcErrorCategory> = {
+  NotAllowedError: "permission-denied",
+  NotSupportedError: "not-supported",
+  NotReadableError: "not-readable",
+  NetworkError: "io-failure",
+  AbortError: "aborted",
+  InvalidStateError: "invalid-state",
+};
+
+const OPERATION_LABELS: Record<NfcOperation, string> = {
+  scan: "Scan",
+  write: "Write",
+  lock: "Lock",
+};
+
+// A Web NFC failure with its category and a message that tells the user what to do next.
+export class NfcError extends Error {
+  readonly category: NfcErrorCategory;
+  readonly operation: NfcOperation;
+  readonly originalName: string; // DOMException name, or "Error" for plain errors
+  readonly originalMessage: string;
+
+  constructor(category: NfcErrorCategory, operation: NfcOperation, originalName: string, originalMessage: string) {
+    super(actionableMessage(category, operation, originalMessage));
+    this.name = "NfcError";
+    this.category = category;
+    this.operation = operation;
+    this.originalName = originalName;
+    this.originalMessage = originalMessage;
+  }
+
+  get title(): string {
+    return `${OPERATION_LABELS[this.operation]} failed`;
+  }
+}
+
+export function categorizeNfcError(err: unknown): NfcErrorCategory {
+  const name = (err as { name?: unknown } | null)?.name;
+  return (typeof name === "string" && CATEGORY_BY_NAME[name]) || "unknown";
+}
+
+// The message shown for each category; wording depends on what the user was trying to do.
+export function actionableMessage(category: NfcErrorCategory, operation: NfcOperation, detail = ""): string {
+  switch (category) {
+    case "permission-denied":
+      return "NFC permission was denied. Allow NFC for this site in the browser's site settings, then try again.";
+    case "not-supported":
+      if (operation === "lock") {
+        return "This tag cannot be made read-only (it is not NDEF formatted or has no lock support), or Web NFC is not supported here.";
+      }
+      if (operation === "write") {
+        return "The tag cannot store this message: it is not NDEF compatible, or the message uses a record this device cannot write.";
+      }
+      return "Web NFC is not supported on this device/browser. Use Chrome on Android with NFC hardware.";
+    case "not-readable":
+      return "The NFC adapter is unavailable. Turn on NFC in the system settings and close other apps that use NFC.";
+    case "io-failure":
+      if (operation === "lock") {
+        return "Locking failed: the tag refused the lock command or was moved away too early. The tag may already be read-only.";
+      }
+      return `The tag was moved away too early or did not respond. Hold it still against the device and try the ${operation} again.`;
+    case "aborted":
+      return `The ${operation} was cancelled.`;
+    case "invalid-state":
+      return "Another NFC operation is still running, or the page is in the background. Finish or cancel it, keep this page visible, then try again.";
+    default:
+      return `Unexpected error${detail ? `: ${detail}` : ""}. Try again; if it keeps happening, reload the page.`;
+  }
+}
+
+export function toNfcError(err: unknown, operation: NfcOperation): NfcError {
+  if (err instanceof NfcError) return err;
+  const raw = err as { name?: unknown; message?: unknown } | null;
+  const name = typeof raw?.name === "string" ? raw.name : "Error";
+  const message = typeof raw?.message === "string" ? raw.message : String(err);
+  return new NfcError(categorizeNfcError(err), operation, name, message);
+}
@@ -1,6 +1,6 @@
 // src/utils/nfcUtils.ts
-/*global NDEFRecord, NDEFMessageInit*/ // For estimateNdefMessageSize using NDEFMessageInit
-import type { NDEFRecordInitCustom } from '../@types/app';
+/*global NDEFRecord, NDEFRecordInit, NDEFMessageInit*/ // For recordToInit using NDEFMessageInit
+import { decodeNdefMessage } from './ndefCodec';
 
 // Helper function to check if a record type string denotes an external type.
 export function isNDEFRecordTypeExternal(recordType: string): boolean {
@@ -13,84 +13,62 @@ export function isNDEFRecordTypeExternal(recordType: string): boolean {
   return !standardTypes.includes(recordType) && recordType.includes(':');
 }
 
-// Estimates the size of an NDEF message.
-export function estimateNdefMessageSize(records: NDEFRecordInit[], isRecursiveCall = false): number {
-  let totalSize = 0;
-  const textEncoder = new TextEncoder();
-
-  records.forEach(record => {
-    let recordSize = 1; // TNF/Flags byte
-
-    let typeStringForCalc = "";
-    if (record.recordType === 'empty' || record.recordType === 'unknown') {
-      typeStringForCalc = ""; 
-    } else if (record.recordType === 'absolute-url') {
-      typeStringForCalc = (typeof record.data === 'string') ? record.data : "";
-    } else if (record.recordType === 'mime' && record.mediaType) {
-      typeStringForCalc = record.mediaType;
-    } else if (isNDEFRecordTypeExternal(record.recordType)) {
-      typeStringForCalc = record.recordType; 
-    } else if (record.recordType === 'text') {
-      typeStringForCalc = "T"; 
-    } else if (record.recordType === 'url') {
-      typeStringForCalc = "U"; 
-    } else if (record.recordType === 'smart-poster') {
-      typeStringForCalc = "Sp"; 
-    } else {
-      // This case should ideally not be hit if all record types are handled.
-      // It might represent a custom but not-formally-external type.
-      typeStringForCalc = record.recordType; 
-    }
-    
-    const typeFieldLength = textEncoder.encode(typeStringForCalc).length;
-
-    if (record.recordType === 'empty') { 
-      totalSize += recordSize; 
-      return; 
-    }
-
-    recordSize += 1; // Type Length byte
-    recordSize += typeFieldLength;
-
-    let payloadByteLength = 0;
-    if (record.recordType === 'absolute-url') {
-      payloadByteLength = 0; 
-    } else if (record.recordType === 'text') {
-      let textDataLength = 0;
-      if (typeof record.data === 'string') {
-        // Note: NDEFRecord constructor might use different encoding based on record.encoding.
-        // For estimation, consistently using UTF-8 for string data length is a common approach.
-        textDataLength = textEncoder.encode(record.data).length; 
-      }
-      const langCode = record.lang || "en"; 
-      const langCodeByteLength = textEncoder.encode(langCode).length;
-      payloadByteLength = 1 + langCodeByteLength + textDataLength; 
-    } else if (record.recordType === 'smart-poster' && record.data && typeof record.data === 'object' && 'records' in record.data) {
-      payloadByteLength = estimateNdefMessageSize((record.data as NDEFMessageInit).records, true);
-    } else if (record.data) { 
-      if (typeof record.data === 'string') {
-        payloadByteLength = textEncoder.encode(record.data).length;
-      } else if (record.data instanceof ArrayBuffer) {
-        payloadByteLength = record.data.byteLength;
+// Converts an NDEFRecord instance back into the NDEFRecordInit that would recreate it,
+// e.g. for writing, encoding or serialising the current record list.
+export function recordToInit(rec: NDEFRecord): NDEFRecordInit {
+  const obj: NDEFRecordInit = { recordType: rec.recordType };
+
+  if (rec.id) obj.id = rec.id;
+  if (rec.mediaType) obj.mediaType = rec.mediaType;
+  if (rec.encoding) obj.encoding = rec.encoding;
+  if (rec.lang) obj.lang = rec.lang;
+
+  if (rec.recordType === "smart-poster") {
+    // For smart posters, data for NDEFRecordInit should be NDEFMessageInit
+    // This custom _smartPosterData property was attached in handleAddRecord; scanned
+    // smart posters only have the encoded nested message as payload.
+    obj.data = (rec as any)._smartPosterData as NDEFMessageInit | undefined;
+    if (!obj.data && rec.data?.byteLength) {
+      try {
+        obj.data = { records: decodeNdefMessage(rec.data) };
+      } catch (err) {
+        console.warn("Could not decode smart poster payload:", err);
       }
     }
-    
-    // Payload Length field (SR or not)
-    // This field is 1 byte if payloadByteLength < 256 (Short Record), or 4 bytes otherwise (Long Record).
-    // This applies to all record types, including absolute-url which has an empty payload (payloadByteLength = 0),
-    // so its payload length field will be 1 byte with value 0x00.
-    recordSize += (payloadByteLength < 256 && !isRecursiveCall) ? 1 : 4;
-
-    if (record.id) {
-      recordSize += 1; // ID Length byte
-      recordSize += textEncoder.encode(record.id).length;
+    // Encoding/lang are not top-level for smart-poster NDEFRecordInit itself
+    delete obj.encoding;
+    delete obj.lang;
+  } else if (rec.recordType === "empty") {
+    delete obj.mediaType;
+    delete obj.encoding;
+    delete obj.lang;
+    obj.data = undefined; // Explicitly undefined for empty
+  } else if (rec.data) { // rec.data is DataView
+    // For 'text', 'url', 'absolute-url', NDEFRecordInit expects string data.
+    // For 'mime', 'unknown', 'external', it can be string or ArrayBuffer.
+    // The NDEFRecord constructor handles string to ArrayBuffer conversion.
+    // Here, we need to decide if we pass string or ArrayBuffer based on original intent.
+    if (rec.encoding && (rec.recordType === 'text' || rec.mediaType?.startsWith('text/'))) {
+      const decoder = new TextDecoder(rec.encoding || "utf-8");
+      obj.data = decoder.decode(rec.data); // Convert DataView back to string
+    } else if (rec.recordType === 'url' || rec.recordType === 'absolute-url') {
+      const decoder = new TextDecoder("utf-8"); // URLs are typically UTF-8
+      obj.data = decoder.decode(rec.data);
+    } else {
+      // For 'mime', 'unknown', 'external' that are not text-based, pass ArrayBuffer
+      obj.data = rec.data.buffer.slice(rec.data.byteOffset, rec.data.byteOffset + rec.data.byteLength);
     }
-    
-    recordSize += payloadByteLength;
-    totalSize += recordSize;
-  });
+  } else {
+    obj.data = undefined; // No data payload
+  }
+  return obj;
+}
 
-  return totalSize;
+// The payload bytes of an NDEFRecord. record.data is a DataView that may cover only part of
+// its buffer, so the view's byteOffset and byteLength are respected.
+export function payloadBytes(record: NDEFRecord): Uint8Array {
+  const data = record.data;
+  return data ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength) : new Uint8Array(0);
 }
 
 // Decodes the payload of an NDEFRecord for display purposes.
@@ -100,14 +78,32 @@ export function decodeRecord(record: NDEFRecord): string {
   }
   // TextDecoder will use record.encoding if present, or UTF-8 default.
   const decoder = new TextDecoder(record.encoding ?? "utf-8");
-  return decoder.decode(record.data.buffer); // record.data is a DataView
+  return decoder.decode(payloadBytes(record));
 }
 
-// Converts an ArrayBuffer to a Base64 string, prepended with a data URL scheme.
-export function arrayBufferToBase64(buffer: ArrayBuffer, mediaType: string): string {
+// The init that recreates `record` with `bytes` as its payload, for the byte editor. Record types
+// whose init takes other data get it decoded: URLs as UTF-8 text, smart posters as a message.
+// Throws if the bytes do not fit the record type.
+export function recordWithPayload(record: NDEFRecord, bytes: Uint8Array): NDEFRecordInit {
+  const init = recordToInit(record);
+  if (record.recordType === "empty") {
+    if (bytes.byteLength) throw new Error("Empty records cannot have a payload.");
+  } else if (record.recordType === "url" || record.recordType === "absolute-url") {
+    init.data = new TextDecoder("utf-8").decode(bytes);
+  } else if (record.recordType === "smart-poster") {
+    init.data = { records: decodeNdefMessage(bytes) };
+  } else {
+    init.data = bytes.slice().buffer;
+  }
+  return init;
+}
+
+const base64Chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Converts an ArrayBuffer to a plain Base64 string (no data URL prefix).
+export function encodeBase64(buffer: ArrayBuffer): string {
   const bytes = new Uint8Array(buffer);
   let result = '';
-  const base64Chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
 
   for (let i = 0; i < bytes.length; i += 3) {
     const byte1 = bytes[i];
@@ -125,7 +121,34 @@ export function arrayBufferToBase64(buffer: ArrayBuffer, mediaType: string): str
     result += (byte3 === undefined) ? '=' : base64Chars.charAt(char4);
   }
 
-  return `data:${mediaType};base64,${result}`;
+  return result;
+}
+
+// Converts a Base64 string (standard or URL-safe alphabet, padding optional) to an ArrayBuffer.
+// Throws on characters outside the alphabet or an impossible length.
+export function decodeBase64(base64: string): ArrayBuffer {
+  const clean = base64.replace(/\s+/g, "").replace(/-/g, "+").replace(/_/g, "/").replace(/=+$/, "");
+  if (clean.length % 4 === 1) throw new Error("Invalid base64: bad length.");
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let out = 0;
+  for (let i = 0; i < clean.length; i++) {
+    const value = base64Chars.indexOf(clean[i]);
+    if (value < 0) throw new Error(`Invalid base64 character "${clean[i]}" at position ${i}.`);
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[out++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes.buffer;
+}
+
+// Converts an ArrayBuffer to a Base64 string, prepended with a data URL scheme.
+export function arrayBufferToBase64(buffer: ArrayBuffer, mediaType: string): string {
+  return `data:${mediaType};base64,${encodeBase64(buffer)}`;
 }
 
 // Converts an ArrayBuffer to a hexadecimal string.
@@ -158,3 +181,15 @@ export function hexStringToArrayBuffer(hexString: string): ArrayBuffer {
   }
   return typedArray.buffer;
 }
+
+// Offers data to the user as a file download.
+export function downloadFile(data: BlobPart, filename: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,400 @@
+// src/utils/qrCode.ts
+import type { QrErrorCorrection } from '../@types/app';
+
+// QR Code encoder (ISO/IEC 18004), so codes can be made without a network connection.
+// Text is always encoded in byte mode as UTF-8, which every phone camera reads; the
+// numeric/alphanumeric modes would only make some codes slightly smaller. The smallest
+// version (1-40) that holds the text at the chosen error-correction level is used, and the
+// mask with the lowest penalty score is applied.
+
+export const QR_ERROR_CORRECTION: Record<QrErrorCorrection, { label: string; formatBits: number }> = {
+  L: { label: "Low (~7% damage)", formatBits: 1 },
+  M: { label: "Medium (~15% damage)", formatBits: 0 },
+  Q: { label: "Quartile (~25% damage)", formatBits: 3 },
+  H: { label: "High (~30% damage)", formatBits: 2 },
+};
+
+// Error-correction codewords per block and number of blocks, indexed by version (index 0 unused).
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+const NUM_ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+export const QR_MIN_VERSION = 1;
+export const QR_MAX_VERSION = 40;
+
+const BYTE_MODE = 0x4;
+
+// Penalty weights of the mask evaluation rules
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+export interface QrCode {
+  version: number;
+  size: number; // Modules per side, 4 * version + 17
+  errorCorrection: QrErrorCorrection;
+  mask: number;
+  modules: boolean[][]; // modules[y][x], true for dark
+}
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+// Modules available for data and error correction in a version, after all function patterns.
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+// Data codewords (8-bit) a version holds at an error-correction level.
+export function dataCodewords(version: number, ecc: QrErrorCorrection): number {
+  return Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[ecc][version] * NUM_ERROR_CORRECTION_BLOCKS[ecc][version];
+}
+
+// The most UTF-8 bytes a version holds in byte mode.
+export function byteCapacity(version: number, ecc: QrErrorCorrection): number {
+  return Math.floor((dataCodewords(version, ecc) * 8 - 4 - charCountBits(version)) / 8);
+}
+
+function charCountBits(version: number): number {
+  return version <= 9 ? 8 : 16;
+}
+
+// --- Reed-Solomon over GF(2^8) with the polynomial 0x11D ---
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+// The `degree` error-correction codewords for a block of data codewords.
+export function reedSolomonRemainder(data: readonly number[], degree: number): number[] {
+  const divisor = reedSolomonDivisor(degree);
+  const result = new Array<number>(degree).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => (result[i] ^= gfMultiply(coefficient, factor)));
+  }
+  return result;
+}
+
+// --- Codewords ---
+
+function dataToCodewords(bytes: Uint8Array, version: number, ecc: QrErrorCorrection): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(BYTE_MODE, 4);
+  append(bytes.byteLength, charCountBits(version));
+  bytes.forEach((byte) => append(byte, 8));
+
+  const capacityBits = dataCodewords(version, ecc) * 8;
+  append(0, Math.min(4, capacityBits - bits.length)); // Terminator
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  return codewords;
+}
+
+// Splits the data into blocks, adds each block's error correction and interleaves the result.
+function addErrorCorrection(data: number[], version: number, ecc: QrErrorCorrection): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ecc][version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[ecc][version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const block = data.slice(offset, offset + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1));
+    offset += block.length;
+    const eccCodewords = reedSolomonRemainder(block, blockEccLength);
+    if (i < numShortBlocks) block.push(0); // Placeholder, skipped when interleaving
+    blocks.push(block.concat(eccCodewords));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+// --- Matrix ---
+
+class QrMatrix {
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(readonly version: number, readonly size: number, readonly ecc: QrErrorCorrection) {
+    this.modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    this.isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  }
+
+  setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+    this.drawFinder(3, 3);
+    this.drawFinder(this.size - 4, 3);
+    this.drawFinder(3, this.size - 4);
+
+    const positions = alignmentPatternPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((y, i) => positions.forEach((x, j) => {
+      if (!((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0))) this.drawAlignment(x, y);
+    }));
+
+    this.drawFormatBits(0); // Reserves the area; drawn again once the mask is chosen
+    this.drawVersionBits();
+  }
+
+  drawFinder(x: number, y: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) this.setFunction(xx, yy, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  drawAlignment(x: number, y: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const bits = formatBits(this.ecc, mask);
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, getBit(bits, i));
+    this.setFunction(8, this.size - 8, true); // Always dark
+  }
+
+  drawVersionBits() {
+    if (this.version < 7) return;
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, getBit(bits, i));
+      this.setFunction(b, a, getBit(bits, i));
+    }
+  }
+
+  // Places the codewords in the zigzag order, two columns at a time from the bottom right.
+  drawCodewords(codewords: number[]) {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5; // Skip the vertical timing pattern
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  // Masks are their own inverse: applying one twice restores the modules.
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && maskApplies(mask, x, y)) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  penaltyScore(): number {
+    let result = 0;
+    for (let y = 0; y < this.size; y++) result += this.linePenalty((i) => this.modules[y][i]);
+    for (let x = 0; x < this.size; x++) result += this.linePenalty((i) => this.modules[i][x]);
+
+    for (let y = 0; y < this.size - 1; y++) {
+      for (let x = 0; x < this.size - 1; x++) {
+        const color = this.modules[y][x];
+        if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) result += PENALTY_N2;
+      }
+    }
+
+    const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = this.size * this.size;
+    result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * PENALTY_N4;
+    return result;
+  }
+
+  // Runs of one color (rule 1) and finder-like 1:1:3:1:1 patterns (rule 3) along one row or column.
+  linePenalty(moduleAt: (index: number) => boolean): number {
+    let result = 0;
+    let runColor = false;
+    let runLength = 0;
+    const history = [0, 0, 0, 0, 0, 0, 0];
+    for (let i = 0; i < this.size; i++) {
+      if (moduleAt(i) === runColor) {
+        runLength++;
+        if (runLength === 5) result += PENALTY_N1;
+        else if (runLength > 5) result++;
+      } else {
+        this.addRunToHistory(runLength, history);
+        if (!runColor) result += this.countFinderPatterns(history) * PENALTY_N3;
+        runColor = moduleAt(i);
+        runLength = 1;
+      }
+    }
+    // The light border beyond the last module ends the final run
+    if (runColor) {
+      this.addRunToHistory(runLength, history);
+      runLength = 0;
+    }
+    this.addRunToHistory(runLength + this.size, history);
+    return result + this.countFinderPatterns(history) * PENALTY_N3;
+  }
+
+  addRunToHistory(runLength: number, history: number[]) {
+    if (history[0] === 0) runLength += this.size; // The light border before the first module
+    history.pop();
+    history.unshift(runLength);
+  }
+
+  countFinderPatterns(history: number[]): number {
+    const n = history[1];
+    const core = n > 0 && history[2] === n && history[3] === n * 3 && history[4] === n && history[5] === n;
+    return (core && history[0] >= n * 4 && history[6] >= n ? 1 : 0) + (core && history[6] >= n * 4 && history[0] >= n ? 1 : 0);
+  }
+}
+
+function alignmentPatternPositions(version: number): number[] {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let position = version * 4 + 17 - 7; result.length < numAlign; position -= step) result.splice(1, 0, position);
+  return result;
+}
+
+// The 15 format bits: level and mask, BCH error correction, XOR 0x5412.
+export function formatBits(ecc: QrErrorCorrection, mask: number): number {
+  const data = (QR_ERROR_CORRECTION[ecc].formatBits << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  return ((data << 10) | remainder) ^ 0x5412;
+}
+
+function maskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+// Encodes text as a QR code. Throws if the text does not fit version 40 at this level.
+export function encodeQrCode(text: string, ecc: QrErrorCorrection): QrCode {
+  const bytes = new TextEncoder().encode(text);
+  let version = QR_MIN_VERSION;
+  while (byteCapacity(version, ecc) < bytes.byteLength) {
+    if (++version > QR_MAX_VERSION) {
+      throw new Error(`The text is ${bytes.byteLength} bytes; a QR code holds at most ${byteCapacity(QR_MAX_VERSION, ecc)} bytes at error correction ${ecc}.`);
+    }
+  }
+
+  const matrix = new QrMatrix(version, version * 4 + 17, ecc);
+  matrix.drawFunctionPatterns();
+  matrix.drawCodewords(addErrorCorrection(dataToCodewords(bytes, version, ecc), version, ecc));
+
+  let bestMask = 0;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const score = matrix.penaltyScore();
+    if (score < bestScore) {
+      bestMask = mask;
+      bestScore = score;
+    }
+    matrix.applyMask(mask);
+  }
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(bestMask);
+
+  return { version, size: matrix.size, errorCorrection: ecc, mask: bestMask, modules: matrix.modules };
+}
+
+// Standalone SVG of the code with a light border (`quietZone` modules; 4 is the minimum scanners expect).
+export function qrCodeToSvg(qr: QrCode, quietZone = 4): string {
+  const dimension = qr.size + quietZone * 2;
+  const path: string[] = [];
+  qr.modules.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) path.push(`M${x + quietZone},${y + quietZone}h1v1h-1z`);
+  }));
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    `<path d="${path.join("")}" fill="#000000"/>`,
+    `</svg>`,
+  ].join("\n");
+}
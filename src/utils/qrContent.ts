@@ -0,0 +1,112 @@
+// src/utils/qrContent.ts
+/*global NDEFRecord*/ // WebNFC global types
+import type { QrRecordContent, WifiCredential } from '../@types/app';
+import { payloadBytes } from './nfcUtils';
+import { nestedRecordsOf } from './nestedMessage';
+import { WIFI_WSC_MEDIA_TYPE, decodeWifiCredential } from './wifiCredential';
+import { isVCardMediaType, parseVCard, contactFromVCard, contactDisplayName } from './vcard';
+
+// The QR code equivalent of a record, for posters that carry a QR code next to the tag.
+// Phone cameras act on the same kinds of content NFC readers do:
+//
+//   url, absolute-url   the URL itself
+//   smart-poster        its URL (titles, action and icon have no QR form)
+//   text                the text, shown by the camera app
+//   text/vcard          the vCard, offered as a new contact
+//   Wi-Fi (WSC)         WIFI:T:<WPA|WEP|nopass>;S:<ssid>;P:<key>;H:true;;
+//
+// Other records have no sensible QR equivalent and are reported with a reason.
+
+// Escapes \ ; , : and " in WIFI: fields.
+function escapeWifiField(value: string): string {
+  return value.replace(/([\\;,:"])/g, "\\$1");
+}
+
+// The WIFI: text phones join networks from, or null for networks it cannot describe.
+export function wifiQrText(credential: WifiCredential): string | null {
+  let type: string;
+  switch (credential.authType) {
+    case "open":
+      type = "nopass";
+      break;
+    case "shared":
+      type = "WEP";
+      break;
+    case "wpa-personal":
+    case "wpa2-personal":
+    case "wpa-wpa2-personal":
+      type = "WPA";
+      break;
+    default:
+      return null; // Enterprise networks need an identity and EAP settings
+  }
+  let text = `WIFI:T:${type};S:${escapeWifiField(credential.ssid)};`;
+  if (type !== "nopass") text += `P:${escapeWifiField(credential.networkKey)};`;
+  if (credential.hidden) text += "H:true;";
+  return `${text};`;
+}
+
+function shorten(text: string, length = 60): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > length ? `${line.slice(0, length - 1)}…` : line;
+}
+
+const decodeText = (record: NDEFRecord, encoding = "utf-8") => new TextDecoder(encoding).decode(payloadBytes(record));
+
+function recordContent(record: NDEFRecord, index: number): QrRecordContent {
+  const none = (label: string, warning: string): QrRecordContent => ({ index, label, text: null, warning });
+  const recordType = record.recordType as string;
+
+  switch (recordType) {
+    case "url":
+    case "absolute-url": {
+      const url = decodeText(record);
+      if (!url) return none("URL (empty)", "The URL record is empty.");
+      return { index, label: `URL: ${shorten(url)}`, text: url, warning: "" };
+    }
+    case "smart-poster": {
+      const uri = nestedRecordsOf(record)?.find((child) => child.recordType === "url");
+      if (!uri) return none("Smart poster", "The smart poster has no URL to put in a QR code.");
+      const url = decodeText(uri);
+      return { index, label: `Smart poster: ${shorten(url)}`, text: url, warning: "Only the poster's URL is encoded; its titles, action and icon have no QR equivalent." };
+    }
+    case "text": {
+      let text: string;
+      try {
+        text = decodeText(record, record.encoding || "utf-8");
+      } catch {
+        return none("Text", `The text encoding "${record.encoding}" is not supported.`);
+      }
+      return { index, label: `Text: ${shorten(text)}`, text, warning: "" };
+    }
+    case "mime":
+      if (record.mediaType === WIFI_WSC_MEDIA_TYPE) {
+        try {
+          const credential = decodeWifiCredential(payloadBytes(record));
+          const text = wifiQrText(credential);
+          if (!text) return none(`Wi-Fi: ${shorten(credential.ssid)}`, "Enterprise Wi-Fi networks need sign-in settings that a WIFI: QR code cannot carry.");
+          return { index, label: `Wi-Fi: ${shorten(credential.ssid)}`, text, warning: "" };
+        } catch (err) {
+          return none("Wi-Fi", `The Wi-Fi credential cannot be read: ${(err as Error).message}`);
+        }
+      }
+      if (isVCardMediaType(record.mediaType)) {
+        const vcard = decodeText(record, record.encoding || "utf-8");
+        let name = "";
+        try {
+          name = contactDisplayName(contactFromVCard(parseVCard(vcard)).contact);
+        } catch {
+          // Encoded as it is; only the label has no name
+        }
+        return { index, label: `Contact: ${shorten(name) || "(no name)"}`, text: vcard, warning: "" };
+      }
+      return none(`MIME: ${record.mediaType || "(no type)"}`, "Binary MIME data has no QR equivalent that phones act on.");
+    default:
+      return none(recordType, `${recordType === "empty" ? "Empty records have" : `"${recordType}" records have`} no QR equivalent that phones act on.`);
+  }
+}
+
+// One entry per record, in message order.
+export function qrContents(records: readonly NDEFRecord[]): QrRecordContent[] {
+  return records.map(recordContent);
+}
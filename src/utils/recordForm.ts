@@ -0,0 +1,172 @@
+// src/utils/recordForm.ts
+/*global NDEFRecord*/ // WebNFC global types
+import type { RecordFormState } from '../@types/app';
+import { snapshotRecord } from './recordSnapshot';
+import { isNDEFRecordTypeExternal, arrayBufferToHexString } from './nfcUtils';
+import { WIFI_WSC_MEDIA_TYPE, defaultWifiCredential, decodeWifiCredential } from './wifiCredential';
+import { isVCardMediaType, defaultContact, parseVCard, contactFromVCard } from './vcard';
+import { AAR_RECORD_TYPE, decodePackageName } from './androidAppRecord';
+import { isBluetoothOobMediaType, defaultBluetoothPairing, bluetoothPairingFromOob } from './bluetoothOob';
+import { defaultSmartPoster, smartPosterFromRecords } from './smartPoster';
+
+// MIME types whose payload AddRecordForm edits as text rather than as a file.
+export function isTextBasedMediaType(mediaType: string): boolean {
+  return (
+    mediaType.startsWith("text/") ||
+    mediaType === "application/json" ||
+    mediaType === "application/xml" ||
+    mediaType === "text/vcard"
+  );
+}
+
+// Field values of an empty AddRecordForm.
+export function defaultRecordFormState(): RecordFormState {
+  return {
+    recordType: "text",
+    externalTypeString: "",
+    smartPoster: defaultSmartPoster(),
+    mediaType: "",
+    id: "",
+    encoding: "utf-8",
+    lang: "en",
+    textData: "",
+    fileArrayBuffer: null,
+    wifi: defaultWifiCredential(),
+    contact: defaultContact(),
+    androidPackage: "",
+    bluetooth: defaultBluetoothPairing(),
+    notice: "",
+  };
+}
+
+// The form only offers UTF-8 and UTF-16; both byte orders map to "utf-16".
+function formEncoding(encoding?: string): string {
+  return encoding?.toLowerCase().startsWith("utf-16") ? "utf-16" : "utf-8";
+}
+
+function decodeText(payload: ArrayBuffer | null, encoding = "utf-8"): string {
+  return payload ? new TextDecoder(encoding).decode(payload) : "";
+}
+
+// Returns the payload as text if it is valid UTF-8, otherwise null.
+function tryDecodeUtf8(payload: ArrayBuffer): string | null {
+  try {
+    return new TextDecoder("utf-8", { fatal: true, ignoreBOM: true }).decode(payload);
+  } catch {
+    return null;
+  }
+}
+
+// Builds the AddRecordForm field values that reproduce an existing record, so it can be
+// edited in place. Payloads the form can only show as files are kept in fileArrayBuffer.
+export function recordToFormState(rec: NDEFRecord): RecordFormState {
+  const stored = snapshotRecord(rec);
+  const state: RecordFormState = { ...defaultRecordFormState(), id: stored.id ?? "", lang: "" };
+
+  switch (stored.recordType) {
+    case "text":
+      state.recordType = "text";
+      state.encoding = formEncoding(stored.encoding);
+      state.lang = stored.lang || "en";
+      state.textData = decodeText(stored.payload, stored.encoding || "utf-8");
+      break;
+    case "url":
+    case "absolute-url":
+      state.recordType = stored.recordType;
+      state.textData = decodeText(stored.payload);
+      break;
+    case "mime":
+      if (stored.mediaType === WIFI_WSC_MEDIA_TYPE && stored.payload) {
+        try {
+          state.wifi = decodeWifiCredential(stored.payload);
+          state.recordType = "wifi";
+          break;
+        } catch (err) {
+          state.notice = `The Wi-Fi credential could not be decoded (${(err as Error).message}); it is shown as a MIME record.`;
+        }
+      }
+      if (isBluetoothOobMediaType(stored.mediaType) && stored.payload) {
+        // As with vCards, only records the form covers completely are opened in it
+        try {
+          const { pairing, unmapped } = bluetoothPairingFromOob(stored.mediaType, stored.payload);
+          if (!unmapped.length) {
+            state.bluetooth = pairing;
+            state.recordType = "bluetooth";
+            break;
+          }
+          state.notice = `This pairing record has fields the Bluetooth form does not cover (${unmapped.map((field) => field.name).join(", ")}), so it is kept as a MIME record.`;
+        } catch (err) {
+          state.notice = `The Bluetooth pairing data could not be decoded (${(err as Error).message}); it is shown as a MIME record.`;
+        }
+      }
+      if (isVCardMediaType(stored.mediaType) && stored.payload) {
+        // Only vCards the contact form covers completely are opened in it; others stay editable as text
+        try {
+          const { contact, unmapped } = contactFromVCard(parseVCard(decodeText(stored.payload, stored.encoding || "utf-8")));
+          if (!unmapped.length) {
+            state.contact = contact;
+            state.recordType = "contact";
+            break;
+          }
+          const names = [...new Set(unmapped.map((property) => property.name))].join(", ");
+          state.notice = `This vCard has properties the contact form does not fully cover (${names}), so it is edited as text.`;
+        } catch (err) {
+          state.notice = `The vCard could not be parsed (${(err as Error).message}); it is edited as text.`;
+        }
+      }
+      state.recordType = "mime";
+      state.mediaType = stored.mediaType ?? "";
+      if (isTextBasedMediaType(state.mediaType)) {
+        state.encoding = formEncoding(stored.encoding);
+        state.textData = decodeText(stored.payload, stored.encoding || "utf-8");
+      } else {
+        state.fileArrayBuffer = stored.payload;
+      }
+      break;
+    case "smart-poster": {
+      state.recordType = "smart-poster";
+      if (!stored.smartPosterData) {
+        if (stored.payload?.byteLength) state.notice = "The smart poster payload could not be decoded; saving replaces it with the fields below.";
+        break;
+      }
+      const { poster, unmapped } = smartPosterFromRecords(stored.smartPosterData.records);
+      // Keep one empty title row to type into, as in a new poster
+      state.smartPoster = poster.titles.length ? poster : { ...poster, titles: defaultSmartPoster().titles };
+      if (unmapped.length) {
+        state.notice = `The smart poster form does not cover ${unmapped.length} nested record(s) (${unmapped.join(", ")}); they will be dropped on save.`;
+      }
+      break;
+    }
+    case "empty":
+      state.recordType = "empty";
+      break;
+    case AAR_RECORD_TYPE:
+      state.recordType = "android-app";
+      state.androidPackage = decodePackageName(stored.payload);
+      break;
+    case "unknown":
+      // The form accepts hex prefixed with 0x, which round-trips any payload exactly.
+      state.recordType = "unknown";
+      state.textData = stored.payload?.byteLength ? `0x${arrayBufferToHexString(stored.payload)}` : "";
+      break;
+    default: {
+      state.recordType = "external";
+      state.externalTypeString = stored.recordType;
+      if (!isNDEFRecordTypeExternal(stored.recordType)) {
+        state.notice = `Record type "${stored.recordType}" is not a "domain:type" external type and must be changed before saving.`;
+      }
+      if (stored.encoding && formEncoding(stored.encoding) === "utf-16") {
+        state.encoding = "utf-16";
+        state.textData = decodeText(stored.payload, stored.encoding);
+        break;
+      }
+      const text = stored.payload ? tryDecodeUtf8(stored.payload) : "";
+      if (text !== null) {
+        state.textData = text;
+      } else {
+        state.fileArrayBuffer = stored.payload;
+      }
+    }
+  }
+  return state;
+}
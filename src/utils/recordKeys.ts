@@ -0,0 +1,18 @@
+// src/utils/recordKeys.ts
+/*global NDEFRecord*/ // WebNFC global types
+import { toRaw } from 'vue';
+
+// Stable per-instance keys for rendering record lists. NDEFRecord has no identity field, and
+// index keys would move component state (e.g. expanded details) to the wrong record on reorder.
+const keys = new WeakMap<object, number>();
+let nextKey = 1;
+
+export function recordKey(record: NDEFRecord): number {
+  const raw = toRaw(record) as object; // The same record may be seen raw or through a reactive proxy
+  let key = keys.get(raw);
+  if (key === undefined) {
+    key = nextKey++;
+    keys.set(raw, key);
+  }
+  return key;
+}
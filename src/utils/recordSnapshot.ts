@@ -0,0 +1,86 @@
+// src/utils/recordSnapshot.ts
+/*global NDEFRecord, NDEFRecordInit, NDEFMessageInit*/ // WebNFC global types
+import type { NDEFRecordInitCustom, StoredRecord } from '../@types/app';
+import { decodeNdefMessage } from './ndefCodec';
+
+// Copies the bytes a DataView/typed array/ArrayBuffer points at into a fresh ArrayBuffer.
+function copyBytes(data: BufferSource): ArrayBuffer {
+  if (ArrayBuffer.isView(data)) {
+    return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+  }
+  return (data as ArrayBuffer).slice(0);
+}
+
+// Deep-copies an NDEFMessageInit into plain objects (no Vue proxies, no shared buffers),
+// so it can be structured-cloned or serialised.
+export function cloneMessageInit(message: NDEFMessageInit): NDEFMessageInit {
+  return {
+    records: message.records.map((record: NDEFRecordInit) => {
+      const copy: NDEFRecordInit = { recordType: record.recordType };
+      if (record.mediaType) copy.mediaType = record.mediaType;
+      if (record.id) copy.id = record.id;
+      if (record.encoding) copy.encoding = record.encoding;
+      if (record.lang) copy.lang = record.lang;
+      if (typeof record.data === "string") {
+        copy.data = record.data;
+      } else if (record.data && typeof record.data === "object" && "records" in record.data) {
+        copy.data = cloneMessageInit(record.data as NDEFMessageInit);
+      } else if (record.data) {
+        copy.data = copyBytes(record.data as BufferSource);
+      }
+      return copy;
+    }),
+  };
+}
+
+// Takes a lossless snapshot of an NDEFRecord instance.
+export function snapshotRecord(rec: NDEFRecord): StoredRecord {
+  const stored: StoredRecord = {
+    recordType: rec.recordType,
+    payload: rec.data ? copyBytes(rec.data) : null,
+  };
+  if (rec.mediaType) stored.mediaType = rec.mediaType;
+  if (rec.id) stored.id = rec.id;
+  if (rec.encoding) stored.encoding = rec.encoding;
+  if (rec.lang) stored.lang = rec.lang;
+
+  if (rec.recordType === "smart-poster") {
+    // Records created in this app carry _smartPosterData; scanned ones only have the raw payload.
+    const spData = (rec as NDEFRecord & { _smartPosterData?: NDEFMessageInit })._smartPosterData;
+    if (spData) {
+      stored.smartPosterData = cloneMessageInit(spData);
+    } else if (stored.payload && stored.payload.byteLength) {
+      try {
+        stored.smartPosterData = { records: decodeNdefMessage(stored.payload) };
+      } catch (err) {
+        // Keep the raw payload; it is still restored byte for byte.
+        console.warn("Could not decode smart poster payload:", err);
+      }
+    }
+  }
+  return stored;
+}
+
+// Turns a snapshot back into the init that recreates the record through createRecord().
+export function snapshotToRecordInit(stored: StoredRecord): NDEFRecordInitCustom {
+  const init: NDEFRecordInitCustom = { recordType: stored.recordType };
+  if (stored.mediaType) init.mediaType = stored.mediaType;
+  if (stored.id) init.id = stored.id;
+  if (stored.encoding) init.encoding = stored.encoding;
+  if (stored.lang) init.lang = stored.lang;
+
+  if (stored.recordType === "smart-poster") {
+    if (stored.smartPosterData) {
+      init.data = cloneMessageInit(stored.smartPosterData);
+    } else if (stored.payload && stored.payload.byteLength) {
+      init.data = { records: decodeNdefMessage(stored.payload) };
+    }
+  } else if (stored.recordType === "url" || stored.recordType === "absolute-url") {
+    // The NDEFRecord constructor only accepts strings for URL records.
+    init.data = stored.payload ? new TextDecoder("utf-8").decode(stored.payload) : "";
+  } else if (stored.recordType !== "empty" && stored.payload) {
+    // Text records keep their raw bytes so UTF-16 payloads are not re-encoded as UTF-8.
+    init.data = stored.payload.slice(0);
+  }
+  return init;
+}
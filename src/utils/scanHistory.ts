@@ -0,0 +1,136 @@
+// src/utils/scanHistory.ts
+/*global NDEFRecordInit*/ // WebNFC global types
+import type { ScanHistoryEntry, ScanHistoryEntryKind, StoredRecord } from '../@types/app';
+import { storedRecordToJson } from './messageJson';
+import type { MessageJsonRecord } from './messageJson';
+import { isTextBasedMediaType } from './recordForm';
+import { formatCsv } from './csv';
+import { WIFI_WSC_MEDIA_TYPE, WIFI_AUTH_TYPES, decodeWifiCredential } from './wifiCredential';
+import { isVCardMediaType, parseVCard, contactFromVCard, contactDisplayName } from './vcard';
+
+const SUMMARY_TEXT_LENGTH = 60;
+
+function shorten(text: string): string {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > SUMMARY_TEXT_LENGTH ? `${singleLine.slice(0, SUMMARY_TEXT_LENGTH)}…` : singleLine;
+}
+
+function decodePayload(payload: ArrayBuffer, encoding = "utf-8"): string {
+  try {
+    return new TextDecoder(encoding).decode(payload);
+  } catch {
+    return new TextDecoder("utf-8").decode(payload);
+  }
+}
+
+function summarizeNested(records: NDEFRecordInit[]): string {
+  const uri = records.find((record) => record.recordType === "url" && typeof record.data === "string");
+  const types = records.map((record) => record.recordType).join(", ");
+  return uri ? `${shorten(uri.data as string)} (${types})` : types || "empty";
+}
+
+// One-line description of a record, e.g. `url: https://example.com` or `mime image/png, 1204 bytes`.
+export function summarizeRecord(record: StoredRecord): string {
+  const payload = record.payload;
+  const size = payload?.byteLength ?? 0;
+  switch (record.recordType) {
+    case "empty":
+      return "empty";
+    case "text":
+      return `text [${record.lang || "?"}]: ${payload ? shorten(decodePayload(payload, record.encoding)) : ""}`;
+    case "url":
+    case "absolute-url":
+      return `${record.recordType}: ${payload ? shorten(decodePayload(payload)) : ""}`;
+    case "smart-poster":
+      return `smart-poster: ${record.smartPosterData ? summarizeNested(record.smartPosterData.records) : `${size} bytes`}`;
+    case "mime":
+      if (payload && record.mediaType === WIFI_WSC_MEDIA_TYPE) {
+        try {
+          const wifi = decodeWifiCredential(payload); // The network key is left out on purpose
+          return `wifi: ${shorten(wifi.ssid)} (${WIFI_AUTH_TYPES[wifi.authType].label})`;
+        } catch {
+          // Summarised as a binary MIME record below
+        }
+      }
+      if (payload && isVCardMediaType(record.mediaType)) {
+        try {
+          const { contact } = contactFromVCard(parseVCard(decodePayload(payload, record.encoding)));
+          return `contact: ${shorten(contactDisplayName(contact) || "(no name)")}`;
+        } catch {
+          // Summarised as text below
+        }
+      }
+      if (payload && record.mediaType && isTextBasedMediaType(record.mediaType)) {
+        return `mime ${record.mediaType}: ${shorten(decodePayload(payload))}`;
+      }
+      return `mime ${record.mediaType || "?"}, ${size} bytes`;
+    default:
+      return `${record.recordType}, ${size} bytes`;
+  }
+}
+
+// JSON exchange format for a scan session, version 1:
+//
+// {
+//   "format": "web-nfc-demo/scan-history",
+//   "version": 1,
+//   "exportedAt": "2024-05-01T12:00:00.000Z",
+//   "entries": [{
+//     "time": "2024-05-01T11:58:03.120Z",
+//     "kind": "reading" | "error",
+//     "uid": "04:a1:b2:c3:d4:e5:f6",           // "" for reading errors
+//     "records": [ <record>, ... ],           // same entries as in a message export (messageJson.ts)
+//     "error"?: "The tag could not be read."
+//   }, ...]                                   // oldest first
+// }
+
+export const SCAN_HISTORY_FORMAT = "web-nfc-demo/scan-history";
+export const SCAN_HISTORY_VERSION = 1;
+
+export interface ScanHistoryJsonEntry {
+  time: string;
+  kind: ScanHistoryEntryKind;
+  uid: string;
+  records: MessageJsonRecord[];
+  error?: string;
+}
+
+export interface ScanHistoryJson {
+  format: typeof SCAN_HISTORY_FORMAT;
+  version: number;
+  exportedAt: string;
+  entries: ScanHistoryJsonEntry[];
+}
+
+export function scanHistoryToJson(entries: readonly ScanHistoryEntry[], exportedAt: Date = new Date()): ScanHistoryJson {
+  return {
+    format: SCAN_HISTORY_FORMAT,
+    version: SCAN_HISTORY_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    entries: entries.map((entry) => {
+      const json: ScanHistoryJsonEntry = {
+        time: new Date(entry.time).toISOString(),
+        kind: entry.kind,
+        uid: entry.uid,
+        records: entry.records.map(storedRecordToJson),
+      };
+      if (entry.error) json.error = entry.error;
+      return json;
+    }),
+  };
+}
+
+export const SCAN_HISTORY_CSV_COLUMNS = ["time", "kind", "uid", "record_count", "records", "error"] as const;
+
+// One row per entry, oldest first. The "records" column holds the record summaries separated by " | ".
+export function scanHistoryToCsv(entries: readonly ScanHistoryEntry[]): string {
+  const rows = entries.map((entry) => [
+    new Date(entry.time).toISOString(),
+    entry.kind,
+    entry.uid,
+    entry.records.length,
+    entry.records.map(summarizeRecord).join(" | "),
+    entry.error ?? "",
+  ]);
+  return formatCsv([SCAN_HISTORY_CSV_COLUMNS, ...rows]);
+}
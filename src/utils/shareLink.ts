@@ -0,0 +1,98 @@
+// src/utils/shareLink.ts
+/*global NDEFRecord, CompressionStream, DecompressionStream*/ // WebNFC and Compression Streams global types
+import type { NDEFRecordInitCustom } from '../@types/app';
+import { encodeBase64, decodeBase64 } from './nfcUtils';
+import { recordsToNdefFile, parseNdefFile } from './ndefFile';
+
+// Share links carry a draft message in the URL fragment, which browsers never send to the
+// server:
+//
+//   https://host/path#draft=1.<data>
+//
+// <data> is the raw NDEF message (as in a .ndef file), compressed with deflate-raw and
+// written in URL-safe Base64 without padding. "1." is the format version.
+
+export const SHARE_FRAGMENT_KEY = "draft";
+export const SHARE_LINK_VERSION = 1;
+
+// Limits for links opened from elsewhere: the encoded data, and the message once inflated.
+// Even the largest tags hold a few KiB; the caps keep a crafted link from exhausting memory.
+export const MAX_SHARE_DATA_LENGTH = 64 * 1024;
+export const MAX_SHARE_MESSAGE_BYTES = 64 * 1024;
+
+// Links longer than this may be cut off by chat apps and mail clients.
+export const LONG_SHARE_LINK_LENGTH = 2000;
+
+// Runs bytes through a (de)compression stream. With `maxBytes`, stops and returns null once the
+// output passes it.
+function transformBytes(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array>;
+function transformBytes(bytes: Uint8Array, stream: CompressionStream | DecompressionStream, maxBytes: number): Promise<Uint8Array | null>;
+async function transformBytes(bytes: Uint8Array, stream: CompressionStream | DecompressionStream, maxBytes = Infinity): Promise<Uint8Array | null> {
+  const writer = stream.writable.getWriter();
+  const writing = writer.write(bytes).then(() => writer.close());
+  writing.catch(() => undefined); // Failures also surface on the readable side
+
+  const reader = stream.readable.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.byteLength;
+    if (length > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return result;
+}
+
+// The share link for `records` on the page at `pageUrl` (any existing fragment is replaced).
+export async function createShareLink(records: NDEFRecord[], pageUrl: string): Promise<string> {
+  const compressed = await transformBytes(recordsToNdefFile(records), new CompressionStream("deflate-raw"));
+  const data = encodeBase64(compressed.slice().buffer).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+  const url = new URL(pageUrl);
+  url.hash = `${SHARE_FRAGMENT_KEY}=${SHARE_LINK_VERSION}.${data}`;
+  return url.toString();
+}
+
+// Reads the draft from a URL fragment ("#draft=..."). Returns null when the fragment holds no
+// draft; throws with the reason when it holds one that cannot be read.
+export async function readShareFragment(hash: string): Promise<{ index: number; init: NDEFRecordInitCustom }[] | null> {
+  const value = new URLSearchParams(hash.replace(/^#/, "")).get(SHARE_FRAGMENT_KEY);
+  if (value === null) return null;
+
+  const match = /^(\d+)\.([A-Za-z0-9_-]*)$/.exec(value);
+  if (!match) throw new Error("The link is damaged: the draft is not in the expected format.");
+  if (Number(match[1]) !== SHARE_LINK_VERSION) {
+    throw new Error(`The link uses share format ${match[1]}; this version of the editor reads format ${SHARE_LINK_VERSION}.`);
+  }
+  if (match[2].length > MAX_SHARE_DATA_LENGTH) throw new Error(`The draft is longer than ${MAX_SHARE_DATA_LENGTH} characters.`);
+
+  let message: Uint8Array | null;
+  try {
+    message = await transformBytes(new Uint8Array(decodeBase64(match[2])), new DecompressionStream("deflate-raw"), MAX_SHARE_MESSAGE_BYTES);
+  } catch {
+    throw new Error("The link is damaged: the draft does not decompress. It may have been cut off when it was copied.");
+  }
+  if (!message) throw new Error(`The shared message is larger than ${MAX_SHARE_MESSAGE_BYTES} bytes.`);
+  const entries = parseNdefFile(message.slice().buffer);
+  if (!entries.length) throw new Error("The draft contains no records.");
+  return entries;
+}
+
+// The page URL without a draft, to put in the address bar once the draft has been handled.
+export function withoutShareFragment(pageUrl: string): string {
+  const url = new URL(pageUrl);
+  const params = new URLSearchParams(url.hash.replace(/^#/, ""));
+  params.delete(SHARE_FRAGMENT_KEY);
+  url.hash = params.toString();
+  return url.toString();
+}
@@ -0,0 +1,169 @@
+// src/utils/smartPoster.ts
+/*global NDEFRecordInit*/ // WebNFC global types
+import type { SmartPoster, SmartPosterAction, SmartPosterTitle } from '../@types/app';
+
+// Smart poster records (NFC Forum Smart Poster RTD). The payload is a nested NDEF message of:
+//
+//   URI record, exactly one
+//   Text records, the titles, at most one per language
+//   "act" (action), 1 byte: 0 = do the action, 1 = save for later, 2 = open for editing
+//   "s" (size of the linked content), 4 bytes big-endian
+//   "t" (MIME type of the linked content), UTF-8
+//   MIME records with image/* or video/* types, the icon
+//
+// "act", "s" and "t" are local types, which Web NFC names ":act", ":s" and ":t" and only
+// accepts inside a smart poster.
+
+export const SMART_POSTER_ACTIONS: Record<Exclude<SmartPosterAction, "">, { code: number; label: string }> = {
+  do: { code: 0, label: "Do the action (open the link)" },
+  save: { code: 1, label: "Save for later" },
+  open: { code: 2, label: "Open for editing" },
+};
+
+export function defaultSmartPoster(): SmartPoster {
+  return { url: "", titles: [{ lang: "en", text: "" }], action: "", size: null, type: "", icon: null };
+}
+
+export function isSmartPosterIconType(mediaType: string | null | undefined): boolean {
+  return !!mediaType && (mediaType.startsWith("image/") || mediaType.startsWith("video/"));
+}
+
+// Titles that are written; rows left empty in the form are skipped.
+function filledTitles(poster: SmartPoster): SmartPosterTitle[] {
+  return poster.titles.filter((title) => title.text);
+}
+
+// Returns why the poster cannot be written, or null if it is valid.
+export function validateSmartPoster(poster: SmartPoster): string | null {
+  if (!poster.url.trim()) return "Enter the URL the poster links to.";
+  const seen = new Set<string>();
+  for (const title of filledTitles(poster)) {
+    const lang = title.lang.trim();
+    if (!/^[A-Za-z]{1,8}(-[A-Za-z0-9]{1,8})*$/.test(lang)) {
+      return `Enter a language tag such as "en" or "fr-CA" for the title "${title.text}".`;
+    }
+    if (seen.has(lang.toLowerCase())) return `There is more than one title in "${lang}"; a poster has at most one title per language.`;
+    seen.add(lang.toLowerCase());
+  }
+  if (poster.size !== null && !(Number.isInteger(poster.size) && poster.size >= 0 && poster.size <= 0xffffffff)) {
+    return "The size must be a whole number of bytes, at most 4294967295.";
+  }
+  if (poster.type.trim() && !/^[^\s/]+\/[^\s/]+$/.test(poster.type.trim())) {
+    return `"${poster.type}" is not a MIME type such as "video/mp4".`;
+  }
+  if (poster.icon && !isSmartPosterIconType(poster.icon.mediaType)) {
+    return "The icon must be an image or a video.";
+  }
+  return null;
+}
+
+const textEncoder = new TextEncoder();
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+// The record init for a poster, ready for createRecord() or writing. Throws if the poster is not valid.
+export function smartPosterToRecordInit(poster: SmartPoster): NDEFRecordInit {
+  const problem = validateSmartPoster(poster);
+  if (problem) throw new Error(problem);
+  const records: NDEFRecordInit[] = [{ recordType: "url", data: poster.url.trim() }];
+  for (const title of filledTitles(poster)) {
+    records.push({ recordType: "text", data: title.text, lang: title.lang.trim(), encoding: "utf-8" });
+  }
+  if (poster.action) {
+    records.push({ recordType: ":act", data: new Uint8Array([SMART_POSTER_ACTIONS[poster.action].code]).buffer });
+  }
+  if (poster.size !== null) {
+    const size = new DataView(new ArrayBuffer(4));
+    size.setUint32(0, poster.size);
+    records.push({ recordType: ":s", data: size.buffer });
+  }
+  if (poster.type.trim()) records.push({ recordType: ":t", data: toArrayBuffer(textEncoder.encode(poster.type.trim())) });
+  if (poster.icon) records.push({ recordType: "mime", mediaType: poster.icon.mediaType, data: poster.icon.data.slice(0) });
+  return { recordType: "smart-poster", data: { records } };
+}
+
+// Minimal shape shared by NDEFRecord (from toRecords()) and NDEFRecordInit (from stored or decoded messages).
+interface NestedRecordLike {
+  recordType: string;
+  mediaType?: string | null;
+  lang?: string | null;
+  encoding?: string | null;
+  data?: unknown;
+}
+
+function bytesOf(data: unknown): Uint8Array {
+  if (typeof data === "string") return textEncoder.encode(data);
+  if (!data || typeof data !== "object" || "records" in data) return new Uint8Array(0);
+  return ArrayBuffer.isView(data) ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength) : new Uint8Array(data as ArrayBuffer);
+}
+
+function textOf(record: NestedRecordLike): string {
+  if (typeof record.data === "string") return record.data;
+  return new TextDecoder(record.encoding || "utf-8").decode(bytesOf(record.data));
+}
+
+function describe(record: NestedRecordLike): string {
+  return record.mediaType ? `${record.recordType} (${record.mediaType})` : record.recordType;
+}
+
+// Maps the nested records of a smart poster to poster fields. Records without a field, repeats
+// of single-valued ones (a second URL, action or icon, a second title in one language) and
+// sub-records with malformed payloads are returned in unmapped, described by their type.
+export function smartPosterFromRecords(records: readonly NestedRecordLike[]): { poster: SmartPoster; unmapped: string[] } {
+  const poster: SmartPoster = { ...defaultSmartPoster(), titles: [] };
+  const unmapped: string[] = [];
+  const seen = new Set<string>();
+  for (const record of records) {
+    const first = !seen.has(record.recordType);
+    seen.add(record.recordType);
+    const bytes = bytesOf(record.data);
+    switch (record.recordType) {
+      case "url":
+        if (first) poster.url = textOf(record);
+        else unmapped.push(describe(record));
+        break;
+      case "text": {
+        const lang = record.lang ?? "";
+        if (poster.titles.some((title) => title.lang.toLowerCase() === lang.toLowerCase())) unmapped.push(`text (second "${lang}" title)`);
+        else poster.titles.push({ lang, text: textOf(record) });
+        break;
+      }
+      case ":act": {
+        const action = (Object.keys(SMART_POSTER_ACTIONS) as Exclude<SmartPosterAction, "">[])
+          .find((name) => SMART_POSTER_ACTIONS[name].code === bytes[0]);
+        if (first && bytes.byteLength === 1 && action) poster.action = action;
+        else unmapped.push(describe(record));
+        break;
+      }
+      case ":s":
+        if (first && bytes.byteLength === 4) poster.size = new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0);
+        else unmapped.push(describe(record));
+        break;
+      case ":t":
+        if (first) poster.type = textOf(record);
+        else unmapped.push(describe(record));
+        break;
+      case "mime":
+        if (!poster.icon && isSmartPosterIconType(record.mediaType)) poster.icon = { mediaType: record.mediaType!, data: toArrayBuffer(bytes) };
+        else unmapped.push(describe(record));
+        break;
+      default:
+        unmapped.push(describe(record));
+    }
+  }
+  return { poster, unmapped };
+}
+
+// The title to show first: the one in the first preferred language that has one (an exact
+// match, else the same primary language), else the first title.
+export function pickTitle(titles: readonly SmartPosterTitle[], languages: readonly string[]): SmartPosterTitle | null {
+  for (const language of languages) {
+    const wanted = language.toLowerCase();
+    const match = titles.find((title) => title.lang.toLowerCase() === wanted)
+      ?? titles.find((title) => title.lang.toLowerCase().split("-")[0] === wanted.split("-")[0]);
+    if (match) return match;
+  }
+  return titles[0] ?? null;
+}
@@ -0,0 +1,49 @@
+// src/utils/tagProfiles.ts
+import type { TagProfile } from '../@types/app';
+
+// Catalog of common tag models with the memory available to NDEF data, from the vendor data sheets.
+// Type 2 tags keep their Capability Container outside user memory; ICODE SLIX (Type 5) stores its
+// 4-byte CC in the first user block, which is already subtracted here.
+export const TAG_PROFILES: readonly TagProfile[] = [
+  { id: "ntag210", name: "NTAG210", nfcForumType: 2, storage: "tlv", ndefBytes: 48 },
+  { id: "ntag212", name: "NTAG212", nfcForumType: 2, storage: "tlv", ndefBytes: 128 },
+  { id: "ntag213", name: "NTAG213", nfcForumType: 2, storage: "tlv", ndefBytes: 144 },
+  { id: "ntag215", name: "NTAG215", nfcForumType: 2, storage: "tlv", ndefBytes: 504 },
+  { id: "ntag216", name: "NTAG216", nfcForumType: 2, storage: "tlv", ndefBytes: 888 },
+  { id: "ultralight", name: "MIFARE Ultralight", nfcForumType: 2, storage: "tlv", ndefBytes: 48 },
+  { id: "ultralight-ev1-11", name: "MIFARE Ultralight EV1 (MF0UL11)", nfcForumType: 2, storage: "tlv", ndefBytes: 48 },
+  { id: "ultralight-ev1-21", name: "MIFARE Ultralight EV1 (MF0UL21)", nfcForumType: 2, storage: "tlv", ndefBytes: 128 },
+  { id: "icode-slix", name: "ICODE SLIX", nfcForumType: 5, storage: "tlv", ndefBytes: 108 },
+  { id: "icode-slix2", name: "ICODE SLIX2", nfcForumType: 5, storage: "tlv", ndefBytes: 316 },
+  { id: "ntag424", name: "NTAG 424 DNA (Type 4, 256-byte NDEF file)", nfcForumType: 4, storage: "nlen", ndefBytes: 256 },
+  { id: "type4-2k", name: "Type 4, 2 KB NDEF file (e.g. DESFire EV1 2K)", nfcForumType: 4, storage: "nlen", ndefBytes: 2048 },
+  { id: "type4-4k", name: "Type 4, 4 KB NDEF file (e.g. DESFire EV1 4K)", nfcForumType: 4, storage: "nlen", ndefBytes: 4096 },
+  { id: "type4-8k", name: "Type 4, 8 KB NDEF file (e.g. DESFire EV1 8K)", nfcForumType: 4, storage: "nlen", ndefBytes: 8192 },
+];
+
+export const DEFAULT_TAG_PROFILE_ID = "ntag213";
+
+export function findTagProfile(id: string): TagProfile | undefined {
+  return TAG_PROFILES.find((profile) => profile.id === id);
+}
+
+// Bytes the tag needs around a message of the given length:
+// - TLV: tag byte plus a 1-byte length (up to 254) or 0xFF and a 2-byte length
+// - NLEN: the 2-byte length at the start of the NDEF file
+// The optional Terminator TLV is not counted; writers omit it when the message fills the tag.
+export function storageOverhead(profile: TagProfile, messageBytes: number): number {
+  if (profile.storage === "nlen") return 2;
+  return messageBytes < 0xff ? 2 : 4;
+}
+
+export interface CapacityCheck {
+  messageBytes: number;
+  usedBytes: number; // Message plus storage overhead
+  availableBytes: number;
+  fits: boolean;
+}
+
+export function checkCapacity(profile: TagProfile, messageBytes: number): CapacityCheck {
+  const usedBytes = messageBytes + storageOverhead(profile, messageBytes);
+  return { messageBytes, usedBytes, availableBytes: profile.ndefBytes, fits: usedBytes <= profile.ndefBytes };
+}
@@ -0,0 +1,305 @@
+// src/utils/vcard.ts
+/*global NDEFRecordInit*/ // WebNFC global types
+import type { Contact, ContactEntry, VCardProperty, VCardVersion } from '../@types/app';
+
+// Contact records (MIME type text/vcard). The builder writes compact vCard 3.0 (RFC 2426) or
+// 4.0 (RFC 6350): only the filled-in properties, CRLF line endings and lines folded at 75 bytes.
+// The parser also reads what phones and address books write in practice: folded lines,
+// property groups ("item1.TEL"), quoted and vCard 2.1 style bare parameters ("TEL;CELL:").
+
+export const VCARD_MEDIA_TYPE = "text/vcard";
+
+export function isVCardMediaType(mediaType: string | undefined): boolean {
+  const type = mediaType?.split(";")[0].trim().toLowerCase();
+  return type === "text/vcard" || type === "text/x-vcard";
+}
+
+// TYPE values offered by the contact form; "" writes no TYPE parameter.
+export const PHONE_TYPES: { value: string; label: string }[] = [
+  { value: "cell", label: "Mobile" },
+  { value: "work", label: "Work" },
+  { value: "home", label: "Home" },
+  { value: "fax", label: "Fax" },
+  { value: "", label: "Other" },
+];
+
+export const EMAIL_TYPES: { value: string; label: string }[] = [
+  { value: "work", label: "Work" },
+  { value: "home", label: "Home" },
+  { value: "", label: "Other" },
+];
+
+export function defaultContact(): Contact {
+  return {
+    version: "3.0",
+    formattedName: "",
+    givenName: "",
+    familyName: "",
+    organization: "",
+    phones: [],
+    emails: [],
+    url: "",
+    address: { street: "", city: "", region: "", postalCode: "", country: "" },
+    note: "",
+  };
+}
+
+// FN as written: the display name if given, else built from the name parts, else the organization.
+export function contactDisplayName(contact: Contact): string {
+  return (
+    contact.formattedName.trim() ||
+    [contact.givenName, contact.familyName].map((part) => part.trim()).filter(Boolean).join(" ") ||
+    contact.organization.trim()
+  );
+}
+
+// Returns why the contact cannot be written, or null if it is valid.
+export function validateContact(contact: Contact): string | null {
+  if (!contactDisplayName(contact)) return "Enter a name or an organization for the contact.";
+  const badEmail = contact.emails.find((email) => email.value.trim() && !/^[^\s@]+@[^\s@]+$/.test(email.value.trim()));
+  if (badEmail) return `"${badEmail.value}" is not an email address.`;
+  if (contact.url.trim() && !/^[a-z][a-z0-9+.-]*:/i.test(contact.url.trim())) {
+    return "The website must be a full URL, e.g. https://example.com.";
+  }
+  return null;
+}
+
+// Escapes a TEXT value (RFC 6350 section 3.4): backslash, comma, semicolon and line breaks.
+function escapeText(text: string): string {
+  return text.replace(/[\\,;]/g, (char) => `\\${char}`).replace(/\r\n|\r|\n/g, "\\n");
+}
+
+const textEncoder = new TextEncoder();
+
+// Splits a content line into lines of at most 75 bytes, continued with a leading space.
+// Multi-byte characters are never split.
+function foldLine(line: string): string {
+  if (textEncoder.encode(line).byteLength <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = textEncoder.encode(char).byteLength;
+    const limit = parts.length ? 74 : 75; // Continuation lines start with a space
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function typeParam(entry: ContactEntry): string {
+  return entry.type ? `;TYPE=${entry.type}` : "";
+}
+
+// Builds the vCard text. Throws if the contact is not valid.
+export function buildVCard(contact: Contact): string {
+  const problem = validateContact(contact);
+  if (problem) throw new Error(problem);
+  const lines = ["BEGIN:VCARD", `VERSION:${contact.version}`, `FN:${escapeText(contactDisplayName(contact))}`];
+  const given = contact.givenName.trim();
+  const family = contact.familyName.trim();
+  // N is required in 3.0 and optional in 4.0
+  if (contact.version === "3.0" || given || family) {
+    lines.push(`N:${[family, given, "", "", ""].map(escapeText).join(";")}`);
+  }
+  if (contact.organization.trim()) lines.push(`ORG:${escapeText(contact.organization.trim())}`);
+  for (const phone of contact.phones) {
+    if (phone.value.trim()) lines.push(`TEL${typeParam(phone)}:${escapeText(phone.value.trim())}`);
+  }
+  for (const email of contact.emails) {
+    if (email.value.trim()) lines.push(`EMAIL${typeParam(email)}:${escapeText(email.value.trim())}`);
+  }
+  if (contact.url.trim()) lines.push(`URL:${contact.url.trim()}`); // A URI, not escaped
+  const { street, city, region, postalCode, country } = contact.address;
+  const addressParts = ["", "", street, city, region, postalCode, country].map((part) => part.trim());
+  if (addressParts.some(Boolean)) lines.push(`ADR:${addressParts.map(escapeText).join(";")}`);
+  if (contact.note.trim()) lines.push(`NOTE:${escapeText(contact.note.trim())}`);
+  lines.push("END:VCARD");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// The record init for a contact, ready for createRecord() or writing.
+export function contactToRecordInit(contact: Contact): NDEFRecordInit {
+  const bytes = textEncoder.encode(buildVCard(contact));
+  return { recordType: "mime", mediaType: VCARD_MEDIA_TYPE, data: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) };
+}
+
+// Splits on a separator that is not escaped with a backslash (and, for parameters, not quoted).
+function splitUnescaped(text: string, separator: string, respectQuotes = false): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\" && i + 1 < text.length && !respectQuotes) {
+      current += char + text[++i];
+    } else if (char === '"' && respectQuotes) {
+      quoted = !quoted;
+      current += char;
+    } else if (char === separator && !quoted) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\(.)/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+function unquote(text: string): string {
+  return text.length >= 2 && text.startsWith('"') && text.endsWith('"') ? text.slice(1, -1) : text;
+}
+
+// Index of the colon that ends the property name and parameters (colons in quoted parameter values do not count).
+function valueSeparatorIndex(line: string): number {
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ":" && !quoted) return i;
+  }
+  return -1;
+}
+
+function parseContentLine(line: string): VCardProperty | null {
+  const colon = valueSeparatorIndex(line);
+  if (colon < 0) return null;
+  const [nameWithGroup, ...paramTexts] = splitUnescaped(line.slice(0, colon), ";", true);
+  const dot = nameWithGroup.lastIndexOf(".");
+  const params: Record<string, string[]> = {};
+  for (const paramText of paramTexts) {
+    const equals = paramText.indexOf("=");
+    // vCard 2.1 allows bare type names: "TEL;CELL;VOICE:..."
+    const key = equals < 0 ? "TYPE" : paramText.slice(0, equals).trim().toUpperCase();
+    const values = equals < 0 ? [paramText] : splitUnescaped(paramText.slice(equals + 1), ",", true);
+    const list = (params[key] ??= []);
+    for (const value of values) {
+      const unquoted = unquote(value.trim());
+      // Quoted lists such as TYPE="work,voice" are split too
+      list.push(...(key === "TYPE" ? unquoted.split(",").map((type) => type.trim().toLowerCase()) : [unquoted]));
+    }
+  }
+  const components = splitUnescaped(line.slice(colon + 1), ";").map(unescapeText);
+  return {
+    group: dot < 0 ? "" : nameWithGroup.slice(0, dot),
+    name: nameWithGroup.slice(dot + 1).trim().toUpperCase(),
+    params,
+    value: components.join(";"),
+    components,
+  };
+}
+
+// Parses the first vCard in the text into its properties (BEGIN and END excluded).
+// Throws if the text holds no vCard.
+export function parseVCard(text: string): VCardProperty[] {
+  // Unfold: a line break followed by a space or tab continues the previous line
+  const lines = text.replace(/\r\n|\r/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const begin = lines.findIndex((line) => line.trim().toUpperCase() === "BEGIN:VCARD");
+  if (begin < 0) throw new Error("The text holds no vCard (BEGIN:VCARD is missing).");
+  const properties: VCardProperty[] = [];
+  for (const line of lines.slice(begin + 1)) {
+    if (line.trim().toUpperCase() === "END:VCARD") return properties;
+    const property = line.trim() ? parseContentLine(line) : null;
+    if (property) properties.push(property);
+  }
+  throw new Error("The vCard is incomplete (END:VCARD is missing).");
+}
+
+// TYPE values that say nothing the form can show.
+const IGNORED_TYPES = ["voice", "internet", "pref", "x400"];
+
+function entryFrom(property: VCardProperty): ContactEntry {
+  const type = property.params.TYPE?.find((value) => !IGNORED_TYPES.includes(value)) ?? "";
+  // vCard 4.0 may write telephone numbers and addresses as URIs
+  const value = property.value.replace(/^(tel|mailto):/i, "");
+  return { type, value };
+}
+
+// Properties the contact form and renderer do not show on their own.
+const STRUCTURAL_PROPERTIES = ["VERSION", "PRODID"];
+
+// Maps parsed properties to contact fields. Properties without a contact field, repeats of
+// single-valued ones (a second URL, ADR or NOTE), and names or organizations with parts the
+// form has no field for (middle names, prefixes, suffixes, organizational units) are returned
+// in unmapped; the latter still fill in the fields they can.
+export function contactFromVCard(properties: VCardProperty[]): { contact: Contact; unmapped: VCardProperty[] } {
+  const contact = defaultContact();
+  const unmapped: VCardProperty[] = [];
+  const seen = new Set<string>();
+  for (const property of properties) {
+    const first = !seen.has(property.name);
+    seen.add(property.name);
+    const [c0 = "", c1 = "", c2 = "", c3 = "", c4 = "", c5 = "", c6 = ""] = property.components;
+    switch (property.name) {
+      case "VERSION":
+        contact.version = property.value.trim() === "4.0" ? "4.0" : "3.0";
+        break;
+      case "FN":
+        if (first) contact.formattedName = property.value;
+        else unmapped.push(property);
+        break;
+      case "N":
+        if (first) {
+          contact.familyName = c0;
+          contact.givenName = c1;
+        }
+        if (!first || c2 || c3 || c4) unmapped.push(property);
+        break;
+      case "ORG":
+        if (first) contact.organization = property.components.filter(Boolean).join(", ");
+        if (!first || property.components.filter(Boolean).length > 1) unmapped.push(property);
+        break;
+      case "TEL":
+        contact.phones.push(entryFrom(property));
+        break;
+      case "EMAIL":
+        contact.emails.push(entryFrom(property));
+        break;
+      case "URL":
+        if (first) contact.url = property.value;
+        else unmapped.push(property);
+        break;
+      case "ADR":
+        // Post office box and extended address are appended to the street
+        if (first) contact.address = { street: [c2, c1, c0].filter(Boolean).join(", "), city: c3, region: c4, postalCode: c5, country: c6 };
+        else unmapped.push(property);
+        break;
+      case "NOTE":
+        if (first) contact.note = property.value;
+        else unmapped.push(property);
+        break;
+      default:
+        if (!STRUCTURAL_PROPERTIES.includes(property.name)) unmapped.push(property);
+    }
+  }
+  return { contact, unmapped };
+}
+
+// Link targets for the renderer. Numbers lose their spaces (not allowed in tel: URIs).
+export function telHref(number: string): string {
+  return `tel:${number.replace(/\s+/g, "")}`;
+}
+
+export function mailtoHref(address: string): string {
+  return `mailto:${address.trim()}`;
+}
+
+// Only web addresses are linked; other schemes (javascript: included) are shown as text.
+export function isWebUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url.trim());
+}
+
+export function vcfFileName(contact: Contact): string {
+  const name = contactDisplayName(contact).replace(/[\\/:*?"<>|\s]+/g, "_").replace(/^_+|_+$/g, "");
+  return `${name || "contact"}.vcf`;
+}
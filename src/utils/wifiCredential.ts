@@ -0,0 +1,183 @@
+// src/utils/wifiCredential.ts
+/*global NDEFRecordInit*/ // WebNFC global types
+import type { WifiAuthType, WifiCredential, WifiEncryptionType } from '../@types/app';
+
+// Wi-Fi credential records (MIME type application/vnd.wfa.wsc), as read by Android and other
+// phones to join a network. The payload is a list of WSC (Wi-Fi Simple Configuration) TLV
+// attributes: a 2-byte type, a 2-byte length and the value, all big-endian. A configuration
+// token written here holds:
+//
+//   Version (0x104A) = 0x10
+//   Credential (0x100E)
+//     Network Index (0x1026) = 1
+//     SSID (0x1045)
+//     Authentication Type (0x1003), 2 bytes
+//     Encryption Type (0x100F), 2 bytes
+//     Network Key (0x1027)
+//     MAC Address (0x1020), 6 bytes
+//   Vendor Extension (0x1049) = WFA vendor ID 00 37 2A, Version2 sub-element = 0x20
+//
+// WSC has no attribute for hidden networks, so the hidden flag is not written: phones that
+// join from a credential look for the SSID whether or not it is broadcast. The WIFI: QR
+// format does have a field for it (see wifiQrText in qrContent.ts).
+
+export const WIFI_WSC_MEDIA_TYPE = "application/vnd.wfa.wsc";
+
+const ATTR_VERSION = 0x104a;
+const ATTR_CREDENTIAL = 0x100e;
+const ATTR_NETWORK_INDEX = 0x1026;
+const ATTR_SSID = 0x1045;
+const ATTR_AUTH_TYPE = 0x1003;
+const ATTR_ENCRYPTION_TYPE = 0x100f;
+const ATTR_NETWORK_KEY = 0x1027;
+const ATTR_MAC_ADDRESS = 0x1020;
+const ATTR_VENDOR_EXTENSION = 0x1049;
+
+const WFA_VENDOR_ID = [0x00, 0x37, 0x2a];
+const WFA_SUBELEMENT_VERSION2 = 0x00;
+const BROADCAST_MAC = "ff:ff:ff:ff:ff:ff";
+
+export const WIFI_AUTH_TYPES: Record<WifiAuthType, { code: number; label: string }> = {
+  open: { code: 0x0001, label: "Open" },
+  "wpa-personal": { code: 0x0002, label: "WPA-Personal" },
+  shared: { code: 0x0004, label: "Shared (WEP)" },
+  "wpa-enterprise": { code: 0x0008, label: "WPA-Enterprise" },
+  "wpa2-enterprise": { code: 0x0010, label: "WPA2-Enterprise" },
+  "wpa2-personal": { code: 0x0020, label: "WPA2-Personal" },
+  "wpa-wpa2-personal": { code: 0x0022, label: "WPA/WPA2-Personal" },
+};
+
+export const WIFI_ENCRYPTION_TYPES: Record<WifiEncryptionType, { code: number; label: string }> = {
+  none: { code: 0x0001, label: "None" },
+  wep: { code: 0x0002, label: "WEP" },
+  tkip: { code: 0x0004, label: "TKIP" },
+  aes: { code: 0x0008, label: "AES" },
+  "aes-tkip": { code: 0x000c, label: "AES/TKIP" },
+};
+
+export function defaultWifiCredential(): WifiCredential {
+  return { ssid: "", authType: "wpa2-personal", encryptionType: "aes", networkKey: "", hidden: false };
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder("utf-8");
+
+// Returns why the credential cannot be written, or null if it is valid.
+export function validateWifiCredential(credential: WifiCredential): string | null {
+  const ssidBytes = textEncoder.encode(credential.ssid).byteLength;
+  if (ssidBytes < 1 || ssidBytes > 32) return "The SSID must be 1 to 32 bytes long.";
+  const key = credential.networkKey;
+  if (credential.authType === "open") {
+    if (credential.encryptionType !== "none" && credential.encryptionType !== "wep") {
+      return "Open networks use no encryption (or WEP).";
+    }
+    if (credential.encryptionType === "none" && key) return "Open networks without encryption have no network key.";
+  }
+  if (credential.encryptionType === "wep") {
+    if (![5, 13, 10, 26].includes(key.length) || ((key.length === 10 || key.length === 26) && !/^[0-9a-f]+$/i.test(key))) {
+      return "A WEP key is 5 or 13 characters, or 10 or 26 hex digits.";
+    }
+  } else if (credential.authType.endsWith("personal")) {
+    if (!(key.length >= 8 && key.length <= 63) && !/^[0-9a-f]{64}$/i.test(key)) {
+      return "A WPA passphrase is 8 to 63 characters, or a 64-digit hex key.";
+    }
+  }
+  return null;
+}
+
+function attribute(type: number, value: Uint8Array): number[] {
+  return [type >> 8, type & 0xff, value.byteLength >> 8, value.byteLength & 0xff, ...value];
+}
+
+function uint16(value: number): Uint8Array {
+  return new Uint8Array([value >> 8, value & 0xff]);
+}
+
+function parseMac(mac: string): Uint8Array {
+  const parts = mac.split(/[:-]/);
+  if (parts.length !== 6 || parts.some((part) => !/^[0-9a-f]{2}$/i.test(part))) {
+    throw new Error(`"${mac}" is not a MAC address.`);
+  }
+  return new Uint8Array(parts.map((part) => parseInt(part, 16)));
+}
+
+// Builds the WSC configuration token. Throws if the credential is not valid.
+export function encodeWifiCredential(credential: WifiCredential): Uint8Array {
+  const problem = validateWifiCredential(credential);
+  if (problem) throw new Error(problem);
+  const credentialBytes = [
+    ...attribute(ATTR_NETWORK_INDEX, new Uint8Array([1])),
+    ...attribute(ATTR_SSID, textEncoder.encode(credential.ssid)),
+    ...attribute(ATTR_AUTH_TYPE, uint16(WIFI_AUTH_TYPES[credential.authType].code)),
+    ...attribute(ATTR_ENCRYPTION_TYPE, uint16(WIFI_ENCRYPTION_TYPES[credential.encryptionType].code)),
+    ...attribute(ATTR_NETWORK_KEY, textEncoder.encode(credential.networkKey)),
+    ...attribute(ATTR_MAC_ADDRESS, parseMac(credential.macAddress || BROADCAST_MAC)),
+  ];
+  return new Uint8Array([
+    ...attribute(ATTR_VERSION, new Uint8Array([0x10])),
+    ...attribute(ATTR_CREDENTIAL, new Uint8Array(credentialBytes)),
+    ...attribute(ATTR_VENDOR_EXTENSION, new Uint8Array([...WFA_VENDOR_ID, WFA_SUBELEMENT_VERSION2, 1, 0x20])),
+  ]);
+}
+
+// The record init for a credential, ready for createRecord() or writing.
+export function wifiCredentialToRecordInit(credential: WifiCredential): NDEFRecordInit {
+  const bytes = encodeWifiCredential(credential);
+  return { recordType: "mime", mediaType: WIFI_WSC_MEDIA_TYPE, data: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) };
+}
+
+// Splits a run of TLV attributes into type -> values (an attribute may repeat).
+function parseAttributes(bytes: Uint8Array, baseOffset: number): Map<number, Uint8Array[]> {
+  const attributes = new Map<number, Uint8Array[]>();
+  let offset = 0;
+  while (offset < bytes.byteLength) {
+    if (offset + 4 > bytes.byteLength) throw new Error(`Truncated WSC attribute header at byte ${baseOffset + offset}.`);
+    const type = (bytes[offset] << 8) | bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (offset + 4 + length > bytes.byteLength) {
+      throw new Error(`WSC attribute 0x${type.toString(16)} at byte ${baseOffset + offset} is longer than the payload.`);
+    }
+    const values = attributes.get(type) ?? [];
+    values.push(bytes.subarray(offset + 4, offset + 4 + length));
+    attributes.set(type, values);
+    offset += 4 + length;
+  }
+  return attributes;
+}
+
+function findName<T extends string>(table: Record<T, { code: number }>, code: number): T | undefined {
+  return (Object.keys(table) as T[]).find((name) => table[name].code === code);
+}
+
+// Reads the first credential of a WSC payload. Throws if the payload has none or is malformed.
+export function decodeWifiCredential(data: ArrayBuffer | ArrayBufferView): WifiCredential {
+  const bytes = ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data);
+  const credentialBytes = parseAttributes(bytes, 0).get(ATTR_CREDENTIAL)?.[0];
+  if (!credentialBytes) throw new Error("The payload holds no Wi-Fi credential.");
+  const fields = parseAttributes(credentialBytes, credentialBytes.byteOffset - bytes.byteOffset);
+  const value = (type: number) => fields.get(type)?.[0];
+
+  const ssid = value(ATTR_SSID);
+  if (!ssid) throw new Error("The Wi-Fi credential has no SSID.");
+  const authCode = value(ATTR_AUTH_TYPE);
+  const encryptionCode = value(ATTR_ENCRYPTION_TYPE);
+  const authType = authCode?.byteLength === 2 ? findName(WIFI_AUTH_TYPES, (authCode[0] << 8) | authCode[1]) : "open";
+  const encryptionType = encryptionCode?.byteLength === 2 ? findName(WIFI_ENCRYPTION_TYPES, (encryptionCode[0] << 8) | encryptionCode[1]) : "none";
+  if (!authType) throw new Error("The Wi-Fi credential has an unknown authentication type.");
+  if (!encryptionType) throw new Error("The Wi-Fi credential has an unknown encryption type.");
+
+  const credential: WifiCredential = {
+    ssid: textDecoder.decode(ssid),
+    authType,
+    encryptionType,
+    networkKey: textDecoder.decode(value(ATTR_NETWORK_KEY) ?? new Uint8Array(0)),
+    hidden: false, // Not part of WSC, see above
+  };
+  const mac = value(ATTR_MAC_ADDRESS);
+  if (mac?.byteLength === 6) {
+    credential.macAddress = Array.from(mac, (byte) => byte.toString(16).padStart(2, "0")).join(":");
+  }
+  return credential;
+}
@@ -0,0 +1,133 @@
+// src/utils/writeVerify.ts
+/*global NDEFRecord, NDEFRecordInit, NDEFMessageInit*/ // WebNFC global types
+import type { RecordVerifyResult, VerifyField, VerifyMismatch } from '../@types/app';
+import { encodeNdefMessage, encodeTextPayload } from './ndefCodec';
+
+// Compares the records sent to ndef.write() with the records read back from the tag.
+// Both sides are reduced to what a reading reports: text records carry their language and
+// encoding with the text bytes as data, URL records the full URL, smart posters the encoded
+// nested message, and mime records their media type.
+
+const PREVIEW_BYTES = 16;
+
+interface RecordFields {
+  recordType: string;
+  mediaType: string;
+  id: string;
+  lang: string;
+  encoding: string;
+  payload: Uint8Array;
+}
+
+const textEncoder = new TextEncoder();
+const utf8Decoder = new TextDecoder("utf-8", { fatal: true });
+
+function toBytes(data: unknown): Uint8Array {
+  if (!data) return new Uint8Array(0);
+  if (typeof data === "string") return textEncoder.encode(data);
+  if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  return new Uint8Array(data as ArrayBuffer);
+}
+
+function isMessageInit(data: unknown): data is NDEFMessageInit {
+  return !!data && typeof data === "object" && "records" in (data as object);
+}
+
+// The fields a reading should report for a record that was written from this init.
+function expectedFields(init: NDEFRecordInit): RecordFields {
+  const fields: RecordFields = { recordType: init.recordType, mediaType: "", id: init.id ?? "", lang: "", encoding: "", payload: new Uint8Array(0) };
+  switch (init.recordType) {
+    case "empty":
+      break;
+    case "text": {
+      fields.lang = init.lang || "en";
+      fields.encoding = (init.encoding || "utf-8").toLowerCase();
+      const payload = encodeTextPayload(init);
+      fields.payload = payload.subarray(1 + (payload[0] & 0x3f)); // Skip the status byte and language
+      break;
+    }
+    case "smart-poster":
+      fields.payload = isMessageInit(init.data) ? encodeNdefMessage(init.data.records) : toBytes(init.data);
+      break;
+    case "mime":
+      fields.mediaType = init.mediaType || "application/octet-stream";
+      fields.payload = toBytes(init.data);
+      break;
+    default:
+      fields.payload = toBytes(init.data);
+  }
+  return fields;
+}
+
+function actualFields(record: NDEFRecord): RecordFields {
+  return {
+    recordType: record.recordType,
+    mediaType: record.mediaType ?? "",
+    id: record.id ?? "",
+    lang: record.recordType === "text" ? record.lang ?? "" : "",
+    encoding: record.recordType === "text" ? (record.encoding ?? "").toLowerCase() : "",
+    payload: toBytes(record.data),
+  };
+}
+
+// Short display form of a payload: the text if it is readable UTF-8, otherwise the first bytes in hex.
+export function describeBytes(bytes: Uint8Array): string {
+  const size = `${bytes.byteLength} byte${bytes.byteLength === 1 ? "" : "s"}`;
+  if (!bytes.byteLength) return size;
+  try {
+    const text = utf8Decoder.decode(bytes);
+    const hasControlChars = Array.from(text).some((char) => char < " " && !"\t\n\r".includes(char));
+    if (!hasControlChars) {
+      return `${size}: "${text.length > 40 ? `${text.slice(0, 40)}…` : text}"`;
+    }
+  } catch {
+    // Not text, fall through to hex
+  }
+  const hex = Array.from(bytes.subarray(0, PREVIEW_BYTES), (byte) => byte.toString(16).padStart(2, "0")).join(" ");
+  return `${size}: ${hex}${bytes.byteLength > PREVIEW_BYTES ? " …" : ""}`;
+}
+
+// Index of the first byte that differs, or -1 if the arrays are equal.
+function firstDifference(a: Uint8Array, b: Uint8Array): number {
+  const length = Math.min(a.byteLength, b.byteLength);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) return i;
+  }
+  return a.byteLength === b.byteLength ? -1 : length;
+}
+
+const STRING_FIELDS: Exclude<VerifyField, "payload">[] = ["recordType", "mediaType", "id", "lang", "encoding"];
+
+function compareFields(expected: RecordFields, actual: RecordFields): VerifyMismatch[] {
+  const mismatches: VerifyMismatch[] = [];
+  for (const field of STRING_FIELDS) {
+    if (expected[field] !== actual[field]) {
+      mismatches.push({ field, expected: JSON.stringify(expected[field]), actual: JSON.stringify(actual[field]) });
+    }
+  }
+  const offset = firstDifference(expected.payload, actual.payload);
+  if (offset !== -1) {
+    mismatches.push({ field: "payload", expected: describeBytes(expected.payload), actual: describeBytes(actual.payload), offset });
+  }
+  return mismatches;
+}
+
+// One result per position; records missing from the tag or found in addition fail with a recordType mismatch.
+export function compareWrittenRecords(sent: readonly NDEFRecordInit[], read: readonly NDEFRecord[]): RecordVerifyResult[] {
+  const results: RecordVerifyResult[] = [];
+  for (let index = 0; index < Math.max(sent.length, read.length); index++) {
+    const expected = sent[index] ? expectedFields(sent[index]) : null;
+    const actual = read[index] ? actualFields(read[index]) : null;
+    const mismatches = expected && actual
+      ? compareFields(expected, actual)
+      : [{ field: "recordType" as const, expected: expected ? JSON.stringify(expected.recordType) : "no record", actual: actual ? JSON.stringify(actual.recordType) : "no record" }];
+    results.push({
+      index,
+      expectedType: expected?.recordType ?? "",
+      actualType: actual?.recordType ?? "",
+      passed: !mismatches.length,
+      mismatches,
+    });
+  }
+  return results;
+}